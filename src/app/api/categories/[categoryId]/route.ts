@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getCategoryModel } from "@/lib/db/models-v2/category";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { categoryUpdateSchema } from "@/lib/validations/api";
+import { serializeCategory } from "@/lib/utils";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  categoryId: string;
+}
+
+// The slug stays the same when a category is renamed, so lists and links
+// that use it keep working
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = categoryUpdateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid category", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [CategoryModel, ListModel] = await Promise.all([
+      getCategoryModel(),
+      getListModel()
+    ]);
+
+    const category = await CategoryModel.findOneAndUpdate(
+      { _id: params.categoryId, 'owner.clerkId': user.id },
+      { $set: parsed.data },
+      { new: true }
+    );
+
+    if (!category) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 }
+      );
+    }
+
+    // Lists carry a copy of how their category looks
+    await ListModel.updateMany(
+      { 'owner.clerkId': user.id, category: category.slug },
+      {
+        $set: {
+          categoryInfo: {
+            name: category.name,
+            color: category.color,
+            icon: category.icon
+          }
+        }
+      }
+    );
+
+    return NextResponse.json({ category: serializeCategory(category) });
+  } catch (error) {
+    console.error("Error updating category:", error);
+    return NextResponse.json(
+      { error: "Failed to update category" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [CategoryModel, ListModel] = await Promise.all([
+      getCategoryModel(),
+      getListModel()
+    ]);
+
+    const category = await CategoryModel.findOneAndDelete({
+      _id: params.categoryId,
+      'owner.clerkId': user.id
+    });
+
+    if (!category) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 }
+      );
+    }
+
+    // Lists in a deleted category move to "other"
+    await ListModel.updateMany(
+      { 'owner.clerkId': user.id, category: category.slug },
+      { $set: { category: 'other' }, $unset: { categoryInfo: "" } }
+    );
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting category:", error);
+    return NextResponse.json(
+      { error: "Failed to delete category" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getCategoryModel, slugifyCategoryName } from "@/lib/db/models-v2/category";
+import { getUserModel } from "@/lib/db/models-v2/user";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { canEditList } from "@/lib/auth/permissions";
+import { getUserCategories } from "@/lib/actions/categories";
+import { categoryCreateSchema } from "@/lib/validations/api";
+import { serializeCategory } from "@/lib/utils";
+import { isBuiltInCategory } from "@/types/list";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+// Lists the current user's categories. With ?listId it lists the categories
+// of that list's owner instead, which only people who can edit the list may
+// choose from.
+export async function GET(req: NextRequest) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    let ownerId = user.id;
+    const listId = req.nextUrl.searchParams.get("listId");
+    if (listId) {
+      await connectToMongoDB();
+      const ListModel = await getListModel();
+      const list = await ListModel.findById(listId);
+      if (!list || !(await canEditList(list, user.id))) {
+        return NextResponse.json(
+          { error: "List not found" },
+          { status: 404 }
+        );
+      }
+      ownerId = list.owner.clerkId;
+    }
+
+    const categories = await getUserCategories(ownerId);
+
+    return NextResponse.json({ categories });
+  } catch (error) {
+    console.error("Error fetching categories:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch categories" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = categoryCreateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid category", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const slug = slugifyCategoryName(parsed.data.name);
+    if (!slug || isBuiltInCategory(slug) || slug === 'all') {
+      return NextResponse.json(
+        { error: "Choose a different name for this category" },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [CategoryModel, UserModel] = await Promise.all([
+      getCategoryModel(),
+      getUserModel()
+    ]);
+
+    const mongoUser = await UserModel.findOne({ clerkId: user.id }).lean();
+    if (!mongoUser) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const existing = await CategoryModel.findOne({ 'owner.clerkId': user.id, slug }).lean();
+    if (existing) {
+      return NextResponse.json(
+        { error: "You already have a category with this name" },
+        { status: 409 }
+      );
+    }
+
+    const category = await CategoryModel.create({
+      owner: {
+        userId: mongoUser._id,
+        clerkId: user.id
+      },
+      slug,
+      name: parsed.data.name,
+      color: parsed.data.color,
+      icon: parsed.data.icon
+    });
+
+    return NextResponse.json(
+      { category: serializeCategory(category) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating category:", error);
+    return NextResponse.json(
+      { error: "Failed to create category" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getCollectionModel } from "@/lib/db/models-v2/collection";
+import { serializeCollection } from "@/lib/utils";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  collectionId: string;
+  listId: string;
+}
+
+// Takes a list out of a collection; the list itself is untouched
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const CollectionModel = await getCollectionModel();
+
+    const collection = await CollectionModel.findOneAndUpdate(
+      { _id: params.collectionId, 'owner.clerkId': user.id },
+      { $pull: { listIds: params.listId } },
+      { new: true }
+    );
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: "Collection not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ collection: serializeCollection(collection) });
+  } catch (error) {
+    console.error("Error removing list from collection:", error);
+    return NextResponse.json(
+      { error: "Failed to remove list from collection" },
+      { status: 500 }
+    );
+  }
+}
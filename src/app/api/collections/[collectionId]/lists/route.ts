@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getCollectionModel } from "@/lib/db/models-v2/collection";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getPinModel } from "@/lib/db/models-v2/pin";
+import { collectionListAddSchema, collectionReorderSchema } from "@/lib/validations/api";
+import { serializeCollection } from "@/lib/utils";
+import { MAX_COLLECTION_LISTS } from "@/lib/utils/collections";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  collectionId: string;
+}
+
+// Adds one of the user's own or pinned lists to the end of a collection
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = collectionListAddSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid list", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [CollectionModel, ListModel, PinModel] = await Promise.all([
+      getCollectionModel(),
+      getListModel(),
+      getPinModel()
+    ]);
+
+    const { listId } = parsed.data;
+    const list = await ListModel.findById(listId).select('owner').lean();
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (list.owner.clerkId !== user.id && !(await PinModel.exists({ clerkId: user.id, listId }))) {
+      return NextResponse.json(
+        { error: "Only your own lists and lists you've pinned can be added" },
+        { status: 403 }
+      );
+    }
+
+    const collection = await CollectionModel.findOne({ _id: params.collectionId, 'owner.clerkId': user.id });
+    if (!collection) {
+      return NextResponse.json(
+        { error: "Collection not found" },
+        { status: 404 }
+      );
+    }
+
+    if (collection.listIds.some(id => id.toString() === listId)) {
+      return NextResponse.json({ collection: serializeCollection(collection) });
+    }
+
+    if (collection.listIds.length >= MAX_COLLECTION_LISTS) {
+      return NextResponse.json(
+        { error: `A collection can hold up to ${MAX_COLLECTION_LISTS} lists` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await CollectionModel.findOneAndUpdate(
+      { _id: collection._id },
+      { $addToSet: { listIds: listId } },
+      { new: true }
+    );
+
+    return NextResponse.json({ collection: serializeCollection(updated || collection) });
+  } catch (error) {
+    console.error("Error adding list to collection:", error);
+    return NextResponse.json(
+      { error: "Failed to add list to collection" },
+      { status: 500 }
+    );
+  }
+}
+
+// Saves the custom order of the lists in a collection
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = collectionReorderSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid list order", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const CollectionModel = await getCollectionModel();
+
+    const collection = await CollectionModel.findOne({ _id: params.collectionId, 'owner.clerkId': user.id });
+    if (!collection) {
+      return NextResponse.json(
+        { error: "Collection not found" },
+        { status: 404 }
+      );
+    }
+
+    // The page may not show every list, e.g. ones that were made private
+    // since, so lists left out of the new order keep their place at the end
+    const { listIds } = parsed.data;
+    const current = collection.listIds.map(id => id.toString());
+    if (new Set(listIds).size !== listIds.length || listIds.some(id => !current.includes(id))) {
+      return NextResponse.json(
+        { error: "List order does not match the lists in this collection" },
+        { status: 409 }
+      );
+    }
+
+    const updated = await CollectionModel.findOneAndUpdate(
+      { _id: collection._id },
+      { $set: { listIds: [...listIds, ...current.filter(id => !listIds.includes(id))] } },
+      { new: true }
+    );
+
+    return NextResponse.json({ collection: serializeCollection(updated || collection) });
+  } catch (error) {
+    console.error("Error reordering collection:", error);
+    return NextResponse.json(
+      { error: "Failed to reorder collection" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getCollectionModel } from "@/lib/db/models-v2/collection";
+import { collectionUpdateSchema } from "@/lib/validations/api";
+import { serializeCollection } from "@/lib/utils";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  collectionId: string;
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = collectionUpdateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid collection", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const CollectionModel = await getCollectionModel();
+
+    const collection = await CollectionModel.findOneAndUpdate(
+      { _id: params.collectionId, 'owner.clerkId': user.id },
+      { $set: parsed.data },
+      { new: true }
+    );
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: "Collection not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ collection: serializeCollection(collection) });
+  } catch (error) {
+    console.error("Error updating collection:", error);
+    return NextResponse.json(
+      { error: "Failed to update collection" },
+      { status: 500 }
+    );
+  }
+}
+
+// The lists in the collection aren't affected
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const CollectionModel = await getCollectionModel();
+
+    const collection = await CollectionModel.findOneAndDelete({
+      _id: params.collectionId,
+      'owner.clerkId': user.id
+    });
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: "Collection not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting collection:", error);
+    return NextResponse.json(
+      { error: "Failed to delete collection" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getCollectionModel } from "@/lib/db/models-v2/collection";
+import { getUserModel } from "@/lib/db/models-v2/user";
+import { getUserCollections } from "@/lib/actions/collections";
+import { collectionCreateSchema } from "@/lib/validations/api";
+import { serializeCollection } from "@/lib/utils";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+// Lists the current user's collections, or another user's public ones with ?userId
+export async function GET(req: NextRequest) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const userId = req.nextUrl.searchParams.get("userId") || user.id;
+    const collections = await getUserCollections(userId, user.id);
+
+    return NextResponse.json({ collections });
+  } catch (error) {
+    console.error("Error fetching collections:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch collections" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = collectionCreateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid collection", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [CollectionModel, UserModel] = await Promise.all([
+      getCollectionModel(),
+      getUserModel()
+    ]);
+
+    const mongoUser = await UserModel.findOne({ clerkId: user.id }).lean();
+    if (!mongoUser) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const collection = await CollectionModel.create({
+      owner: {
+        userId: mongoUser._id,
+        clerkId: user.id,
+        username: mongoUser.username || ""
+      },
+      ...parsed.data,
+      listIds: []
+    });
+
+    return NextResponse.json(
+      { collection: serializeCollection(collection) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating collection:", error);
+    return NextResponse.json(
+      { error: "Failed to create collection" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { acceptListInvite } from "@/lib/actions/list-invites";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  token: string;
+}
+
+const FAILURES = {
+  invalid: { error: "This invite link isn't valid", status: 404 },
+  expired: { error: "This invite has expired", status: 410 },
+  used: { error: "This invite has already been used", status: 410 },
+  revoked: { error: "This invite was withdrawn", status: 410 }
+} as const;
+
+// Accepts an invite link as the signed-in user
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await acceptListInvite(params.token, user.id);
+    if (result.status === 'member') {
+      return NextResponse.json({ listId: result.listId });
+    }
+
+    const failure = FAILURES[result.status === 'valid' ? 'invalid' : result.status];
+    return NextResponse.json(
+      { error: failure.error },
+      { status: failure.status }
+    );
+  } catch (error) {
+    console.error("Error accepting invite:", error);
+    return NextResponse.json(
+      { error: "Failed to accept invite" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const LIST_ID = '64b000000000000000000001';
+const MILK_ID = '64b0000000000000000000aa';
+const EGGS_ID = '64b0000000000000000000bb';
+
+const findById = jest.fn<(id: string) => Promise<unknown>>();
+const findOneAndUpdate = jest.fn<(filter: unknown, update: any) => Promise<unknown>>();
+
+jest.mock('@/lib/services/auth.server', () => ({
+  AuthServerService: {
+    getCurrentUser: async () => ({ id: 'owner-1', username: 'owner' })
+  }
+}));
+jest.mock('@/lib/db/client', () => ({ connectToMongoDB: async () => undefined }));
+jest.mock('@/lib/db/models-v2/list', () => ({
+  getListModel: async () => ({ findById, findOneAndUpdate })
+}));
+jest.mock('@/lib/db/models-v2/category', () => ({
+  resolveListCategory: async (category: string) => ({ category, categoryInfo: null })
+}));
+jest.mock('@/lib/db/models-v2/list-revision', () => ({ recordListRevision: async () => undefined }));
+jest.mock('@/lib/db/models-v2/list-activity', () => ({ recordListActivity: async () => undefined }));
+jest.mock('@/lib/realtime/list-channel', () => ({ publishListChange: () => undefined }));
+jest.mock('@/lib/actions/lists', () => ({
+  getEnhancedLists: async () => ({ lists: [{ id: LIST_ID, version: 4 }] })
+}));
+
+import { MAX_ITEM_DEPTH } from '@/lib/utils/list-items';
+import { PATCH, PUT } from '../route';
+
+const objectId = (id: string) => ({ toString: () => id });
+
+// The list as saved, with a comment on each item
+function savedList() {
+  return {
+    _id: objectId(LIST_ID),
+    title: 'Groceries',
+    description: '',
+    category: 'other',
+    tags: [],
+    visibility: 'private',
+    listType: 'bullet',
+    version: 3,
+    owner: { clerkId: 'owner-1' },
+    collaborators: [],
+    items: [
+      { _id: objectId(MILK_ID), title: 'Milk', comment: 'Semi-skimmed', completed: false, childItems: [] },
+      { _id: objectId(EGGS_ID), title: 'Eggs', comment: 'Free range', completed: false, childItems: [] }
+    ],
+    save: async () => undefined
+  };
+}
+
+const request = (method: string, body: unknown) =>
+  new Request(`http://localhost/api/lists/${LIST_ID}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'If-Match': '"3"' },
+    body: JSON.stringify(body)
+  });
+
+const savedItems = () => findOneAndUpdate.mock.calls[0][1].$set.items;
+
+describe('saving list items', () => {
+  beforeEach(() => {
+    findById.mockReset().mockImplementation(async () => savedList());
+    findOneAndUpdate.mockReset().mockImplementation(async () => savedList());
+  });
+
+  it('keeps saved comments when an autosave leaves them out', async () => {
+    const response = await PATCH(request('PATCH', {
+      items: [
+        { id: MILK_ID, title: 'Milk', completed: true },
+        { id: EGGS_ID, title: 'Eggs' }
+      ]
+    }), { params: { listId: LIST_ID } });
+
+    expect(response.status).toBe(200);
+    expect(savedItems()).toMatchObject([
+      { _id: MILK_ID, title: 'Milk', comment: 'Semi-skimmed', completed: true },
+      { _id: EGGS_ID, title: 'Eggs', comment: 'Free range' }
+    ]);
+  });
+
+  it('keeps saved comments when a full save leaves them out', async () => {
+    const response = await PUT(request('PUT', {
+      title: 'Groceries',
+      category: 'other',
+      visibility: 'private',
+      listType: 'bullet',
+      items: [{ id: EGGS_ID, title: 'Eggs', checked: false }, { id: MILK_ID, title: 'Milk', checked: false }]
+    }), { params: { listId: LIST_ID } });
+
+    expect(response.status).toBe(200);
+    expect(savedItems().map((item: { comment?: string }) => item.comment)).toEqual(['Free range', 'Semi-skimmed']);
+  });
+
+  it('saves comments that are sent, including cleared ones', async () => {
+    await PATCH(request('PATCH', {
+      items: [
+        { id: MILK_ID, title: 'Milk', comment: 'Oat' },
+        { id: EGGS_ID, title: 'Eggs', comment: '' }
+      ]
+    }), { params: { listId: LIST_ID } });
+
+    expect(savedItems().map((item: { comment?: string }) => item.comment)).toEqual(['Oat', '']);
+  });
+
+  it("drops saved field values the list's new category doesn't have", async () => {
+    findById.mockImplementation(async () => {
+      const list = savedList();
+      list.category = 'books';
+      Object.assign(list.items[0], { fields: { author: 'Frank Herbert', rating: 5 } });
+      return list;
+    });
+
+    const response = await PATCH(request('PATCH', {
+      category: 'movies',
+      items: [{ id: MILK_ID, title: 'Dune' }, { id: EGGS_ID, title: 'Eggs' }]
+    }), { params: { listId: LIST_ID } });
+
+    expect(response.status).toBe(200);
+    expect(savedItems()[0].fields).toEqual({ rating: 5 });
+    expect(savedItems()[1]).not.toHaveProperty('fields');
+  });
+
+  it('rejects sub-items nested deeper than lists allow', async () => {
+    let childItems: Array<{ title: string; childItems?: unknown[] }> = [];
+    for (let depth = MAX_ITEM_DEPTH + 1; depth >= 1; depth--) {
+      childItems = [{ title: `Level ${depth}`, childItems }];
+    }
+
+    const response = await PATCH(request('PATCH', {
+      items: [{ id: MILK_ID, title: 'Milk', childItems }]
+    }), { params: { listId: LIST_ID } });
+
+    expect(response.status).toBe(400);
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
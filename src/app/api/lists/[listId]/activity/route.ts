@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getListActivityModel } from "@/lib/db/models-v2/list-activity";
+import { isListMember } from "@/lib/auth/permissions";
+import {
+  LIST_ACTIVITY_CATEGORIES,
+  LIST_ACTIVITY_PAGE_SIZE,
+  isListActivityCategory
+} from "@/lib/utils/list-activity";
+import { AuthServerService } from "@/lib/services/auth.server";
+import type { ListActivityActor, ListActivityEntry, ListActivityPage } from "@/types/list-activity";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+// A page of the list's activity, newest first. `actor` and `category` narrow
+// it down to one person or one kind of change, and `cursor` continues from
+// the last entry of the previous page.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const cursor = searchParams.get("cursor");
+    const actor = searchParams.get("actor");
+    const category = searchParams.get("category");
+    if ((cursor && !Types.ObjectId.isValid(cursor)) || (category && !isListActivityCategory(category))) {
+      return NextResponse.json(
+        { error: "Invalid activity filter" },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [ListModel, ListActivityModel] = await Promise.all([
+      getListModel(),
+      getListActivityModel()
+    ]);
+
+    const list = await ListModel.findById(params.listId).lean();
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    // Only the owner and accepted collaborators can see the activity
+    if (!isListMember(list, user.id)) {
+      return NextResponse.json(
+        { error: "Not authorized to view activity" },
+        { status: 403 }
+      );
+    }
+
+    const records = await ListActivityModel.find({
+      listId: list._id,
+      ...(cursor ? { _id: { $lt: cursor } } : {}),
+      ...(actor ? { 'actor.clerkId': actor } : {}),
+      ...(category && isListActivityCategory(category) ? { type: { $in: LIST_ACTIVITY_CATEGORIES[category] } } : {})
+    })
+      .sort({ _id: -1 })
+      .limit(LIST_ACTIVITY_PAGE_SIZE + 1)
+      .lean();
+
+    const hasMore = records.length > LIST_ACTIVITY_PAGE_SIZE;
+    const entries: ListActivityEntry[] = records.slice(0, LIST_ACTIVITY_PAGE_SIZE).map(record => ({
+      id: String(record._id),
+      type: record.type,
+      actor: {
+        clerkId: record.actor.clerkId,
+        username: record.actor.username
+      },
+      itemId: record.itemId,
+      itemTitle: record.itemTitle,
+      from: record.from,
+      to: record.to,
+      fields: record.fields,
+      subject: record.subject,
+      createdAt: record.createdAt.toISOString()
+    }));
+
+    // Everyone who has done anything to the list, for the person filter.
+    // Only sent with the first page.
+    let people: ListActivityActor[] | undefined;
+    if (!cursor) {
+      const actors = await ListActivityModel.aggregate<{ _id: string; username?: string }>([
+        { $match: { listId: list._id } },
+        { $sort: { _id: 1 } },
+        { $group: { _id: '$actor.clerkId', username: { $last: '$actor.username' } } }
+      ]);
+      people = actors
+        .map(({ _id, username }) => ({ clerkId: _id, username }))
+        .sort((a, b) => (a.username || '').localeCompare(b.username || ''));
+    }
+
+    return NextResponse.json<ListActivityPage>({
+      entries,
+      nextCursor: hasMore ? entries[entries.length - 1].id : undefined,
+      hasMore,
+      people
+    });
+  } catch (error) {
+    console.error("Error fetching list activity:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch activity" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { connectToMongoDB } from "@/lib/db/client";
 import { getListModel, ListDocument, ListCollaborator } from "@/lib/db/models-v2/list";
 import { getUserModel, UserDocument } from "@/lib/db/models-v2/user";
+import { listActivitySubject, recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { revokeListInvites } from "@/lib/actions/list-invites";
+import { publishListMembersChange } from "@/lib/realtime/list-channel";
+import { collaboratorUpdateSchema } from "@/lib/validations/api";
 import { Types } from "mongoose";
 import { AuthService } from "@/lib/services/auth.service";
 import { AuthServerService } from "@/lib/services/auth.server";
@@ -132,7 +136,10 @@ export async function DELETE(
     }
 
     // Remove collaborator by clerkId or email
-    await ListModel.findByIdAndUpdate(params.listId, {
+    const removed = list.collaborators.find(
+      (c) => c.clerkId === params.userId || c.email === params.userId
+    );
+    const updatedList = await ListModel.findByIdAndUpdate(params.listId, {
       $pull: {
         collaborators: {
           $or: [
@@ -141,7 +148,23 @@ export async function DELETE(
           ]
         }
       }
-    });
+    }, { new: true });
+    if (updatedList) {
+      publishListMembersChange(params.listId, updatedList);
+    }
+
+    // A pending email invite's link would otherwise still add whoever opens it
+    if (removed?._isEmailInvite && removed.email) {
+      await revokeListInvites(params.listId, removed.email);
+    }
+
+    if (removed) {
+      await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+        type: removed.clerkId === user.id ? 'collaborator.left' : 'collaborator.removed',
+        subject: await listActivitySubject(removed),
+        from: removed.role
+      }]);
+    }
 
     return NextResponse.json<SuccessResponse>({ message: "Collaborator removed successfully" });
   } catch (error) {
@@ -166,7 +189,14 @@ export async function PATCH(
       );
     }
 
-    const { role } = await req.json();
+    const parsed = collaboratorUpdateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json<ErrorResponse>(
+        { error: "Invalid role" },
+        { status: 400 }
+      );
+    }
+    const { role } = parsed.data;
 
     await connectToMongoDB();
     const ListModel = await getListModel();
@@ -213,6 +243,16 @@ export async function PATCH(
       );
     }
 
+    const previousRole = list.collaborators.find(c => c.clerkId === params.userId)?.role;
+    if (previousRole !== role) {
+      await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+        type: 'collaborator.role',
+        subject: await listActivitySubject({ clerkId: params.userId }),
+        from: previousRole,
+        to: role
+      }]);
+    }
+
     return NextResponse.json<CollaboratorsResponse>({ collaborators: updatedList.collaborators });
   } catch (error) {
     console.error("Error updating collaborator:", error);
@@ -276,6 +316,11 @@ export async function PUT(
     
     await list.save();
 
+    await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+      type: 'collaborator.joined',
+      to: collaborator.role
+    }]);
+
     return NextResponse.json<SuccessResponse>({ message: "Invitation accepted successfully" });
   } catch (error) {
     console.error("Error accepting invitation:", error);
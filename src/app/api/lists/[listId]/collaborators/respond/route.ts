@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { connectToMongoDB } from "@/lib/db/client";
 import { getListModel } from "@/lib/db/models-v2/list";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
 import { withAuth, getUserId } from "@/lib/auth/api-utils";
 
 export const dynamic = 'force-dynamic';
@@ -63,6 +64,11 @@ export const POST = withAuth<RouteParams>(async (
         }
       );
 
+      await recordListActivity(params.listId, { clerkId: userId }, [{
+        type: 'collaborator.joined',
+        to: collaborator.role
+      }]);
+
       return NextResponse.json({ status: "accepted" });
     } else {
       // Decline the invitation
@@ -75,6 +81,8 @@ export const POST = withAuth<RouteParams>(async (
         }
       );
 
+      await recordListActivity(params.listId, { clerkId: userId }, [{ type: 'collaborator.declined' }]);
+
       return NextResponse.json({ status: "declined" });
     }
   } catch (error) {
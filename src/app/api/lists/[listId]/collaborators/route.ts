@@ -2,8 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { connectToMongoDB } from "@/lib/db/client";
 import { getListModel } from "@/lib/db/models-v2/list";
 import { getUserModel } from "@/lib/db/models-v2/user";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
 import { AuthService } from "@/lib/services/auth.service";
 import { sendCollaborationInviteEmail } from "@/lib/email";
+import { createListInvite } from "@/lib/actions/list-invites";
+import { collaboratorAddSchema } from "@/lib/validations/api";
 import { AuthServerService } from "@/lib/services/auth.server";
 
 export const dynamic = 'force-dynamic';
@@ -124,9 +127,15 @@ export async function POST(
       );
     }
 
-    const body = await req.json();
+    const parsed = collaboratorAddSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json<ErrorResponse>(
+        { error: "Invalid collaborator" },
+        { status: 400 }
+      );
+    }
 
-    const { type = 'user', targetUserId, userId, email, role = "viewer" } = body;
+    const { type, targetUserId, userId, email, role } = parsed.data;
     // userId from the client might be a Clerk ID directly
     const targetId = targetUserId || userId;
 
@@ -220,6 +229,12 @@ export async function POST(
         { new: true }
       );
 
+      await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+        type: 'collaborator.added',
+        subject: { clerkId: targetId, username: targetUser.username },
+        to: role
+      }]);
+
       return NextResponse.json<CollaboratorResponse>({
         collaborators: updatedList?.collaborators.map(c => ({
           ...c,
@@ -269,6 +284,12 @@ export async function POST(
           { new: true }
         );
 
+        await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+          type: 'collaborator.added',
+          subject: { clerkId: existingUser.clerkId, username: existingUser.username },
+          to: role
+        }]);
+
         return NextResponse.json<CollaboratorResponse>({
           collaborators: updatedList?.collaborators.map(c => ({
             ...c,
@@ -277,7 +298,15 @@ export async function POST(
         });
       }
 
-      // If no existing user found, proceed with email invite
+      // If no existing user found, proceed with email invite. The link is
+      // created first so a failure leaves the list as it was.
+      const invite = await createListInvite({
+        listId: params.listId,
+        role,
+        email,
+        invitedBy: user.id
+      });
+
       const updatedList = await ListModel.findByIdAndUpdate(
         params.listId,
         {
@@ -294,14 +323,23 @@ export async function POST(
         { new: true }
       );
 
-      // Send invitation email
+      // Send invitation email with a single-use link, so it can be accepted
+      // from an account with a different address
       await sendCollaborationInviteEmail({
         to: email,
         inviterName: user.fullName || user.username || '',
         listTitle: list.title || '',
-        listUrl: `${process.env.NEXT_PUBLIC_APP_URL}/lists/${list._id}`
+        listUrl: `${process.env.NEXT_PUBLIC_APP_URL}/lists/${list._id}`,
+        inviteUrl: invite.url,
+        inviteExpiresAt: invite.expiresAt
       });
 
+      await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+        type: 'collaborator.invited',
+        subject: { email },
+        to: role
+      }]);
+
       return NextResponse.json<CollaboratorResponse>({
         collaborators: updatedList?.collaborators.map(c => ({
           ...c,
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { connectToMongoDB } from "@/lib/db/client";
 import { getListModel, ListDocument } from "@/lib/db/models-v2/list";
 import { getUserModel } from "@/lib/db/models-v2/user";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
 import { AuthServerService } from "@/lib/services/auth.server";
+import { isBuiltInCategory } from "@/types/list";
 
 export const dynamic = 'force-dynamic';
 
@@ -46,14 +48,37 @@ export async function POST(
       return new NextResponse("Unauthorized", { status: 401 });
     }
 
+    // User-defined categories belong to their owner, so copies made by
+    // someone else fall back to "other"
+    const keepCategory = isBuiltInCategory(originalList.category) || originalList.owner.clerkId === user.id;
+
+    // Get the original owner's username for the fork record
+    const originalOwner = await UserModel.findOne({ clerkId: originalList.owner.clerkId })
+      .select('username')
+      .lean();
+
     // Create a copy of the list
     const list = await ListModel.create({
       title: `${originalList.title} (Copy)`,
       description: originalList.description,
-      category: originalList.category,
+      category: keepCategory ? originalList.category : 'other',
+      categoryInfo: keepCategory ? originalList.categoryInfo : undefined,
+      tags: originalList.tags || [],
       visibility: "private", // Always create copies as private
       listType: originalList.listType,
+      // Items keep their IDs so the copy can be compared with its source later
       items: originalList.items || [],
+      forkedFrom: {
+        listId: originalList._id,
+        owner: {
+          clerkId: originalList.owner.clerkId,
+          username: originalOwner?.username
+        },
+        title: originalList.title,
+        version: originalList.version || 0,
+        forkedAt: new Date(),
+        baseItems: originalList.items || []
+      },
       owner: {
         clerkId: user.id,
         userId: mongoUser._id,
@@ -72,6 +97,9 @@ export async function POST(
     await ListModel.findByIdAndUpdate(originalList._id, {
       $inc: { "stats.copyCount": 1 }
     });
+    await recordListActivity(params.listId, { clerkId: user.id, username: mongoUser.username }, [{
+      type: 'list.copied'
+    }]);
 
     // Convert _id to string for the response
     const { _id, ...rest } = list.toObject();
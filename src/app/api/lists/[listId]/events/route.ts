@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { isListMember } from "@/lib/auth/permissions";
+import {
+  getListPresence,
+  joinListPresence,
+  leaveListPresence,
+  subscribeToList
+} from "@/lib/realtime/list-channel";
+import { AuthServerService } from "@/lib/services/auth.server";
+import type { ListEvent } from "@/types/list-realtime";
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  listId: string;
+}
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// Server-sent event stream of changes and presence for a list
+export async function GET(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const list = await ListModel.findById(params.listId).lean();
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!isListMember(list, user.id)) {
+      return NextResponse.json(
+        { error: "Not authorized to follow this list" },
+        { status: 403 }
+      );
+    }
+
+    const listId = params.listId;
+    const connectionId = crypto.randomUUID();
+    const editing = req.nextUrl.searchParams.get("editing") === "1";
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (event: ListEvent) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        };
+
+        const close = () => {
+          cleanup?.();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        // Access is checked again with every change, so someone removed from
+        // the list stops getting its items
+        const unsubscribe = subscribeToList(listId, user.id, send, close);
+        const heartbeat = setInterval(() => {
+          controller.enqueue(encoder.encode(": heartbeat\n\n"));
+        }, HEARTBEAT_INTERVAL_MS);
+
+        cleanup = () => {
+          cleanup = null;
+          clearInterval(heartbeat);
+          unsubscribe();
+          leaveListPresence(listId, connectionId);
+        };
+
+        req.signal.addEventListener("abort", close);
+
+        // Send the current presence first, then announce this connection
+        send({ type: "presence", users: getListPresence(listId) });
+        joinListPresence(listId, {
+          connectionId,
+          clerkId: user.id,
+          username: user.username || undefined,
+          imageUrl: user.imageUrl || undefined,
+          editing
+        });
+      },
+      cancel() {
+        cleanup?.();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no"
+      }
+    });
+  } catch (error) {
+    console.error("Error opening list event stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open event stream" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getUserModel } from "@/lib/db/models-v2/user";
+import { hasListAccess } from "@/lib/auth/permissions";
+import { serializeListItem } from "@/lib/utils/list-items";
+import {
+  exportContentType,
+  exportFileName,
+  exportList,
+  LIST_EXPORT_FORMATS,
+  type ListExportFormat
+} from "@/lib/utils/list-export";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const format = (req.nextUrl.searchParams.get('format') || 'md') as ListExportFormat;
+    if (!LIST_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Unsupported format, use one of ${LIST_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const user = await AuthServerService.getCurrentUser();
+
+    await connectToMongoDB();
+    const [ListModel, UserModel] = await Promise.all([
+      getListModel(),
+      getUserModel()
+    ]);
+
+    const list = await ListModel.findById(params.listId);
+    if (!list || !(await hasListAccess(list, user?.id || null))) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    const owner = await UserModel.findOne({ clerkId: list.owner.clerkId })
+      .select('username')
+      .lean();
+
+    const body = exportList({
+      title: list.title,
+      description: list.description,
+      category: list.category,
+      categoryInfo: list.categoryInfo || undefined,
+      tags: list.tags || [],
+      listType: list.listType,
+      items: (list.items || []).map(serializeListItem),
+      ownerUsername: owner?.username,
+      url: `${process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin}/lists/${params.listId}`
+    }, format);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': exportContentType(format),
+        'Content-Disposition': `attachment; filename="${exportFileName(list.title, format)}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error("Error exporting list:", error);
+    return NextResponse.json(
+      { error: "Failed to export list" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,273 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { recordListRevision } from "@/lib/db/models-v2/list-revision";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { publishListChange } from "@/lib/realtime/list-channel";
+import { canCommentOnList, canEditListItem } from "@/lib/auth/permissions";
+import { listItemUpdateSchema } from "@/lib/validations/api";
+import { isPersistedItemId, isSection, serializeListItem } from "@/lib/utils/list-items";
+import { describeListChanges } from "@/lib/utils/list-activity";
+import { itemFieldsSchema } from "@/lib/utils/item-fields";
+import { getExpectedVersion, listETag, versionFilter } from "@/lib/utils/list-version";
+import { listConflictResponse } from "@/lib/api/list-conflict";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+  itemId: string;
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isPersistedItemId(params.itemId)) {
+      return NextResponse.json(
+        { error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = listItemUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid item", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Edits must say which version of the list they were based on
+    const expectedVersion = getExpectedVersion(req, body);
+    if (expectedVersion === null) {
+      return NextResponse.json(
+        { error: "An If-Match header or version field is required" },
+        { status: 428 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const list = await ListModel.findById(params.listId);
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    const savedItem = list.items.find(item => item._id?.toString() === params.itemId);
+    if (!savedItem) {
+      return NextResponse.json(
+        { error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    // Commenters, and contributors on items they didn't add, can only change
+    // the comment
+    const changesOnlyComment = Object.entries(parsed.data)
+      .every(([field, value]) => field === 'comment' || value === undefined);
+    if (
+      !canEditListItem(list, savedItem, user.id) &&
+      !(changesOnlyComment && canCommentOnList(list, user.id))
+    ) {
+      return NextResponse.json(
+        { error: "Not authorized to edit this item" },
+        { status: 403 }
+      );
+    }
+
+    // Which fields an item can have depends on the list's category
+    let update = parsed.data;
+    if (update.fields !== undefined) {
+      const values = itemFieldsSchema(list.category).safeParse(update.fields);
+      if (!values.success) {
+        return NextResponse.json(
+          { error: "Invalid item fields", details: values.error.flatten() },
+          { status: 400 }
+        );
+      }
+      update = { ...update, fields: values.data };
+    }
+
+    if (parsed.data.recipe && list.category !== 'recipes') {
+      return NextResponse.json(
+        { error: "Only items on recipe lists can have a recipe" },
+        { status: 400 }
+      );
+    }
+
+    // Only touch the fields that were sent, on the one matching item. Sections
+    // can't be ticked off or have sub-items, field values or a recipe.
+    const fields = isSection(update)
+      ? { ...update, completed: false, childItems: [], fields: {}, recipe: { ingredients: [], steps: [] } }
+      : update;
+    const itemUpdate = Object.fromEntries(
+      Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([field, value]) => [`items.$.${field}`, value])
+    );
+
+    const updatedList = await ListModel.findOneAndUpdate(
+      { _id: params.listId, "items._id": params.itemId, ...versionFilter(expectedVersion) },
+      {
+        $set: { ...itemUpdate, editedAt: new Date() },
+        $inc: { version: 1 }
+      },
+      { new: true }
+    );
+
+    if (!updatedList) {
+      return listConflictResponse(params.listId);
+    }
+
+    await recordListRevision({
+      listId: params.listId,
+      previous: list,
+      current: updatedList,
+      editedBy: { clerkId: user.id, username: user.username }
+    });
+    await recordListActivity(
+      params.listId,
+      { clerkId: user.id, username: user.username },
+      describeListChanges(list, updatedList)
+    );
+
+    publishListChange(
+      params.listId,
+      updatedList,
+      'item.updated',
+      { clerkId: user.id, username: user.username },
+      params.itemId
+    );
+
+    const item = updatedList.items.find(i => i._id?.toString() === params.itemId);
+
+    return NextResponse.json(
+      { item: item && serializeListItem(item), version: updatedList.version },
+      { headers: { ETag: listETag(updatedList.version) } }
+    );
+  } catch (error) {
+    console.error("Error updating list item:", error);
+    return NextResponse.json(
+      { error: "Failed to update item" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (!isPersistedItemId(params.itemId)) {
+      return NextResponse.json(
+        { error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    // Edits must say which version of the list they were based on
+    const expectedVersion = getExpectedVersion(req);
+    if (expectedVersion === null) {
+      return NextResponse.json(
+        { error: "An If-Match header is required" },
+        { status: 428 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const list = await ListModel.findById(params.listId);
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    const savedItem = list.items.find(item => item._id?.toString() === params.itemId);
+    if (!savedItem) {
+      return NextResponse.json(
+        { error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canEditListItem(list, savedItem, user.id)) {
+      return NextResponse.json(
+        { error: "Not authorized to remove this item" },
+        { status: 403 }
+      );
+    }
+
+    const updatedList = await ListModel.findOneAndUpdate(
+      { _id: params.listId, "items._id": params.itemId, ...versionFilter(expectedVersion) },
+      {
+        $pull: { items: { _id: params.itemId } },
+        $set: { editedAt: new Date() },
+        $inc: { version: 1 }
+      },
+      { new: true }
+    );
+
+    if (!updatedList) {
+      return listConflictResponse(params.listId);
+    }
+
+    await recordListRevision({
+      listId: params.listId,
+      previous: list,
+      current: updatedList,
+      editedBy: { clerkId: user.id, username: user.username }
+    });
+    await recordListActivity(
+      params.listId,
+      { clerkId: user.id, username: user.username },
+      describeListChanges(list, updatedList)
+    );
+
+    publishListChange(
+      params.listId,
+      updatedList,
+      'item.removed',
+      { clerkId: user.id, username: user.username },
+      params.itemId
+    );
+
+    return NextResponse.json(
+      { success: true, version: updatedList.version },
+      { headers: { ETag: listETag(updatedList.version) } }
+    );
+  } catch (error) {
+    console.error("Error deleting list item:", error);
+    return NextResponse.json(
+      { error: "Failed to delete item" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { recordListRevision } from "@/lib/db/models-v2/list-revision";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { describeListChanges } from "@/lib/utils/list-activity";
+import { publishListChange } from "@/lib/realtime/list-channel";
+import { canCommentOnList, listItemChangeError } from "@/lib/auth/permissions";
+import { listItemReorderSchema } from "@/lib/validations/api";
+import { listETag, versionFilter } from "@/lib/utils/list-version";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = listItemReorderSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid item order", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const list = await ListModel.findById(params.listId);
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canCommentOnList(list, user.id)) {
+      return NextResponse.json(
+        { error: "Not authorized to edit this list" },
+        { status: 403 }
+      );
+    }
+
+    // The new order has to name every current item exactly once
+    const itemsById = new Map(list.items.map(item => [item._id?.toString(), item]));
+    const { itemIds } = parsed.data;
+    const reorderedItems = itemIds.flatMap(id => {
+      const item = itemsById.get(id);
+      return item ? [item] : [];
+    });
+    if (
+      itemIds.length !== list.items.length ||
+      new Set(itemIds).size !== itemIds.length ||
+      reorderedItems.length !== itemIds.length
+    ) {
+      return NextResponse.json(
+        { error: "Item order does not match the items in this list" },
+        { status: 409 }
+      );
+    }
+
+    // Contributors can only move their own items around the others
+    const changeError = listItemChangeError(list, user.id, reorderedItems);
+    if (changeError) {
+      return NextResponse.json(
+        { error: changeError },
+        { status: 403 }
+      );
+    }
+
+    // Items added or removed since the list was read would be lost, so only
+    // write if the list is still at the version we checked against
+    const updatedList = await ListModel.findOneAndUpdate(
+      { _id: params.listId, ...versionFilter(list.version || 0) },
+      {
+        $set: {
+          items: reorderedItems,
+          editedAt: new Date()
+        },
+        $inc: { version: 1 }
+      },
+      { new: true }
+    );
+
+    if (!updatedList) {
+      return NextResponse.json(
+        { error: "This list was changed by someone else, please try again" },
+        { status: 409 }
+      );
+    }
+
+    await recordListRevision({
+      listId: params.listId,
+      previous: list,
+      current: updatedList,
+      editedBy: { clerkId: user.id, username: user.username }
+    });
+    await recordListActivity(
+      params.listId,
+      { clerkId: user.id, username: user.username },
+      describeListChanges(list, updatedList)
+    );
+
+    publishListChange(
+      params.listId,
+      updatedList,
+      'items.reordered',
+      { clerkId: user.id, username: user.username }
+    );
+
+    return NextResponse.json(
+      { itemIds, version: updatedList.version },
+      { headers: { ETag: listETag(updatedList.version) } }
+    );
+  } catch (error) {
+    console.error("Error reordering list items:", error);
+    return NextResponse.json(
+      { error: "Failed to reorder items" },
+      { status: 500 }
+    );
+  }
+}
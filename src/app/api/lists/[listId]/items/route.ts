@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { recordListRevision } from "@/lib/db/models-v2/list-revision";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { publishListChange } from "@/lib/realtime/list-channel";
+import { canAddListItems } from "@/lib/auth/permissions";
+import { listItemCreateSchema } from "@/lib/validations/api";
+import { isSection, itemFieldsField, itemRecipeField, serializeListItem } from "@/lib/utils/list-items";
+import { describeListChanges } from "@/lib/utils/list-activity";
+import { itemFieldsSchema } from "@/lib/utils/item-fields";
+import { listETag } from "@/lib/utils/list-version";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = listItemCreateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid item", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const list = await ListModel.findById(params.listId);
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canAddListItems(list, user.id)) {
+      return NextResponse.json(
+        { error: "Not authorized to add items to this list" },
+        { status: 403 }
+      );
+    }
+
+    // Which fields an item can have depends on the list's category
+    const values = itemFieldsSchema(list.category).safeParse(parsed.data.fields || {});
+    if (!values.success) {
+      return NextResponse.json(
+        { error: "Invalid item fields", details: values.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.recipe && list.category !== 'recipes') {
+      return NextResponse.json(
+        { error: "Only items on recipe lists can have a recipe" },
+        { status: 400 }
+      );
+    }
+
+    const { index, ...fields } = parsed.data;
+    const item = {
+      _id: new Types.ObjectId(),
+      ...fields,
+      completed: !isSection(fields) && (fields.completed || false),
+      childItems: isSection(fields) ? [] : fields.childItems || [],
+      fields: isSection(fields) ? undefined : itemFieldsField({ fields: values.data }).fields,
+      recipe: isSection(fields) ? undefined : itemRecipeField(fields).recipe,
+      createdBy: user.id
+    };
+
+    // Append by default, or insert at the requested position
+    const updatedList = await ListModel.findByIdAndUpdate(
+      params.listId,
+      {
+        $push: {
+          items: index !== undefined ? { $each: [item], $position: index } : item
+        },
+        $set: { editedAt: new Date() },
+        $inc: { version: 1 }
+      },
+      { new: true }
+    );
+
+    if (!updatedList) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordListRevision({
+      listId: params.listId,
+      previous: list,
+      current: updatedList,
+      editedBy: { clerkId: user.id, username: user.username }
+    });
+    await recordListActivity(
+      params.listId,
+      { clerkId: user.id, username: user.username },
+      describeListChanges(list, updatedList)
+    );
+
+    publishListChange(
+      params.listId,
+      updatedList,
+      'item.added',
+      { clerkId: user.id, username: user.username },
+      item._id.toString()
+    );
+
+    return NextResponse.json(
+      { item: serializeListItem(item), version: updatedList.version },
+      { status: 201, headers: { ETag: listETag(updatedList.version) } }
+    );
+  } catch (error) {
+    console.error("Error adding list item:", error);
+    return NextResponse.json(
+      { error: "Failed to add item" },
+      { status: 500 }
+    );
+  }
+}
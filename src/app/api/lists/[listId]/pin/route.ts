@@ -3,6 +3,7 @@ import { connectToMongoDB } from "@/lib/db/client";
 import { getListModel } from "@/lib/db/models-v2/list";
 import { getPinModel } from "@/lib/db/models-v2/pin";
 import { getUserModel } from "@/lib/db/models-v2/user";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
 import { AuthService } from "@/lib/services/auth.service";
 import { AuthServerService } from "@/lib/services/auth.server";
 
@@ -67,11 +68,17 @@ export async function POST(
           ownerUsername: owner.username
         }
       });
+      await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+        type: 'list.pinned'
+      }]);
 
       return NextResponse.json({ pinned: true });
     } else if (!pinned && existingPin) {
       // Remove pin
       await PinModel.findByIdAndDelete(existingPin._id);
+      await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+        type: 'list.unpinned'
+      }]);
 
       return NextResponse.json({ pinned: false });
     }
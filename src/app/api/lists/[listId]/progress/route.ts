@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel, type ListDocument } from "@/lib/db/models-v2/list";
+import { getListProgressModel } from "@/lib/db/models-v2/list-progress";
+import { hasListAccess } from "@/lib/auth/permissions";
+import { listProgressUpdateSchema } from "@/lib/validations/api";
+import { summarizeProgress } from "@/lib/utils/list-progress";
+import { isSection } from "@/lib/utils/list-items";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+// Unlisted lists can be opened by anyone with the link, so they can be tracked too
+const canTrackList = async (list: ListDocument, userId: string) =>
+  list.visibility === 'unlisted' || hasListAccess(list, userId);
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [ListModel, ListProgressModel] = await Promise.all([
+      getListModel(),
+      getListProgressModel()
+    ]);
+
+    const list = await ListModel.findById(params.listId);
+    if (!list || !(await canTrackList(list, user.id))) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    const progress = await ListProgressModel.findOne({
+      clerkId: user.id,
+      listId: list._id
+    }).lean();
+
+    const completedItemIds = progress?.completedItemIds || [];
+    return NextResponse.json({
+      completedItemIds,
+      progress: summarizeProgress(list.items, completedItemIds)
+    });
+  } catch (error) {
+    console.error("Error fetching list progress:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch progress" },
+      { status: 500 }
+    );
+  }
+}
+
+// Ticks an item off (or back on) for the current user only
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = listProgressUpdateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid progress update", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [ListModel, ListProgressModel] = await Promise.all([
+      getListModel(),
+      getListProgressModel()
+    ]);
+
+    const list = await ListModel.findById(params.listId);
+    if (!list || !(await canTrackList(list, user.id))) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    const { itemId, completed } = parsed.data;
+    if (!list.items.some(item => item._id?.toString() === itemId && !isSection(item))) {
+      return NextResponse.json(
+        { error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    const progress = await ListProgressModel.findOneAndUpdate(
+      { clerkId: user.id, listId: list._id },
+      completed
+        ? { $addToSet: { completedItemIds: itemId } }
+        : { $pull: { completedItemIds: itemId } },
+      { new: true, upsert: true }
+    ).lean();
+
+    const completedItemIds = progress?.completedItemIds || [];
+    return NextResponse.json({
+      completedItemIds,
+      progress: summarizeProgress(list.items, completedItemIds)
+    });
+  } catch (error) {
+    console.error("Error updating list progress:", error);
+    return NextResponse.json(
+      { error: "Failed to update progress" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel, type ListDocument } from "@/lib/db/models-v2/list";
+import { getListRankingModel } from "@/lib/db/models-v2/list-ranking";
+import { canEditList } from "@/lib/auth/permissions";
+import { listRankingAnswerSchema } from "@/lib/validations/api";
+import { isSection } from "@/lib/utils/list-items";
+import { maxRankingComparisons, nextRankingStep, type RankingComparison } from "@/lib/utils/list-ranking";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+// Looks up a list the user can rank, or the response to send instead
+async function findRankableList(listId: string, userId: string) {
+  const ListModel = await getListModel();
+  const list = await ListModel.findById(listId);
+  if (!list) {
+    return { error: NextResponse.json({ error: "List not found" }, { status: 404 }) };
+  }
+
+  // The finished order is written back to the list
+  if (!(await canEditList(list, userId))) {
+    return { error: NextResponse.json({ error: "Not authorized to edit this list" }, { status: 403 }) };
+  }
+
+  if (list.listType !== 'ordered') {
+    return { error: NextResponse.json({ error: "Only ordered lists can be ranked" }, { status: 400 }) };
+  }
+
+  return { list };
+}
+
+function rankingResponse(list: ListDocument, comparisons: RankingComparison[]) {
+  const items = list.items.map(item => ({ id: item._id.toString(), type: item.type }));
+  return NextResponse.json({
+    comparisons,
+    step: nextRankingStep(items, comparisons),
+    maxComparisons: maxRankingComparisons(items)
+  });
+}
+
+// The current user's ranking so far, with the next question to ask
+export async function GET(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const { list, error } = await findRankableList(params.listId, user.id);
+    if (error) return error;
+
+    const ListRankingModel = await getListRankingModel();
+    const ranking = await ListRankingModel.findOne({ clerkId: user.id, listId: list._id }).lean();
+
+    return rankingResponse(list, ranking?.comparisons || []);
+  } catch (error) {
+    console.error("Error fetching list ranking:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch ranking" },
+      { status: 500 }
+    );
+  }
+}
+
+// Records which of two items should rank higher
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = listRankingAnswerSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid answer", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const { list, error } = await findRankableList(params.listId, user.id);
+    if (error) return error;
+
+    const { winner, loser } = parsed.data;
+    const rankable = new Set(list.items.filter(item => !isSection(item)).map(item => item._id.toString()));
+    if (!rankable.has(winner) || !rankable.has(loser)) {
+      return NextResponse.json(
+        { error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    const ListRankingModel = await getListRankingModel();
+    const ranking = await ListRankingModel.findOneAndUpdate(
+      { clerkId: user.id, listId: list._id },
+      { $push: { comparisons: { winner, loser } } },
+      { new: true, upsert: true }
+    ).lean();
+
+    return rankingResponse(list, ranking?.comparisons || []);
+  } catch (error) {
+    console.error("Error updating list ranking:", error);
+    return NextResponse.json(
+      { error: "Failed to save answer" },
+      { status: 500 }
+    );
+  }
+}
+
+// Takes back the last answer with ?last=1, or otherwise starts over
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const { list, error } = await findRankableList(params.listId, user.id);
+    if (error) return error;
+
+    const ListRankingModel = await getListRankingModel();
+    if (req.nextUrl.searchParams.get('last') === '1') {
+      const ranking = await ListRankingModel.findOneAndUpdate(
+        { clerkId: user.id, listId: list._id },
+        { $pop: { comparisons: 1 } },
+        { new: true }
+      ).lean();
+      return rankingResponse(list, ranking?.comparisons || []);
+    }
+
+    await ListRankingModel.deleteOne({ clerkId: user.id, listId: list._id });
+    return rankingResponse(list, []);
+  } catch (error) {
+    console.error("Error resetting list ranking:", error);
+    return NextResponse.json(
+      { error: "Failed to reset ranking" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getListRevisionModel, recordListRevision } from "@/lib/db/models-v2/list-revision";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { describeListChanges } from "@/lib/utils/list-activity";
+import { publishListChange } from "@/lib/realtime/list-channel";
+import { canManageList } from "@/lib/auth/permissions";
+import { getEnhancedLists } from "@/lib/actions/lists";
+import { listConflictResponse } from "@/lib/api/list-conflict";
+import { getExpectedVersion, listETag, versionFilter } from "@/lib/utils/list-version";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+  revision: string;
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Restoring replaces the whole list, so it has to be based on the latest
+    // version
+    const expectedVersion = getExpectedVersion(req);
+    if (expectedVersion === null) {
+      return NextResponse.json(
+        { error: "An If-Match header is required" },
+        { status: 428 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [ListModel, ListRevisionModel] = await Promise.all([
+      getListModel(),
+      getListRevisionModel()
+    ]);
+
+    const list = await ListModel.findById(params.listId);
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    // Only owners and admins can roll a list back
+    if (!canManageList(list, user.id)) {
+      return NextResponse.json(
+        { error: "Not authorized to restore revisions" },
+        { status: 403 }
+      );
+    }
+
+    const revision = await ListRevisionModel.findOne({
+      listId: params.listId,
+      revision: Number(params.revision)
+    }).lean();
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: "Revision not found" },
+        { status: 404 }
+      );
+    }
+
+    // Snapshot items keep their ids, so progress and history stay attached
+    // to the same items after the restore
+    const { title, description, visibility, items } = revision.snapshot;
+
+    const updatedList = await ListModel.findOneAndUpdate(
+      { _id: params.listId, ...versionFilter(expectedVersion) },
+      {
+        $set: {
+          title,
+          description,
+          visibility,
+          items,
+          editedAt: new Date()
+        },
+        $inc: { version: 1 }
+      },
+      { new: true }
+    );
+
+    if (!updatedList) {
+      return listConflictResponse(params.listId);
+    }
+
+    await recordListRevision({
+      listId: params.listId,
+      previous: list,
+      current: updatedList,
+      editedBy: { clerkId: user.id, username: user.username },
+      restoredFrom: revision.revision
+    });
+    await recordListActivity(
+      params.listId,
+      { clerkId: user.id, username: user.username },
+      describeListChanges(list, updatedList)
+    );
+
+    publishListChange(
+      params.listId,
+      updatedList,
+      'list.restored',
+      { clerkId: user.id, username: user.username }
+    );
+
+    const { lists } = await getEnhancedLists({ _id: params.listId });
+
+    return NextResponse.json(
+      { list: lists[0] },
+      { headers: { ETag: listETag(updatedList.version) } }
+    );
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    return NextResponse.json(
+      { error: "Failed to restore revision" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getListRevisionModel } from "@/lib/db/models-v2/list-revision";
+import { isListMember } from "@/lib/auth/permissions";
+import { serializeListRevision } from "@/lib/utils";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+  revision: string;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [ListModel, ListRevisionModel] = await Promise.all([
+      getListModel(),
+      getListRevisionModel()
+    ]);
+
+    const list = await ListModel.findById(params.listId).lean();
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!isListMember(list, user.id)) {
+      return NextResponse.json(
+        { error: "Not authorized to view revisions" },
+        { status: 403 }
+      );
+    }
+
+    const revision = await ListRevisionModel.findOne({
+      listId: list._id,
+      revision: Number(params.revision)
+    }).lean();
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: "Revision not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ revision: serializeListRevision(revision) });
+  } catch (error) {
+    console.error("Error fetching revision:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revision" },
+      { status: 500 }
+    );
+  }
+}
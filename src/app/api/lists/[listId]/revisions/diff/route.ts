@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getListRevisionModel } from "@/lib/db/models-v2/list-revision";
+import { isListMember } from "@/lib/auth/permissions";
+import { serializeListRevision } from "@/lib/utils";
+import { diffListSnapshots } from "@/lib/utils/list-diff";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const from = Number(searchParams.get("from"));
+    const to = Number(searchParams.get("to"));
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      return NextResponse.json(
+        { error: "Both from and to revisions are required" },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [ListModel, ListRevisionModel] = await Promise.all([
+      getListModel(),
+      getListRevisionModel()
+    ]);
+
+    const list = await ListModel.findById(params.listId).lean();
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!isListMember(list, user.id)) {
+      return NextResponse.json(
+        { error: "Not authorized to view revisions" },
+        { status: 403 }
+      );
+    }
+
+    const revisions = await ListRevisionModel.find({
+      listId: list._id,
+      revision: { $in: [from, to] }
+    }).lean();
+
+    const fromRevision = revisions.find(r => r.revision === from);
+    const toRevision = revisions.find(r => r.revision === to);
+
+    if (!fromRevision || !toRevision) {
+      return NextResponse.json(
+        { error: "Revision not found" },
+        { status: 404 }
+      );
+    }
+
+    const diff = diffListSnapshots(
+      serializeListRevision(fromRevision).snapshot,
+      serializeListRevision(toRevision).snapshot,
+      { from, to }
+    );
+
+    return NextResponse.json({ diff });
+  } catch (error) {
+    console.error("Error comparing revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to compare revisions" },
+      { status: 500 }
+    );
+  }
+}
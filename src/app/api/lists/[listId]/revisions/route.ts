@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getListRevisionModel } from "@/lib/db/models-v2/list-revision";
+import { isListMember } from "@/lib/auth/permissions";
+import { serializeListRevisionSummary } from "@/lib/utils";
+import { listETag } from "@/lib/utils/list-version";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100);
+    const before = parseInt(searchParams.get("before") || "0");
+
+    await connectToMongoDB();
+    const [ListModel, ListRevisionModel] = await Promise.all([
+      getListModel(),
+      getListRevisionModel()
+    ]);
+
+    const list = await ListModel.findById(params.listId).lean();
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    // Only the owner and accepted collaborators can see the history
+    if (!isListMember(list, user.id)) {
+      return NextResponse.json(
+        { error: "Not authorized to view revisions" },
+        { status: 403 }
+      );
+    }
+
+    const revisions = await ListRevisionModel.find({
+      listId: list._id,
+      ...(before > 0 ? { revision: { $lt: before } } : {})
+    })
+      .sort({ revision: -1 })
+      .limit(limit + 1)
+      .lean();
+
+    const hasMore = revisions.length > limit;
+
+    // Restores are made against the version of the list the history was
+    // read at
+    return NextResponse.json(
+      {
+        revisions: revisions.slice(0, limit).map(serializeListRevisionSummary),
+        hasMore
+      },
+      { headers: { ETag: listETag(list.version) } }
+    );
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revisions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,32 @@
 import { NextResponse } from "next/server";
 import { connectToMongoDB } from "@/lib/db/client";
 import { getListModel, ListDocument, ListCollaborator } from "@/lib/db/models-v2/list";
+import { resolveListCategory } from "@/lib/db/models-v2/category";
+import { recordListRevision } from "@/lib/db/models-v2/list-revision";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { publishListChange } from "@/lib/realtime/list-channel";
+import { getExpectedVersion, listETag, versionFilter } from "@/lib/utils/list-version";
+import { isSection, itemFieldsField, itemRecipeField, itemTagField, itemTypeField, persistedItemId, savedItemCreatorField, serializeChildItems } from "@/lib/utils/list-items";
+import { describeListChanges } from "@/lib/utils/list-activity";
+import { fittingItemFields, itemFieldsSchema } from "@/lib/utils/item-fields";
+import { normalizeTags } from "@/lib/utils/list-tags";
 import { getEnhancedLists } from "@/lib/actions/lists";
+import { listItemsSaveSchema } from "@/lib/validations/api";
+import { listConflictResponse } from "@/lib/api/list-conflict";
+import { canCommentOnList, listItemChangeError } from "@/lib/auth/permissions";
 import { AuthServerService } from "@/lib/services/auth.server";
+import type { ItemFieldValues, ListChildItem, ListItemType } from "@/types/list";
 
 interface ListItem {
   id: string;
+  type?: ListItemType;
   title: string;
   comment?: string;
   completed?: boolean;
   checked?: boolean;
-  childItems?: Array<{
-    title: string;
-    tag?: string;
-  }>;
+  tag?: string;
+  childItems?: ListChildItem[];
+  fields?: ItemFieldValues;
 }
 
 // Helper function to check if user can edit the list
@@ -49,6 +62,39 @@ async function migrateListItemSchema(list: ListDocument) {
   }
 }
 
+// Whether a save changes anything about the list other than its items, which
+// only editors can do
+function changesListDetails(list: ListDocument, data: Record<string, unknown>) {
+  const { title, description, category, tags, visibility, listType } = data;
+  return (
+    (title !== undefined && title !== list.title) ||
+    (description !== undefined && (description || '') !== (list.description || '')) ||
+    (category !== undefined && category !== list.category) ||
+    (tags !== undefined && normalizeTags(tags).join() !== (list.tags || []).join()) ||
+    (visibility !== undefined && visibility !== list.visibility) ||
+    (listType !== undefined && listType !== list.listType)
+  );
+}
+
+// The editor doesn't send field values, so items that leave them out keep the
+// saved ones that fit the category being saved. Returns null if any values
+// that were sent are invalid.
+function resolveItemFields(items: ListItem[], list: ListDocument, category: string) {
+  const saved = new Map(list.items.map(item => [item._id?.toString(), item.fields]));
+  const schema = itemFieldsSchema(category);
+  const resolved: Array<ItemFieldValues | undefined> = [];
+  for (const item of items) {
+    if (item.fields === undefined) {
+      resolved.push(fittingItemFields(category, saved.get(item.id)));
+      continue;
+    }
+    const values = schema.safeParse(item.fields);
+    if (!values.success) return null;
+    resolved.push(values.data);
+  }
+  return resolved;
+}
+
 export async function GET(
   request: Request,
   { params }: { params: { listId: string } }
@@ -109,7 +155,10 @@ export async function GET(
       return new NextResponse("List not found", { status: 404 });
     }
 
-    return NextResponse.json({ list: lists[0] });
+    return NextResponse.json(
+      { list: lists[0] },
+      { headers: { ETag: listETag(lists[0].version) } }
+    );
   } catch (error) {
     console.error("Error fetching list:", error);
     return new NextResponse("Internal Server Error", { status: 500 });
@@ -128,7 +177,24 @@ export async function PUT(
   try {
     const { listId } = params;
     const data = await request.json();
-    const { title, description, category, visibility, items, listType } = data;
+    const { title, description, category, tags, visibility, items, listType } = data;
+
+    // Saves must say which version of the list they were based on
+    const expectedVersion = getExpectedVersion(request, data);
+    if (expectedVersion === null) {
+      return NextResponse.json(
+        { error: "An If-Match header or version field is required" },
+        { status: 428 }
+      );
+    }
+
+    const parsedItems = listItemsSaveSchema.safeParse(items);
+    if (!parsedItems.success) {
+      return NextResponse.json(
+        { error: "Invalid items", details: parsedItems.error.flatten() },
+        { status: 400 }
+      );
+    }
 
     await connectToMongoDB();
     const ListModel = await getListModel();
@@ -139,57 +205,96 @@ export async function PUT(
       return new NextResponse("List not found", { status: 404 });
     }
 
-    // Check if user can edit the list
+    // Check if user can edit the list. Contributors and commenters can save
+    // the items they're allowed to change but nothing else.
     const canEdit = await canEditList(list, user.id);
-    if (!canEdit) {
+    if (!canEdit && !canCommentOnList(list, user.id)) {
       return new NextResponse("Unauthorized", { status: 401 });
     }
+    if (!canEdit && changesListDetails(list, data)) {
+      return NextResponse.json({ error: "Only editors can change the list's details" }, { status: 403 });
+    }
+
+    const resolvedCategory = await resolveListCategory(category, list.owner.clerkId);
+    if (!resolvedCategory) {
+      return NextResponse.json({ error: "Unknown category" }, { status: 400 });
+    }
+
+    const itemFields = resolveItemFields(items, list, resolvedCategory.category);
+    if (!itemFields) {
+      return NextResponse.json({ error: "Invalid item fields" }, { status: 400 });
+    }
+    // Recipes are edited one item at a time, so full saves keep the saved ones.
+    // Items sent without a comment keep theirs too.
+    const savedItems = new Map(list.items.map(item => [item._id?.toString(), item]));
 
     // Process items before updating
     const processedItems = items.map((item: ListItem, index: number) => ({
-      id: item.id,
+      ...persistedItemId(item.id),
+      ...itemTypeField(item),
       title: item.title,
-      comment: item.comment,
-      completed: item.checked ?? item.completed ?? false,
+      comment: item.comment ?? savedItems.get(item.id)?.comment,
+      completed: !isSection(item) && (item.checked ?? item.completed ?? false),
       index: index, // Add index to preserve order
-      childItems: Array.isArray(item.childItems)
-        ? item.childItems.map((child, childIndex) => ({
-            title: child.title,
-            tag: child.tag || undefined,
-            index: childIndex // Add index to preserve child order
-          }))
-        : []
+      ...(!isSection(item) && itemTagField(item)),
+      childItems: isSection(item) ? [] : serializeChildItems(item.childItems),
+      ...(!isSection(item) && itemFieldsField({ fields: itemFields[index] })),
+      ...(!isSection(item) && itemRecipeField(savedItems.get(item.id) || {})),
+      ...savedItemCreatorField(savedItems.get(item.id), user.id)
     }));
 
-    // Update the list
-    const updatedList = await ListModel.findByIdAndUpdate(
-      listId,
+    const changeError = listItemChangeError(list, user.id, processedItems);
+    if (changeError) {
+      return NextResponse.json({ error: changeError }, { status: 403 });
+    }
+
+    // Update the list only if nobody saved since the client loaded it
+    const updatedList = await ListModel.findOneAndUpdate(
+      { _id: listId, ...versionFilter(expectedVersion) },
       {
         $set: {
           title,
           description,
-          category,
+          ...resolvedCategory,
+          ...(tags !== undefined && { tags: normalizeTags(tags) }),
           visibility,
           listType,
           items: processedItems,
           editedAt: new Date()
-        }
+        },
+        $inc: { version: 1 }
       },
       { new: true }
     );
 
     if (!updatedList) {
-      console.error('Failed to update list');
-      return new NextResponse("Failed to update list", { status: 500 });
+      return listConflictResponse(listId);
     }
 
+    await recordListRevision({
+      listId,
+      previous: list,
+      current: updatedList,
+      editedBy: { clerkId: user.id, username: user.username }
+    });
+    await recordListActivity(
+      listId,
+      { clerkId: user.id, username: user.username },
+      describeListChanges(list, updatedList)
+    );
+
+    publishListChange(listId, updatedList, 'list.saved', { clerkId: user.id, username: user.username });
+
     // Get enhanced list data
     const { lists } = await getEnhancedLists({ _id: listId });
     if (lists.length === 0) {
       return new NextResponse("List not found", { status: 404 });
     }
 
-    return NextResponse.json({ list: lists[0] });
+    return NextResponse.json(
+      { list: lists[0] },
+      { headers: { ETag: listETag(lists[0].version) } }
+    );
   } catch (error) {
     console.error("Error updating list:", error);
     if (error instanceof Error) {
@@ -224,8 +329,10 @@ export async function DELETE(
       return new NextResponse("Unauthorized", { status: 401 });
     }
 
-    // Delete the list
-    await ListModel.findByIdAndDelete(listId);
+    // Move the list to the trash. It can be restored until it's purged, so
+    // its pins and views are kept until then.
+    await ListModel.updateOne({ _id: listId }, { $set: { deletedAt: new Date() } });
+    await recordListActivity(listId, { clerkId: user.id, username: user.username }, [{ type: 'list.deleted' }]);
 
     return new NextResponse(null, { status: 204 });
   } catch (error) {
@@ -246,7 +353,24 @@ export async function PATCH(
   try {
     const { listId } = params;
     const body = await request.json();
-    const { title, description, category, visibility, items } = body;
+    const { title, description, category, tags, visibility, items } = body;
+
+    // Replacing items needs a version; metadata-only updates may omit it
+    const expectedVersion = getExpectedVersion(request, body);
+    if (items !== undefined && expectedVersion === null) {
+      return NextResponse.json(
+        { error: "An If-Match header or version field is required" },
+        { status: 428 }
+      );
+    }
+
+    const parsedItems = listItemsSaveSchema.optional().safeParse(items);
+    if (!parsedItems.success) {
+      return NextResponse.json(
+        { error: "Invalid items", details: parsedItems.error.flatten() },
+        { status: 400 }
+      );
+    }
 
     await connectToMongoDB();
     const ListModel = await getListModel();
@@ -257,41 +381,94 @@ export async function PATCH(
       return new NextResponse("List not found", { status: 404 });
     }
 
-    // Check if user can edit the list
+    // Check if user can edit the list. Contributors and commenters can save
+    // the items they're allowed to change but nothing else.
     const canEdit = await canEditList(list, user.id);
-    if (!canEdit) {
+    if (!canEdit && !canCommentOnList(list, user.id)) {
       return new NextResponse("Unauthorized", { status: 401 });
     }
+    if (!canEdit && changesListDetails(list, body)) {
+      return NextResponse.json({ error: "Only editors can change the list's details" }, { status: 403 });
+    }
 
     // Migrate the schema if needed
     await migrateListItemSchema(list);
 
     // Build update object with only provided fields
-    const updateData: Partial<Pick<ListDocument, 'title' | 'description' | 'category' | 'visibility' | 'items' | 'editedAt'>> = {
+    const updateData: Partial<Pick<ListDocument, 'title' | 'description' | 'category' | 'categoryInfo' | 'tags' | 'visibility' | 'items' | 'editedAt'>> = {
       editedAt: new Date()
     };
 
     if (title !== undefined) updateData.title = title;
     if (description !== undefined) updateData.description = description;
-    if (category !== undefined) updateData.category = category;
+    if (category !== undefined) {
+      const resolvedCategory = await resolveListCategory(category, list.owner.clerkId);
+      if (!resolvedCategory) {
+        return NextResponse.json({ error: "Unknown category" }, { status: 400 });
+      }
+      Object.assign(updateData, resolvedCategory);
+    }
+    if (tags !== undefined) updateData.tags = normalizeTags(tags);
     if (visibility !== undefined) updateData.visibility = visibility;
     if (items !== undefined) {
-      updateData.items = items.map((item: ListItem) => ({
-        id: item.id,
+      const itemFields = resolveItemFields(items, list, updateData.category || list.category);
+      if (!itemFields) {
+        return NextResponse.json({ error: "Invalid item fields" }, { status: 400 });
+      }
+      // Recipes are edited one item at a time, so full saves keep the saved ones.
+      // Items sent without a comment keep theirs too.
+      const savedItems = new Map(list.items.map(item => [item._id?.toString(), item]));
+
+      const nextItems = items.map((item: ListItem, index: number) => ({
+        ...persistedItemId(item.id),
+        ...itemTypeField(item),
         title: item.title,
-        comment: item.comment,
-        completed: item.completed || false,
-        childItems: Array.isArray(item.childItems)
-          ? item.childItems.map(child => ({
-              title: child.title,
-              tag: child.tag || undefined
-            }))
-          : []
+        comment: item.comment ?? savedItems.get(item.id)?.comment,
+        completed: !isSection(item) && (item.completed || false),
+        ...(!isSection(item) && itemTagField(item)),
+        childItems: isSection(item) ? [] : serializeChildItems(item.childItems),
+        ...(!isSection(item) && itemFieldsField({ fields: itemFields[index] })),
+        ...(!isSection(item) && itemRecipeField(savedItems.get(item.id) || {})),
+        ...savedItemCreatorField(savedItems.get(item.id), user.id)
       }));
+
+      const changeError = listItemChangeError(list, user.id, nextItems);
+      if (changeError) {
+        return NextResponse.json({ error: changeError }, { status: 403 });
+      }
+      updateData.items = nextItems;
     }
 
     // Update the list
-    await ListModel.findByIdAndUpdate(listId, { $set: updateData });
+    const updatedList = await ListModel.findOneAndUpdate(
+      {
+        _id: listId,
+        ...(expectedVersion !== null ? versionFilter(expectedVersion) : {})
+      },
+      { $set: updateData, $inc: { version: 1 } },
+      { new: true }
+    );
+
+    if (!updatedList) {
+      return listConflictResponse(listId);
+    }
+
+    // Only record a revision when a tracked field was part of the update
+    if (updatedList && [title, description, visibility, items].some(value => value !== undefined)) {
+      await recordListRevision({
+        listId,
+        previous: list,
+        current: updatedList,
+        editedBy: { clerkId: user.id, username: user.username }
+      });
+    }
+    await recordListActivity(
+      listId,
+      { clerkId: user.id, username: user.username },
+      describeListChanges(list, updatedList)
+    );
+
+    publishListChange(listId, updatedList, 'list.saved', { clerkId: user.id, username: user.username });
 
     // Get enhanced list data
     const { lists } = await getEnhancedLists({ _id: listId });
@@ -299,7 +476,10 @@ export async function PATCH(
       return new NextResponse("List not found", { status: 404 });
     }
 
-    return NextResponse.json({ list: lists[0] });
+    return NextResponse.json(
+      { list: lists[0] },
+      { headers: { ETag: listETag(lists[0].version) } }
+    );
   } catch (error) {
     console.error("Error updating list:", error);
     return new NextResponse("Internal Server Error", { status: 500 });
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getUserModel } from "@/lib/db/models-v2/user";
+import { hasListAccess } from "@/lib/auth/permissions";
+import { getEnhancedLists } from "@/lib/actions/lists";
+import { shoppingListCreateSchema } from "@/lib/validations/api";
+import { itemRecipeField } from "@/lib/utils/list-items";
+import { buildShoppingList, formatIngredient, recipeServings, scaleIngredients } from "@/lib/utils/recipe";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+// Merges the ingredients of the chosen recipes into a new to-do list owned by
+// the current user
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = shoppingListCreateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid shopping list", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [ListModel, UserModel] = await Promise.all([
+      getListModel(),
+      getUserModel()
+    ]);
+
+    // Anyone who can open the list can shop from it, including by link
+    const list = await ListModel.findById(params.listId);
+    if (!list || (list.visibility !== 'unlisted' && !(await hasListAccess(list, user.id)))) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (list.category !== 'recipes') {
+      return NextResponse.json(
+        { error: "Shopping lists can only be built from recipe lists" },
+        { status: 400 }
+      );
+    }
+
+    const recipes = [];
+    for (const { itemId, servings } of parsed.data.recipes) {
+      const item = list.items.find(item => item._id?.toString() === itemId);
+      const recipe = item && itemRecipeField(item).recipe;
+      if (!item || !recipe) {
+        return NextResponse.json(
+          { error: "Recipe not found" },
+          { status: 404 }
+        );
+      }
+
+      // Servings only scale recipes that say how many they make
+      const baseServings = recipeServings(item.fields);
+      const factor = servings && baseServings ? servings / baseServings : 1;
+      recipes.push({ title: item.title, ingredients: scaleIngredients(recipe.ingredients, factor) });
+    }
+
+    const entries = buildShoppingList(recipes);
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: "The chosen recipes have no ingredients" },
+        { status: 422 }
+      );
+    }
+
+    const mongoUser = await UserModel.findOne({ clerkId: user.id });
+    if (!mongoUser) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const shoppingList = await ListModel.create({
+      title: parsed.data.title || `Shopping list: ${recipes.map(recipe => recipe.title).join(', ')}`.slice(0, 100),
+      category: 'things-to-do',
+      visibility: 'private',
+      listType: 'bullet',
+      items: entries.map(entry => ({
+        _id: new Types.ObjectId(),
+        title: formatIngredient(entry),
+        comment: `For ${entry.recipes.join(', ')}`,
+        completed: false,
+        childItems: []
+      })),
+      owner: {
+        clerkId: user.id,
+        userId: mongoUser._id,
+        username: mongoUser.username || "",
+        joinedAt: new Date()
+      },
+      collaborators: [],
+      stats: {
+        viewCount: 0,
+        pinCount: 0,
+        copyCount: 0
+      }
+    });
+
+    const { lists } = await getEnhancedLists({ _id: shoppingList._id });
+
+    return NextResponse.json(
+      { list: lists[0] },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error building shopping list:", error);
+    return NextResponse.json(
+      { error: "Failed to build shopping list" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel, type ListCollaborator } from "@/lib/db/models-v2/list";
+import { getUserModel } from "@/lib/db/models-v2/user";
+import { publishListChange } from "@/lib/realtime/list-channel";
+import { listActivitySubject, recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { ownershipTransferResponseSchema } from "@/lib/validations/api";
+import { AuthServerService } from "@/lib/services/auth.server";
+import { isBuiltInCategory } from "@/types/list";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+// The collaborator a list was offered to accepts or declines it
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = ownershipTransferResponseSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid action", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+    const UserModel = await getUserModel();
+
+    const list = await ListModel.findById(params.listId).lean();
+    const transfer = list?.ownershipTransfer;
+    if (!list || !transfer || transfer.clerkId !== user.id) {
+      return NextResponse.json(
+        { error: "No pending transfer found" },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.data.action === 'decline') {
+      await ListModel.updateOne(
+        { _id: params.listId, 'ownershipTransfer.clerkId': user.id },
+        { $set: { ownershipTransfer: null } }
+      );
+      await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+        type: 'ownership.declined'
+      }]);
+      return NextResponse.json({ status: "declined" });
+    }
+
+    const isAcceptedCollaborator = list.collaborators.some(c =>
+      c.clerkId === user.id && c.status === 'accepted'
+    );
+    const newOwner = await UserModel.findOne({ clerkId: user.id }).lean();
+    if (!isAcceptedCollaborator || !newOwner) {
+      return NextResponse.json(
+        { error: "Only an accepted collaborator can take over this list" },
+        { status: 403 }
+      );
+    }
+
+    // The new owner leaves the collaborators and the old owner joins them as
+    // an admin if they chose to stay
+    const previousOwner = list.owner;
+    const now = new Date();
+    const collaborators: ListCollaborator[] = [
+      ...list.collaborators.filter(c => c.clerkId !== user.id && c.clerkId !== previousOwner.clerkId),
+      ...(transfer.keepAsAdmin ? [{
+        userId: previousOwner.userId,
+        clerkId: previousOwner.clerkId,
+        role: 'admin' as const,
+        status: 'accepted' as const,
+        invitedAt: now,
+        acceptedAt: now
+      }] : [])
+    ];
+
+    // User-defined categories belong to their owner, so the list falls back
+    // to "other" rather than keep one the new owner doesn't have
+    const keepCategory = isBuiltInCategory(list.category);
+
+    // Only goes through if the offer wasn't withdrawn in the meantime. The
+    // version changes so open editors pick up the new owner and roles.
+    const updatedList = await ListModel.findOneAndUpdate(
+      {
+        _id: params.listId,
+        'owner.clerkId': previousOwner.clerkId,
+        'ownershipTransfer.clerkId': user.id
+      },
+      {
+        $set: {
+          owner: { userId: newOwner._id, clerkId: user.id },
+          collaborators,
+          ownershipTransfer: null,
+          ...(!keepCategory && { category: 'other', categoryInfo: null })
+        },
+        $inc: { version: 1 }
+      },
+      { new: true }
+    );
+
+    if (!updatedList) {
+      return NextResponse.json(
+        { error: "This transfer is no longer available" },
+        { status: 409 }
+      );
+    }
+
+    await Promise.all([
+      UserModel.updateOne({ clerkId: previousOwner.clerkId }, { $inc: { listCount: -1 } }),
+      UserModel.updateOne({ clerkId: user.id }, { $inc: { listCount: 1 } })
+    ]);
+
+    await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+      type: 'ownership.transferred',
+      subject: await listActivitySubject({ clerkId: previousOwner.clerkId })
+    }]);
+
+    publishListChange(
+      params.listId,
+      updatedList,
+      'list.transferred',
+      { clerkId: user.id, username: user.username }
+    );
+
+    return NextResponse.json({ status: "accepted" });
+  } catch (error) {
+    console.error("Error responding to ownership transfer:", error);
+    return NextResponse.json(
+      { error: "Failed to respond to transfer" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { listActivitySubject, recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { ownershipTransferSchema } from "@/lib/validations/api";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+// The owner offers the list to one of its accepted collaborators. Nothing
+// changes until that collaborator accepts.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = ownershipTransferSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid transfer", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const list = await ListModel.findById(params.listId).lean();
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (list.owner.clerkId !== user.id) {
+      return NextResponse.json(
+        { error: "Only the owner can transfer a list" },
+        { status: 403 }
+      );
+    }
+
+    const { clerkId, keepAsAdmin } = parsed.data;
+    const isAcceptedCollaborator = list.collaborators.some(c =>
+      c.clerkId === clerkId && c.status === 'accepted' && !c._isEmailInvite
+    );
+    if (!isAcceptedCollaborator) {
+      return NextResponse.json(
+        { error: "Lists can only be transferred to an accepted collaborator" },
+        { status: 400 }
+      );
+    }
+
+    const ownershipTransfer = { clerkId, keepAsAdmin, requestedAt: new Date() };
+    await ListModel.updateOne(
+      { _id: params.listId },
+      { $set: { ownershipTransfer } }
+    );
+
+    await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+      type: 'ownership.offered',
+      subject: await listActivitySubject({ clerkId })
+    }]);
+
+    return NextResponse.json({
+      ownershipTransfer: {
+        ...ownershipTransfer,
+        requestedAt: ownershipTransfer.requestedAt.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error("Error requesting ownership transfer:", error);
+    return NextResponse.json(
+      { error: "Failed to request transfer" },
+      { status: 500 }
+    );
+  }
+}
+
+// The owner withdraws a transfer that hasn't been accepted yet
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const result = await ListModel.updateOne(
+      { _id: params.listId, 'owner.clerkId': user.id },
+      { $set: { ownershipTransfer: null } }
+    );
+
+    if (result.matchedCount === 0) {
+      return NextResponse.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (result.modifiedCount > 0) {
+      await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{
+        type: 'ownership.withdrawn'
+      }]);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error cancelling ownership transfer:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel transfer" },
+      { status: 500 }
+    );
+  }
+}
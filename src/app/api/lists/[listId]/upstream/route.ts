@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel, type ListDocument } from "@/lib/db/models-v2/list";
+import { recordListRevision } from "@/lib/db/models-v2/list-revision";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { publishListChange } from "@/lib/realtime/list-channel";
+import { canManageList, isListMember } from "@/lib/auth/permissions";
+import { upstreamPullSchema } from "@/lib/validations/api";
+import { persistedItemId, serializeListItem } from "@/lib/utils/list-items";
+import { describeListChanges } from "@/lib/utils/list-activity";
+import { advanceUpstreamBase, applyUpstreamChanges, diffUpstream } from "@/lib/utils/list-upstream";
+import { getExpectedVersion, listETag, versionFilter } from "@/lib/utils/list-version";
+import { AuthServerService } from "@/lib/services/auth.server";
+import type { ListItem } from "@/types/list";
+import type { UpstreamDiff } from "@/types/list-upstream";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+type LoadResult =
+  | { error: NextResponse }
+  | { list: ListDocument; source: ListDocument };
+
+// Loads the copy and its original, checking the user may pull into the copy
+async function loadCopyAndSource(listId: string, userId: string): Promise<LoadResult> {
+  await connectToMongoDB();
+  const ListModel = await getListModel();
+
+  const list = await ListModel.findById(listId);
+  if (!list) {
+    return { error: NextResponse.json({ error: "List not found" }, { status: 404 }) };
+  }
+
+  if (!canManageList(list, userId)) {
+    return { error: NextResponse.json({ error: "Not authorized to update this list" }, { status: 403 }) };
+  }
+
+  if (!list.forkedFrom) {
+    return { error: NextResponse.json({ error: "This list is not a copy of another list" }, { status: 400 }) };
+  }
+
+  const source = await ListModel.findById(list.forkedFrom.listId);
+  if (!source || (source.visibility === 'private' && !isListMember(source, userId))) {
+    return { error: NextResponse.json({ error: "The original list is no longer available" }, { status: 404 }) };
+  }
+
+  return { list, source };
+}
+
+const toItems = (items: ListDocument['items'] | undefined) =>
+  (items || []).map(serializeListItem);
+
+const toStoredItems = (items: ListItem[]) =>
+  items.map(({ id, ...item }) => ({ ...persistedItemId(id), ...item }));
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const loaded = await loadCopyAndSource(params.listId, user.id);
+    if ('error' in loaded) return loaded.error;
+    const { list, source } = loaded;
+
+    const changes = diffUpstream(
+      toItems(list.forkedFrom?.baseItems),
+      toItems(source.items),
+      toItems(list.items)
+    );
+
+    const diff: UpstreamDiff = {
+      source: {
+        listId: String(source._id),
+        title: source.title,
+        ownerUsername: list.forkedFrom?.owner.username,
+        version: source.version || 0
+      },
+      changes
+    };
+
+    return NextResponse.json(diff, {
+      headers: { ETag: listETag(list.version) }
+    });
+  } catch (error) {
+    console.error("Error comparing list with original:", error);
+    return NextResponse.json(
+      { error: "Failed to compare with the original list" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const parsed = upstreamPullSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid changes", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // The changes were picked from a diff of a specific version of the copy
+    const expectedVersion = getExpectedVersion(req, body);
+    if (expectedVersion === null) {
+      return NextResponse.json(
+        { error: "An If-Match header or version field is required" },
+        { status: 428 }
+      );
+    }
+
+    const loaded = await loadCopyAndSource(params.listId, user.id);
+    if ('error' in loaded) return loaded.error;
+    const { list, source } = loaded;
+
+    const base = toItems(list.forkedFrom?.baseItems);
+    const upstream = toItems(source.items);
+    const changes = diffUpstream(base, upstream, toItems(list.items));
+
+    const pulledKeys = new Set(parsed.data.keys);
+    const pulled = changes.filter(change => pulledKeys.has(change.key));
+    if (pulled.length !== pulledKeys.size) {
+      return NextResponse.json(
+        { error: "Some of these changes are no longer pending, please reload" },
+        { status: 409 }
+      );
+    }
+
+    const ListModel = await getListModel();
+    const updatedList = await ListModel.findOneAndUpdate(
+      { _id: params.listId, ...versionFilter(expectedVersion) },
+      {
+        $set: {
+          items: toStoredItems(applyUpstreamChanges(toItems(list.items), upstream, pulled)),
+          'forkedFrom.baseItems': toStoredItems(advanceUpstreamBase(base, upstream, changes, pulledKeys)),
+          'forkedFrom.version': source.version || 0,
+          'forkedFrom.pulledAt': new Date(),
+          editedAt: new Date()
+        },
+        $inc: { version: 1 }
+      },
+      { new: true }
+    );
+
+    if (!updatedList) {
+      return NextResponse.json(
+        { error: "This list was changed by someone else, please try again" },
+        { status: 409 }
+      );
+    }
+
+    await recordListRevision({
+      listId: params.listId,
+      previous: list,
+      current: updatedList,
+      editedBy: { clerkId: user.id, username: user.username }
+    });
+    await recordListActivity(
+      params.listId,
+      { clerkId: user.id, username: user.username },
+      describeListChanges(list, updatedList)
+    );
+
+    publishListChange(
+      params.listId,
+      updatedList,
+      'list.pulled',
+      { clerkId: user.id, username: user.username }
+    );
+
+    return NextResponse.json(
+      { items: updatedList.items.map(serializeListItem), version: updatedList.version },
+      { headers: { ETag: listETag(updatedList.version) } }
+    );
+  } catch (error) {
+    console.error("Error pulling changes from original list:", error);
+    return NextResponse.json(
+      { error: "Failed to pull changes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getUserModel } from "@/lib/db/models-v2/user";
+import { resolveListCategory } from "@/lib/db/models-v2/category";
+import { recordListRevision } from "@/lib/db/models-v2/list-revision";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { publishListChange } from "@/lib/realtime/list-channel";
+import { canAddListItems } from "@/lib/auth/permissions";
+import { getEnhancedLists } from "@/lib/actions/lists";
+import { listImportSchema } from "@/lib/validations/api";
+import { parseListImport, skipDuplicateItems } from "@/lib/utils/list-import";
+import { isSection } from "@/lib/utils/list-items";
+import { describeListChanges } from "@/lib/utils/list-activity";
+import { listETag, versionFilter } from "@/lib/utils/list-version";
+import { normalizeTags } from "@/lib/utils/list-tags";
+import { AuthServerService } from "@/lib/services/auth.server";
+import type { ListImportPreview } from "@/types/list-import";
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = listImportSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid import", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { text, format, fileName, preview, listId, ...listFields } = parsed.data;
+    const result = parseListImport(text, format, fileName);
+
+    if (listId) {
+      return appendToList(listId, result, preview, user);
+    }
+
+    if (result.category) {
+      // Service exports log the same film or book more than once, e.g. rewatches
+      const { items, skipped } = skipDuplicateItems(result.items);
+      Object.assign(result, { items, skipped });
+    }
+
+    if (preview) {
+      return NextResponse.json({ preview: result });
+    }
+
+    if (result.items.length === 0) {
+      return NextResponse.json(
+        { error: "No items were found to import" },
+        { status: 422 }
+      );
+    }
+
+    await connectToMongoDB();
+    const [ListModel, UserModel] = await Promise.all([
+      getListModel(),
+      getUserModel()
+    ]);
+
+    const mongoUser = await UserModel.findOne({ clerkId: user.id });
+    if (!mongoUser) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const resolvedCategory = await resolveListCategory(result.category || listFields.category, user.id);
+    if (!resolvedCategory) {
+      return NextResponse.json(
+        { error: "Unknown category" },
+        { status: 400 }
+      );
+    }
+
+    const list = await ListModel.create({
+      title: listFields.title || result.title || "Imported list",
+      description: listFields.description ?? result.description,
+      ...resolvedCategory,
+      tags: normalizeTags(listFields.tags),
+      visibility: listFields.visibility,
+      listType: listFields.listType,
+      items: result.items,
+      owner: {
+        clerkId: user.id,
+        userId: mongoUser._id,
+        username: mongoUser.username || "",
+        joinedAt: new Date()
+      },
+      collaborators: [],
+      stats: {
+        viewCount: 0,
+        pinCount: 0,
+        copyCount: 0
+      }
+    });
+
+    const { lists } = await getEnhancedLists({ _id: list._id });
+
+    return NextResponse.json(
+      { list: lists[0], warnings: result.warnings },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error importing list:", error);
+    return NextResponse.json(
+      { error: "Failed to import list" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Adds imported items to the end of an existing list, skipping titles the
+ * list already has so the same export can be imported again.
+ */
+async function appendToList(
+  listId: string,
+  result: ListImportPreview,
+  preview: boolean,
+  user: { id: string; username?: string | null }
+) {
+  await connectToMongoDB();
+  const ListModel = await getListModel();
+
+  const list = await ListModel.findById(listId);
+  if (!list) {
+    return NextResponse.json(
+      { error: "List not found" },
+      { status: 404 }
+    );
+  }
+
+  if (!canAddListItems(list, user.id)) {
+    return NextResponse.json(
+      { error: "Not authorized to add items to this list" },
+      { status: 403 }
+    );
+  }
+
+  if (result.category && list.category !== result.category) {
+    return NextResponse.json(
+      { error: `This export can only be added to a ${result.category} list` },
+      { status: 400 }
+    );
+  }
+
+  const { items, skipped } = skipDuplicateItems(
+    result.items,
+    list.items.filter(item => !isSection(item)).map(item => item.title)
+  );
+
+  if (preview) {
+    return NextResponse.json({ preview: { ...result, items, skipped } });
+  }
+
+  if (items.every(isSection)) {
+    return NextResponse.json(
+      { error: "Everything in this import is already on the list" },
+      { status: 422 }
+    );
+  }
+
+  const updatedList = await ListModel.findOneAndUpdate(
+    { _id: listId, ...versionFilter(list.version || 0) },
+    {
+      $push: { items: { $each: items.map(item => ({ ...item, createdBy: user.id })) } },
+      $set: { editedAt: new Date() },
+      $inc: { version: 1 }
+    },
+    { new: true }
+  );
+
+  if (!updatedList) {
+    return NextResponse.json(
+      { error: "This list was changed by someone else, please try again" },
+      { status: 409 }
+    );
+  }
+
+  await recordListRevision({
+    listId,
+    previous: list,
+    current: updatedList,
+    editedBy: { clerkId: user.id, username: user.username }
+  });
+  await recordListActivity(
+    listId,
+    { clerkId: user.id, username: user.username },
+    describeListChanges(list, updatedList)
+  );
+
+  publishListChange(
+    listId,
+    updatedList,
+    'items.imported',
+    { clerkId: user.id, username: user.username }
+  );
+
+  const { lists } = await getEnhancedLists({ _id: updatedList._id });
+
+  return NextResponse.json(
+    { list: lists[0], added: items.length, skipped, warnings: result.warnings },
+    { headers: { ETag: listETag(updatedList.version) } }
+  );
+}
@@ -3,6 +3,10 @@ import connectToMongoDB from "@/lib/db/mongodb";
 import { getListModel, ListDocument } from "@/lib/db/models-v2/list";
 import { getEnhancedLists } from "@/lib/actions/lists";
 import { getUserModel } from "@/lib/db/models-v2/user";
+import { resolveListCategory } from "@/lib/db/models-v2/category";
+import { normalizeTags } from "@/lib/utils/list-tags";
+import { isSection, itemTagField, itemTypeField, serializeChildItems } from "@/lib/utils/list-items";
+import type { ListChildItem, ListItemType } from "@/types/list";
 import { auth } from "@clerk/nextjs/server";
 
 export const dynamic = 'force-dynamic';
@@ -19,13 +23,12 @@ interface ListQuery {
 
 interface ListItem {
   id: string;
+  type?: ListItemType;
   title: string;
   comment?: string;
   completed?: boolean;
-  childItems?: Array<{
-    title: string;
-    tag?: string;
-  }>;
+  tag?: string;
+  childItems?: ListChildItem[];
 }
 
 export async function GET(req: NextRequest) {
@@ -68,7 +71,7 @@ export async function POST(req: NextRequest) {
 
   try {
     const body = await req.json();
-    const { title, description, category, visibility, items, listType = 'ordered' } = body;
+    const { title, description, category, tags, visibility, items, listType = 'ordered' } = body;
 
     if (!title || !category || !visibility) {
       return NextResponse.json(
@@ -92,18 +95,23 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const resolvedCategory = await resolveListCategory(category, userId);
+    if (!resolvedCategory) {
+      return NextResponse.json(
+        { error: "Unknown category" },
+        { status: 400 }
+      );
+    }
+
     // Process items before creating document
     const processedItems = (items as ListItem[]).map(item => {
       const processedItem = {
         id: item.id,
+        ...itemTypeField(item),
         title: item.title,
-        completed: item.completed || false,
-        childItems: Array.isArray(item.childItems)
-          ? item.childItems.map(child => ({
-              title: child.title,
-              tag: child.tag || undefined
-            }))
-          : []
+        completed: !isSection(item) && (item.completed || false),
+        ...(!isSection(item) && itemTagField(item)),
+        childItems: isSection(item) ? [] : serializeChildItems(item.childItems)
       };
       return processedItem;
     });
@@ -112,7 +120,8 @@ export async function POST(req: NextRequest) {
     const listData = {
       title,
       description,
-      category,
+      ...resolvedCategory,
+      tags: normalizeTags(tags),
       visibility,
       listType,
       items: processedItems,
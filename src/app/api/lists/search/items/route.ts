@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FilterQuery } from "mongoose";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getPinModel } from "@/lib/db/models-v2/pin";
+import { getEnhancedLists } from "@/lib/actions/lists";
+import {
+  ITEM_SEARCH_PATHS,
+  MAX_ITEM_MATCHES_PER_LIST,
+  MIN_ITEM_SEARCH_LENGTH,
+  escapeRegex,
+  matchListItems
+} from "@/lib/utils/item-search";
+import { AuthServerService } from "@/lib/services/auth.server";
+import type { ItemSearchResult } from "@/types/list";
+import type { MongoListDocument } from "@/types/mongo";
+
+export const dynamic = 'force-dynamic';
+
+// Most lists one search returns
+const MAX_RESULT_LISTS = 50;
+
+// Searches the items of lists the user owns, collaborates on or has pinned
+export async function GET(req: NextRequest) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const query = (req.nextUrl.searchParams.get("q") || "").trim();
+    if (query.length < MIN_ITEM_SEARCH_LENGTH) {
+      return NextResponse.json({ results: [], hasMore: false });
+    }
+
+    await connectToMongoDB();
+    const PinModel = await getPinModel();
+    const pins = await PinModel.find({ clerkId: user.id }).select('listId').lean();
+
+    const pattern = { $regex: escapeRegex(query), $options: 'i' };
+    const filter: FilterQuery<MongoListDocument> = {
+      $and: [
+        {
+          $or: [
+            { 'owner.clerkId': user.id },
+            { collaborators: { $elemMatch: { clerkId: user.id, status: 'accepted' } } },
+            // Pinned lists that have since been made private are left out
+            {
+              _id: { $in: pins.map(pin => pin.listId) },
+              visibility: { $in: ['public', 'unlisted'] }
+            }
+          ]
+        },
+        { $or: ITEM_SEARCH_PATHS.map(path => ({ [path]: pattern })) }
+      ]
+    };
+
+    // Pick the most recently edited matches before loading them, since
+    // getEnhancedLists always takes the newest lists first
+    const ListModel = await getListModel();
+    const matching = await ListModel.find(filter)
+      .sort({ editedAt: -1, updatedAt: -1 })
+      .limit(MAX_RESULT_LISTS + 1)
+      .select('_id')
+      .lean();
+    const hasMore = matching.length > MAX_RESULT_LISTS;
+    const listIds = matching.slice(0, MAX_RESULT_LISTS).map(list => String(list._id));
+
+    const { lists } = await getEnhancedLists({ _id: { $in: listIds } }, {}, undefined, MAX_RESULT_LISTS);
+    const recentFirst = [...lists].sort((a, b) => listIds.indexOf(a.id) - listIds.indexOf(b.id));
+
+    const results: ItemSearchResult[] = recentFirst.flatMap(list => {
+      const matches = matchListItems(list.items || [], query);
+      if (matches.length === 0) return [];
+      return [{
+        list: {
+          id: list.id,
+          title: list.title,
+          category: list.category,
+          categoryInfo: list.categoryInfo,
+          visibility: list.visibility,
+          ownerUsername: list.owner.username
+        },
+        matches: matches.slice(0, MAX_ITEM_MATCHES_PER_LIST)
+      }];
+    });
+
+    return NextResponse.json({ results, hasMore });
+  } catch (error) {
+    console.error("Error searching list items:", error);
+    return NextResponse.json(
+      { error: "Failed to search items" },
+      { status: 500 }
+    );
+  }
+}
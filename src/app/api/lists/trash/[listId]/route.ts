@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { resolveListCategory } from "@/lib/db/models-v2/category";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { purgeLists } from "@/lib/actions/list-trash";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  listId: string;
+}
+
+// Only the owner's own trashed lists can be restored or purged
+const trashedListFilter = (listId: string, clerkId: string) => ({
+  _id: listId,
+  'owner.clerkId': clerkId,
+  deletedAt: { $ne: null }
+});
+
+// Restores a list from the trash
+export async function POST(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const trashed = await ListModel.findOne(trashedListFilter(params.listId, user.id))
+      .select({ category: 1 })
+      .lean();
+    if (!trashed) {
+      return NextResponse.json(
+        { error: "List not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    // Category changes skip trashed lists, so pick up a rename now and move
+    // the list to "other" if its category was deleted meanwhile
+    const resolvedCategory = await resolveListCategory(trashed.category, user.id)
+      || { category: 'other', categoryInfo: null };
+
+    const restored = await ListModel.findOneAndUpdate(
+      trashedListFilter(params.listId, user.id),
+      { $set: { deletedAt: null, ...resolvedCategory } },
+      { new: true }
+    );
+    if (!restored) {
+      return NextResponse.json(
+        { error: "List not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    await recordListActivity(params.listId, { clerkId: user.id, username: user.username }, [{ type: 'list.restored' }]);
+
+    return NextResponse.json({ id: params.listId });
+  } catch (error) {
+    console.error("Error restoring list:", error);
+    return NextResponse.json(
+      { error: "Failed to restore list" },
+      { status: 500 }
+    );
+  }
+}
+
+// Permanently deletes a list from the trash without waiting for the purge
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: RouteParams }
+) {
+  try {
+    const user = await AuthServerService.getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const list = await ListModel.exists(trashedListFilter(params.listId, user.id));
+    if (!list) {
+      return NextResponse.json(
+        { error: "List not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    await purgeLists([params.listId]);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Error purging list:", error);
+    return NextResponse.json(
+      { error: "Failed to delete list" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,7 @@ import { getUserModel } from '@/lib/db/models-v2/user';
 import { getUserCacheModel } from '@/lib/db/models-v2/user-cache';
 import { getListModel } from '@/lib/db/models-v2/list';
 import { getFollowModel } from '@/lib/db/models-v2/follow';
+import { recordListActivity } from '@/lib/db/models-v2/list-activity';
 import { withAuth } from '@/lib/auth/api-utils';
 
 // Webhook endpoint is public but verified using Svix
@@ -87,29 +88,47 @@ export const POST = withAuth(async (req: NextRequest) => {
         lastSynced: new Date()
       });
 
-      // Convert any pending email invites to accepted collaborations
+      // Attach pending email invites to the new account. They stay pending,
+      // so they show up in the user's collaborations to accept or decline.
       if (primaryEmail) {
-        await ListModel.updateMany(
-          { 
-            'collaborators': {
-              $elemMatch: {
-                email: primaryEmail,
-                status: 'pending',
-                _isEmailInvite: true
+        const pendingInvite = {
+          email: primaryEmail,
+          status: 'pending',
+          _isEmailInvite: true
+        };
+        const invitedLists = await ListModel.find(
+          { 'collaborators': { $elemMatch: pendingInvite } },
+          { _id: 1 }
+        ).lean();
+
+        if (invitedLists.length > 0) {
+          await ListModel.updateMany(
+            { _id: { $in: invitedLists.map(list => list._id) } },
+            {
+              $set: {
+                'collaborators.$[invite].clerkId': id,
+                'collaborators.$[invite].userId': newUser._id,
+                'collaborators.$[invite].username': username || '',
+                'collaborators.$[invite]._isEmailInvite': false
               }
+            },
+            {
+              arrayFilters: [{
+                'invite.email': primaryEmail,
+                'invite.status': 'pending',
+                'invite._isEmailInvite': true
+              }]
             }
-          },
-          {
-            $set: {
-              'collaborators.$.status': 'accepted',
-              'collaborators.$.clerkId': id,
-              'collaborators.$.userId': newUser._id,
-              'collaborators.$.username': username || '',
-              'collaborators.$.acceptedAt': new Date(),
-              'collaborators.$._isEmailInvite': false
-            }
-          }
-        );
+          );
+
+          // Let the owners see who claimed their invites
+          await Promise.all(invitedLists.map(list =>
+            recordListActivity(String(list._id), { clerkId: id, username }, [{
+              type: 'collaborator.claimed',
+              subject: { email: primaryEmail }
+            }])
+          ));
+        }
       }
 
       return new NextResponse('Success', { status: 200 });
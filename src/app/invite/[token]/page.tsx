@@ -0,0 +1,98 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { MailOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { AcceptInviteButton } from "@/components/lists/accept-invite-button";
+import { getListInvite, type ListInviteDetails, type ListInviteStatus } from "@/lib/actions/list-invites";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+interface PageProps {
+  params: {
+    token: string;
+  };
+}
+
+const UNUSABLE: Partial<Record<ListInviteStatus, { title: string; message: string }>> = {
+  invalid: {
+    title: "Invite not found",
+    message: "This invite link isn't valid. Check that you copied all of it."
+  },
+  expired: {
+    title: "Invite expired",
+    message: "This invite link has expired. Ask the list owner to send a new one."
+  },
+  used: {
+    title: "Invite already used",
+    message: "Each invite link works once, and this one has been used. Ask the list owner for a new one."
+  },
+  revoked: {
+    title: "Invite withdrawn",
+    message: "This invite was withdrawn. Ask the list owner if you should still have access."
+  }
+};
+
+export default async function InvitePage({ params }: PageProps) {
+  const token = decodeURIComponent(params.token);
+  const user = await AuthServerService.getCurrentUser();
+  const invite: ListInviteDetails = await getListInvite(token, user?.id).catch(error => {
+    console.error("Error loading invite:", error);
+    return { status: 'invalid' };
+  });
+  const unusable = UNUSABLE[invite.status];
+  const returnUrl = encodeURIComponent(`/invite/${params.token}`);
+
+  return (
+    <div className="container flex items-center justify-center min-h-[calc(100vh-4rem)]">
+      <Card className="w-full max-w-md p-6 space-y-4 text-center">
+        <div className="flex justify-center">
+          <MailOpen className="h-12 w-12 text-muted-foreground" />
+        </div>
+        {unusable ? (
+          <>
+            <h1 className="text-2xl font-semibold tracking-tight">{unusable.title}</h1>
+            <p className="text-muted-foreground">{unusable.message}</p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-semibold tracking-tight">
+              {invite.status === 'member' ? "You're already in" : "You're invited"}
+            </h1>
+            <p className="text-muted-foreground">
+              {invite.status === 'member'
+                ? `You already have access to "${invite.listTitle}".`
+                : `${invite.inviterName || "Someone"} invited you to collaborate on "${invite.listTitle}" as ${invite.role === 'admin' ? 'an' : 'a'} ${invite.role}.`}
+            </p>
+            {invite.status === 'valid' && invite.expiresAt && (
+              <p className="text-sm text-muted-foreground">
+                This invite works once and expires on {format(new Date(invite.expiresAt), 'MMMM d, yyyy')}.
+              </p>
+            )}
+          </>
+        )}
+        <div className="flex justify-center gap-2">
+          {invite.status === 'member' ? (
+            <Button asChild>
+              <Link href={`/lists/${invite.listId}`}>Open list</Link>
+            </Button>
+          ) : invite.status === 'valid' && user ? (
+            <AcceptInviteButton token={token} />
+          ) : invite.status === 'valid' ? (
+            <>
+              <Button asChild>
+                <Link href={`/sign-in?returnUrl=${returnUrl}`}>Sign in to accept</Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href={`/sign-up?returnUrl=${returnUrl}`}>Create account</Link>
+              </Button>
+            </>
+          ) : (
+            <Button asChild>
+              <Link href="/">Go home</Link>
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { auth } from "@clerk/nextjs/server";
+import { notFound } from "next/navigation";
+import { SubLayout } from "@/components/layout/sub-layout";
+import { ListGrid } from "@/components/lists/list-grid";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getEnhancedLists } from "@/lib/actions/lists";
+
+interface PageProps {
+  params: {
+    listId: string;
+  };
+}
+
+export default async function ListForksPage({ params }: PageProps) {
+  try {
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const list = await ListModel.findById(params.listId)
+      .select('title visibility owner.clerkId collaborators')
+      .lean();
+    if (!list) {
+      notFound();
+    }
+
+    // Forks of a private list are only visible to the people who can see it
+    const { userId } = await auth();
+    if (list.visibility === 'private') {
+      const hasAccess = userId && (
+        list.owner.clerkId === userId ||
+        list.collaborators?.some(c => c.clerkId === userId && c.status === 'accepted')
+      );
+      if (!hasAccess) {
+        notFound();
+      }
+    }
+
+    const { lists, lastViewedMap } = await getEnhancedLists({
+      'forkedFrom.listId': list._id,
+      visibility: 'public'
+    });
+
+    return (
+      <SubLayout title={`Forks of ${list.title}`}>
+        <div className="px-4 md:px-6 lg:px-8 pt-4 pb-20 sm:pb-8">
+          <div className="max-w-7xl mx-auto space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {lists.length === 0
+                ? 'No public forks yet. Private copies are not listed here.'
+                : `${lists.length} public ${lists.length === 1 ? 'fork' : 'forks'}`}
+            </p>
+            {lists.length > 0 && (
+              <ListGrid lists={lists} lastViewedMap={lastViewedMap} />
+            )}
+          </div>
+        </div>
+      </SubLayout>
+    );
+  } catch (error) {
+    console.error("Error in ListForksPage:", error);
+    notFound();
+  }
+}
@@ -2,6 +2,11 @@
 
 import { useState, useEffect } from "react";
 import { ListView } from "@/components/lists/list-view";
+import { ListRevisionHistory } from "@/components/lists/list-revision-history";
+import { ListActivityTimeline } from "@/components/lists/list-activity-timeline";
+import { ListUpstreamChanges } from "@/components/lists/list-upstream-changes";
+import { ListImportDialog } from "@/components/lists/list-import-dialog";
+import { OwnershipTransferBanner } from "@/components/lists/ownership-transfer-banner";
 import { ListViewNav } from "@/components/layout/nav/list-view-nav";
 import { ErrorBoundaryWrapper } from "@/components/error-boundary-wrapper";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -12,6 +17,7 @@ import { ListLayout } from "@/components/layout/list-layout";
 import { useProtectedFetch } from "@/hooks/use-protected-fetch";
 import { useAuthGuard } from "@/hooks/use-auth-guard";
 import { useAuthService } from "@/lib/services/auth.service";
+import { useListEvents } from "@/hooks/use-list-events";
 import { useRouter } from "next/navigation";
 
 interface ListPageContentProps {
@@ -20,7 +26,10 @@ interface ListPageContentProps {
   isPinned: boolean;
   isFollowing: boolean;
   _isCollaborator: boolean;
+  // The viewer's own checkmarks, for lists they can't edit
+  completedItemIds?: string[];
   returnPath?: string;
+  highlightItemId?: string;
   isLoading?: boolean;
   error?: string;
 }
@@ -31,18 +40,35 @@ export function ListPageContent({
   isPinned: initialIsPinned,
   isFollowing: initialIsFollowing,
   _isCollaborator: initialIsCollaborator,
+  completedItemIds,
   returnPath,
+  highlightItemId,
   isLoading: initialIsLoading,
   error: initialError
 }: ListPageContentProps) {
   const router = useRouter();
   const [showCollaborators, setShowCollaborators] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showActivity, setShowActivity] = useState(false);
+  const [showUpstream, setShowUpstream] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [isPinned, setIsPinned] = useState(initialIsPinned);
   const [isFollowing, _setIsFollowing] = useState(initialIsFollowing);
   const [isCollaborator, _setIsCollaborator] = useState(initialIsCollaborator);
   const { fetchWithAuth } = useProtectedFetch();
   const { isSignedIn: _isSignedIn } = useAuthGuard({ protected: false }); // Don't force auth
-  const { user: _user } = useAuthService();
+  const { user } = useAuthService();
+  const canRestoreRevisions = isOwner || (!!user && list.collaborators?.some(
+    c => c.clerkId === user.id && c.status === 'accepted' && c.role === 'admin'
+  )) || false;
+  const canEditItems = isOwner || (!!user && list.collaborators?.some(
+    c => c.clerkId === user.id && c.status === 'accepted' && ['admin', 'editor'].includes(c.role)
+  )) || false;
+
+  // Pick up changes collaborators make while the list is open
+  useListEvents(isOwner || isCollaborator ? list.id : undefined, {
+    onChange: () => router.refresh()
+  });
 
   // Update local pin state when initial value changes
   useEffect(() => {
@@ -110,23 +136,62 @@ export function ListPageContent({
           isCollaborator={isCollaborator}
           showCollaborators={showCollaborators}
           onCollaboratorsClick={() => setShowCollaborators(!showCollaborators)}
+          onHistoryClick={() => setShowHistory(true)}
+          onActivityClick={() => setShowActivity(true)}
+          onImportClick={canEditItems ? () => setShowImport(true) : undefined}
           collaborators={list.collaborators}
         />
         <div className="flex-1 container px-4 sm:px-6 lg:px-8 py-4 sm:py-6 md:py-8 overflow-y-auto">
           <ErrorBoundaryWrapper>
+            {!!user && list.ownershipTransfer?.clerkId === user.id && (
+              <OwnershipTransferBanner listId={list.id} ownerUsername={list.owner.username} />
+            )}
             <ListView
               list={list}
               isOwner={isOwner}
               isPinned={isPinned}
               isFollowing={isFollowing}
               _isCollaborator={isCollaborator}
+              canEdit={canEditItems}
+              completedItemIds={completedItemIds}
               showCollaborators={showCollaborators}
               onCollaboratorsClick={() => setShowCollaborators(!showCollaborators)}
               onPinChange={handlePinChange}
+              onPullUpstreamClick={canRestoreRevisions && list.forkedFrom ? () => setShowUpstream(true) : undefined}
+              highlightItemId={highlightItemId}
             />
           </ErrorBoundaryWrapper>
         </div>
       </div>
+      {(isOwner || isCollaborator) && (
+        <ListRevisionHistory
+          listId={list.id}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          canRestore={canRestoreRevisions}
+        />
+      )}
+      {(isOwner || isCollaborator) && (
+        <ListActivityTimeline
+          listId={list.id}
+          open={showActivity}
+          onOpenChange={setShowActivity}
+        />
+      )}
+      {canEditItems && (
+        <ListImportDialog
+          listId={list.id}
+          open={showImport}
+          onOpenChange={setShowImport}
+        />
+      )}
+      {canRestoreRevisions && list.forkedFrom && (
+        <ListUpstreamChanges
+          listId={list.id}
+          open={showUpstream}
+          onOpenChange={setShowUpstream}
+        />
+      )}
     </ListLayout>
   );
 } 
\ No newline at end of file
@@ -5,12 +5,14 @@ import { getFollowModel } from "@/lib/db/models-v2/follow";
 import { getUserModel } from "@/lib/db/models-v2/user";
 import { getPinModel } from "@/lib/db/models-v2/pin";
 import { getListViewModel } from "@/lib/db/models-v2/list-view";
+import { getListProgressModel } from "@/lib/db/models-v2/list-progress";
 import { connectToMongoDB } from "@/lib/db/client";
 import { notFound } from "next/navigation";
 import type { EnhancedList, ListCategory } from "@/types/list";
 import { ListPageContent } from "./list-page-content";
 import { Metadata } from "next";
-import { wrapUrlsInAnchors } from "@/lib/utils";
+import { serializeForkSource, wrapUrlsInAnchors } from "@/lib/utils";
+import { itemFieldsField, itemRecipeField, itemTagField, itemTypeField, serializeChildItems } from "@/lib/utils/list-items";
 
 interface PageProps {
   params: {
@@ -18,6 +20,8 @@ interface PageProps {
   };
   searchParams: {
     from?: string;
+    // An item to scroll to, e.g. from a search result
+    item?: string;
   };
 }
 
@@ -87,7 +91,7 @@ export default async function ListPage({ params, searchParams }: PageProps) {
     // Connect to MongoDB
     await connectToMongoDB();
     const ListModel = await getListModel();
-    const _UserModel = await getUserModel();
+    const UserModel = await getUserModel();
     const FollowModel = await getFollowModel();
     const PinModel = await getPinModel();
     const ListViewModel = await getListViewModel();
@@ -161,23 +165,49 @@ export default async function ListPage({ params, searchParams }: PageProps) {
       }
     }
 
+    // Link back to the list this one was copied from, if the viewer can still see it
+    let forkedFrom = serializeForkSource(list.forkedFrom);
+    if (forkedFrom && list.forkedFrom) {
+      const [source, sourceOwner] = await Promise.all([
+        ListModel.findById(list.forkedFrom.listId)
+          .select('visibility owner.clerkId collaborators')
+          .lean(),
+        UserModel.findOne({ clerkId: list.forkedFrom.owner.clerkId })
+          .select('username')
+          .lean()
+      ]);
+      const canSeeSource = !!source && (
+        source.visibility !== 'private' ||
+        source.owner.clerkId === userId ||
+        !!source.collaborators?.some(c => c.clerkId === userId && c.status === 'accepted')
+      );
+      forkedFrom = {
+        ...forkedFrom,
+        ownerUsername: sourceOwner?.username || forkedFrom.ownerUsername,
+        available: canSeeSource
+      };
+    }
+
     // Enhance list with owner data
     const enhancedList: EnhancedList = {
       id: list._id.toString(),
       title: list.title,
       description: list.description,
       category: list.category as ListCategory,
+      categoryInfo: list.categoryInfo || undefined,
+      tags: list.tags || [],
       visibility: list.visibility,
       listType: list.listType || 'bullet',
       items: list.items?.map(item => ({
-        id: Math.random().toString(36).slice(2),
+        id: item._id?.toString() || Math.random().toString(36).slice(2),
+        ...itemTypeField(item),
         title: wrapUrlsInAnchors(item.title),
         comment: item.comment ? wrapUrlsInAnchors(item.comment) : undefined,
         completed: item.completed || false,
-        childItems: item.childItems?.map(prop => ({
-          tag: prop.tag,
-          title: prop.title
-        }))
+        ...itemTagField(item),
+        childItems: serializeChildItems(item.childItems),
+        ...itemFieldsField(item),
+        ...itemRecipeField(item)
       })) || [],
       stats: {
         viewCount: list.stats.viewCount + (!isOwner ? 1 : 0), // Add 1 to reflect the current view
@@ -194,6 +224,15 @@ export default async function ListPage({ params, searchParams }: PageProps) {
         invitedAt: c.invitedAt.toISOString(),
         acceptedAt: c.acceptedAt?.toISOString()
       })),
+      forkedFrom,
+      ...(list.ownershipTransfer && (isOwner || list.ownershipTransfer.clerkId === userId) && {
+        ownershipTransfer: {
+          clerkId: list.ownershipTransfer.clerkId,
+          keepAsAdmin: list.ownershipTransfer.keepAsAdmin,
+          requestedAt: list.ownershipTransfer.requestedAt.toISOString()
+        }
+      }),
+      version: list.version || 0,
       createdAt: list.createdAt.toISOString(),
       updatedAt: list.updatedAt.toISOString(),
       editedAt: list.editedAt?.toISOString(),
@@ -217,6 +256,7 @@ export default async function ListPage({ params, searchParams }: PageProps) {
           isFollowing={false}
           _isCollaborator={false}
           returnPath={searchParams.from || '/lists'}
+          highlightItemId={searchParams.item}
         />
       );
     }
@@ -233,6 +273,20 @@ export default async function ListPage({ params, searchParams }: PageProps) {
       clerkId: userId
     }).lean();
 
+    // People who can't edit the list keep their own checkmarks instead
+    const canEditItems = isOwner || !!list.collaborators?.some(
+      c => c.clerkId === userId && c.status === 'accepted' && ['admin', 'editor'].includes(c.role)
+    );
+    let completedItemIds: string[] | undefined;
+    if (!canEditItems) {
+      const ListProgressModel = await getListProgressModel();
+      const progress = await ListProgressModel.findOne({
+        clerkId: userId,
+        listId: list._id
+      }).lean();
+      completedItemIds = progress?.completedItemIds || [];
+    }
+
     // Get return path from query params or default to lists
     const returnPath = searchParams.from || '/lists';
 
@@ -243,7 +297,9 @@ export default async function ListPage({ params, searchParams }: PageProps) {
         isPinned={!!pinDoc}
         isFollowing={!!followStatus}
         _isCollaborator={isCollaborator}
+        completedItemIds={completedItemIds}
         returnPath={returnPath}
+        highlightItemId={searchParams.item}
       />
     );
   } catch (error) {
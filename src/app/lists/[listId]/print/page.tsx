@@ -0,0 +1,102 @@
+import { notFound } from "next/navigation";
+import { format } from "date-fns";
+import { auth } from "@clerk/nextjs/server";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getUserModel } from "@/lib/db/models-v2/user";
+import { hasListAccess } from "@/lib/auth/permissions";
+import { categoryLabel } from "@/lib/utils/category";
+import { isSection } from "@/lib/utils/list-items";
+import { PrintToolbar } from "./print-toolbar";
+import type { ListChildItem } from "@/types/list";
+
+interface PageProps {
+  params: {
+    listId: string;
+  };
+}
+
+function PrintChildItems({ childItems, className }: { childItems?: ListChildItem[]; className?: string }) {
+  if (!childItems || childItems.length === 0) return null;
+
+  return (
+    <ul className={`list-disc pl-4 text-sm ${className || ''}`}>
+      {childItems.map((child, index) => (
+        <li key={index}>
+          {child.title}
+          {child.tag && <span className="text-gray-500"> ({child.tag})</span>}
+          <PrintChildItems childItems={child.childItems} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// A plain, paper-friendly rendering of a list
+export default async function PrintListPage({ params }: PageProps) {
+  try {
+    await connectToMongoDB();
+    const [ListModel, UserModel] = await Promise.all([
+      getListModel(),
+      getUserModel()
+    ]);
+
+    const { userId } = await auth();
+    const list = await ListModel.findById(params.listId);
+    if (!list || !(await hasListAccess(list, userId))) {
+      notFound();
+    }
+
+    const owner = await UserModel.findOne({ clerkId: list.owner.clerkId })
+      .select('username')
+      .lean();
+    const ListTag = list.listType === 'bullet' ? 'ul' : 'ol';
+
+    return (
+      <div className="mx-auto max-w-2xl px-6 py-8 text-black bg-white min-h-screen print:p-0 print:max-w-none">
+        <PrintToolbar listId={params.listId} />
+
+        <header className="mb-6 space-y-2">
+          <h1 className="text-3xl font-bold">{list.title}</h1>
+          {list.description && (
+            <p className="whitespace-pre-wrap text-gray-700">{list.description}</p>
+          )}
+          <p className="text-sm text-gray-500">
+            {[
+              categoryLabel(list.category, list.categoryInfo),
+              ...(list.tags || []).map(tag => `#${tag}`),
+              owner?.username && `by @${owner.username}`,
+              format(list.editedAt || list.updatedAt, 'd MMM yyyy')
+            ].filter(Boolean).join(' · ')}
+          </p>
+        </header>
+
+        <ListTag className={list.listType === 'bullet' ? 'space-y-3' : 'list-decimal space-y-3 pl-6'}>
+          {(list.items || []).map(item => isSection(item) ? (
+            // Displayed as a block so ordered lists don't number it
+            <li key={item._id?.toString()} className="block break-after-avoid pt-3 text-lg font-semibold">
+              {item.title}
+              {item.comment && (
+                <p className="whitespace-pre-wrap text-sm font-normal text-gray-600">{item.comment}</p>
+              )}
+            </li>
+          ) : (
+            <li key={item._id?.toString()} className="break-inside-avoid">
+              <div className="flex items-start gap-2">
+                <span aria-hidden className="font-mono">{item.completed ? '☑' : '☐'}</span>
+                <span className={item.completed ? 'line-through text-gray-500' : ''}>{item.title}</span>
+              </div>
+              {item.comment && (
+                <p className="ml-6 whitespace-pre-wrap text-sm text-gray-600">{item.comment}</p>
+              )}
+              <PrintChildItems childItems={item.childItems} className="ml-6 mt-1" />
+            </li>
+          ))}
+        </ListTag>
+      </div>
+    );
+  } catch (error) {
+    console.error("Error in PrintListPage:", error);
+    notFound();
+  }
+}
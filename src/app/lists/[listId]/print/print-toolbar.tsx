@@ -0,0 +1,22 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+export function PrintToolbar({ listId }: { listId: string }) {
+  return (
+    <div className="flex items-center justify-between border-b pb-4 mb-8 print:hidden">
+      <Button variant="ghost" size="sm" asChild>
+        <Link href={`/lists/${listId}`}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to list
+        </Link>
+      </Button>
+      <Button size="sm" onClick={() => window.print()}>
+        <Printer className="mr-2 h-4 w-4" />
+        Print
+      </Button>
+    </div>
+  );
+}
@@ -2,15 +2,18 @@ import { MainLayout } from "@/components/layout/main-layout";
 import { ListGrid } from "@/components/lists/list-grid";
 import { ListTabs } from "@/components/layout/nav/list-tabs";
 import { getEnhancedLists } from "@/lib/actions/lists";
+import { getBrowseCategories } from "@/lib/actions/categories";
 import { CreateListFAB } from "@/components/layout/FABs/create-list-fab";
 import { SessionRedirect } from "@/components/home/session-redirect";
 import { FilterQuery } from "mongoose";
 import type { MongoListDocument } from "@/types/mongo";
 import type { ListCategory } from "@/types/list";
+import { normalizeTag } from "@/lib/utils/list-tags";
 
 interface SearchParams {
   q?: string;
   category?: ListCategory;
+  tag?: string;
   sort?: string;
 }
 
@@ -25,16 +28,20 @@ export default async function HomePage({ searchParams }: PageProps) {
     ...(searchParams.q ? {
       $text: { $search: searchParams.q }
     } : {}),
-    ...(searchParams.category ? { category: searchParams.category } : {})
+    ...(searchParams.category ? { category: searchParams.category } : {}),
+    ...(searchParams.tag ? { tags: normalizeTag(searchParams.tag) } : {})
   };
 
   // Get enhanced lists with owner data and last viewed timestamps
-  const { lists: unsortedLists, lastViewedMap } = await getEnhancedLists(filter, {
-    ...(searchParams.q ? {
-      score: { $meta: 'textScore' },
-      sort: { score: { $meta: 'textScore' } }
-    } : {})
-  });
+  const [{ lists: unsortedLists, lastViewedMap }, customCategories] = await Promise.all([
+    getEnhancedLists(filter, {
+      ...(searchParams.q ? {
+        score: { $meta: 'textScore' },
+        sort: { score: { $meta: 'textScore' } }
+      } : {})
+    }),
+    getBrowseCategories()
+  ]);
 
   // Only apply manual sort if no search query (text search already sorts by relevance)
   const sortedLists = searchParams.q ? unsortedLists : [...unsortedLists].sort((a, b) => {
@@ -61,6 +68,8 @@ export default async function HomePage({ searchParams }: PageProps) {
               lists={sortedLists}
               searchParams={searchParams}
               lastViewedMap={lastViewedMap}
+              customCategories={customCategories}
+              filterByTags
               showSearch
             />
           </div>
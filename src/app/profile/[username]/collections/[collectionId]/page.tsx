@@ -0,0 +1,40 @@
+import { notFound } from "next/navigation";
+import { SubLayout } from "@/components/layout/sub-layout";
+import { CollectionContent } from "@/components/collections/collection-content";
+import { getCollection } from "@/lib/actions/collections";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+interface PageProps {
+  params: {
+    username: string;
+    collectionId: string;
+  };
+}
+
+export default async function CollectionPage({ params }: PageProps) {
+  const username = decodeURIComponent(params.username).replace(/^@/, '').toLowerCase();
+  const currentUser = await AuthServerService.getCurrentUser();
+
+  const result = await getCollection(params.collectionId, currentUser?.id).catch(error => {
+    console.error("Error loading collection:", error);
+    return null;
+  });
+
+  if (!result || result.collection.owner.username.toLowerCase() !== username) {
+    notFound();
+  }
+
+  return (
+    <SubLayout title="Collection" hideBottomNav>
+      <div className="px-4 md:px-6 lg:px-8 pt-4 pb-20 sm:pb-8">
+        <div className="max-w-7xl mx-auto">
+          <CollectionContent
+            collection={result.collection}
+            lists={result.lists}
+            isOwner={currentUser?.id === result.collection.owner.clerkId}
+          />
+        </div>
+      </div>
+    </SubLayout>
+  );
+}
@@ -0,0 +1,45 @@
+import { notFound } from "next/navigation";
+import { SubLayout } from "@/components/layout/sub-layout";
+import { CollectionList } from "@/components/collections/collection-list";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getUserModel } from "@/lib/db/models-v2/user";
+import { getUserCollections } from "@/lib/actions/collections";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+interface PageProps {
+  params: {
+    username: string;
+  };
+}
+
+export default async function UserCollectionsPage({ params }: PageProps) {
+  // Remove @ if present and decode the username
+  const username = decodeURIComponent(params.username).replace(/^@/, '');
+
+  await connectToMongoDB();
+  const UserModel = await getUserModel();
+  const mongoUser = await UserModel.findOne({ username: username.toLowerCase() }).lean();
+  if (!mongoUser) {
+    notFound();
+  }
+
+  const currentUser = await AuthServerService.getCurrentUser();
+  const isOwner = currentUser?.id === mongoUser.clerkId;
+  const collections = await getUserCollections(mongoUser.clerkId, currentUser?.id);
+
+  return (
+    <SubLayout title="Collections" hideBottomNav>
+      <div className="px-4 md:px-6 lg:px-8 pt-4 pb-20 sm:pb-8">
+        <div className="max-w-4xl mx-auto">
+          {collections.length === 0 && !isOwner ? (
+            <div className="text-center py-8 text-muted-foreground">
+              @{username} has no public collections
+            </div>
+          ) : (
+            <CollectionList collections={collections} username={username} isOwner={isOwner} />
+          )}
+        </div>
+      </div>
+    </SubLayout>
+  );
+}
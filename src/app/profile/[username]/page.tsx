@@ -1,6 +1,7 @@
 import { SubLayout, type SubLayoutProps } from "@/components/layout/sub-layout";
 import { UserProfile } from "@/components/users/user-profile";
 import { ListGrid } from "@/components/lists/list-grid";
+import { CollectionList } from "@/components/collections/collection-list";
 import { getFollowModel } from "@/lib/db/models-v2/follow";
 import { connectToMongoDB } from "@/lib/db/client";
 import { serializeUser } from "@/lib/utils";
@@ -9,7 +10,9 @@ import type { MongoUserDocument } from "@/types/mongo";
 import { getUserModel } from "@/lib/db/models-v2/user";
 import { getUserProfileModel } from "@/lib/db/models-v2/user-profile";
 import { getEnhancedLists } from "@/lib/actions/lists";
+import { getUserCollections } from "@/lib/actions/collections";
 import type { ListCategory } from "@/types/list";
+import { normalizeTag } from "@/lib/utils/list-tags";
 import { AuthService } from "@/lib/services/auth.service";
 import { AuthServerService } from "@/lib/services/auth.server";
 import { FilterQuery } from "mongoose";
@@ -22,6 +25,7 @@ interface PageProps {
   searchParams: {
     q?: string;
     category?: ListCategory;
+    tag?: string;
     sort?: string;
   };
 }
@@ -65,11 +69,13 @@ export default async function UserPage({ params, searchParams }: PageProps) {
     const filter: FilterQuery<MongoListDocument> = {
       'owner.clerkId': profileUser.id,
       ...(currentUserId === profileUser.id ? {} : { visibility: 'public' }),
-      ...(searchParams.category ? { category: searchParams.category } : {})
+      ...(searchParams.category ? { category: searchParams.category } : {}),
+      ...(searchParams.tag ? { tags: normalizeTag(searchParams.tag) } : {})
     };
 
     // Get enhanced lists with owner data and last viewed timestamps
     const { lists, lastViewedMap } = await getEnhancedLists(filter);
+    const collections = await getUserCollections(profileUser.id, currentUserId);
 
     // Get follow counts
     const [followerCount, followingCount] = await Promise.all([
@@ -132,6 +138,12 @@ export default async function UserPage({ params, searchParams }: PageProps) {
             showLocation={true}
             showStats={true}
           />
+
+          <CollectionList
+            collections={collections}
+            username={profileUser.username || username}
+            isOwner={isOwnProfile}
+          />
           
           <div className="space-y-4">
             <ListGrid 
@@ -139,6 +151,7 @@ export default async function UserPage({ params, searchParams }: PageProps) {
               searchParams={searchParams}
               showPrivacyBadge
               lastViewedMap={lastViewedMap}
+              filterByTags
             />
           </div>
         </div>
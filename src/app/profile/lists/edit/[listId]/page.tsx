@@ -38,10 +38,13 @@ export default async function EditListPage({ params, searchParams }: PageProps)
       title: list.title,
       description: list.description,
       category: list.category,
+      tags: list.tags || [],
       visibility: list.visibility as 'public' | 'private' | 'unlisted',
       listType: list.listType || 'ordered',
+      version: list.version,
       items: list.items || [],
       owner: {
+        clerkId: list.owner.clerkId,
         username: list.owner.username
       }
     };
@@ -0,0 +1,32 @@
+import { redirect } from "next/navigation";
+import { ProtectedPageWrapper } from "@/components/auth/protected-page-wrapper";
+import { ItemSearchContent } from "@/components/lists/item-search-content";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+interface PageProps {
+  searchParams: {
+    q?: string;
+  };
+}
+
+export default async function ItemSearchPage({ searchParams }: PageProps) {
+  const user = await AuthServerService.getCurrentUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  return (
+    <ProtectedPageWrapper
+      initialUser={{
+        id: user.id,
+        username: user.username || null,
+        fullName: user.fullName || null,
+        imageUrl: user.imageUrl || "",
+      }}
+      layoutType="main"
+      title="Search items"
+    >
+      <ItemSearchContent initialQuery={searchParams.q} />
+    </ProtectedPageWrapper>
+  );
+}
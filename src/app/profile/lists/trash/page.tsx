@@ -0,0 +1,38 @@
+import { redirect } from "next/navigation";
+import { getTrashedLists } from "@/lib/actions/lists";
+import { ProtectedPageWrapper } from "@/components/auth/protected-page-wrapper";
+import { TrashedListsContent } from "@/components/lists/trashed-lists-content";
+import { AuthServerService } from "@/lib/services/auth.server";
+
+export default async function TrashedListsPage() {
+  const user = await AuthServerService.getCurrentUser();
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  try {
+    const lists = await getTrashedLists(user.id);
+
+    return (
+      <ProtectedPageWrapper
+        initialUser={{
+          id: user.id,
+          username: user.username || null,
+          fullName: user.fullName || null,
+          imageUrl: user.imageUrl || "",
+        }}
+        layoutType="main"
+        title="Trash"
+      >
+        <TrashedListsContent lists={lists} />
+      </ProtectedPageWrapper>
+    );
+  } catch (error) {
+    console.error('Error loading trash page:', error);
+    return (
+      <div className="p-4">
+        <p className="text-red-500">Error loading trash. Please try again later.</p>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { notFound } from "next/navigation";
+import { FilterQuery } from "mongoose";
+import { SubLayout } from "@/components/layout/sub-layout";
+import { ListGrid } from "@/components/lists/list-grid";
+import { getEnhancedLists } from "@/lib/actions/lists";
+import { getBrowseCategories } from "@/lib/actions/categories";
+import { normalizeTag } from "@/lib/utils/list-tags";
+import type { MongoListDocument } from "@/types/mongo";
+import type { ListCategory } from "@/types/list";
+
+interface PageProps {
+  params: {
+    tag: string;
+  };
+  searchParams: {
+    category?: ListCategory;
+    sort?: string;
+  };
+}
+
+export default async function TagPage({ params, searchParams }: PageProps) {
+  const tag = normalizeTag(decodeURIComponent(params.tag));
+  if (!tag) {
+    notFound();
+  }
+
+  // Public lists with this tag, across every category
+  const filter: FilterQuery<MongoListDocument> = {
+    visibility: 'public',
+    tags: tag,
+    ...(searchParams.category ? { category: searchParams.category } : {})
+  };
+
+  const [{ lists: unsortedLists, lastViewedMap }, customCategories] = await Promise.all([
+    getEnhancedLists(filter),
+    getBrowseCategories()
+  ]);
+
+  const lists = [...unsortedLists].sort((a, b) => {
+    switch (searchParams.sort) {
+      case 'views':
+        return (b.stats.viewCount || 0) - (a.stats.viewCount || 0);
+      case 'pins':
+        return (b.stats.pinCount || 0) - (a.stats.pinCount || 0);
+      case 'oldest':
+        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+      default: // newest
+        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    }
+  });
+
+  return (
+    <SubLayout title={`#${tag}`}>
+      <div className="px-4 md:px-6 lg:px-8 pt-4 pb-20 sm:pb-8">
+        <div className="max-w-7xl mx-auto space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {lists.length} public {lists.length === 1 ? 'list' : 'lists'} tagged #{tag}
+          </p>
+          <ListGrid
+            lists={lists}
+            searchParams={searchParams}
+            lastViewedMap={lastViewedMap}
+            customCategories={customCategories}
+          />
+        </div>
+      </div>
+    </SubLayout>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Lock, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { ListGrid } from "@/components/lists/list-grid";
+import { CollectionDialog } from "@/components/collections/collection-dialog";
+import { sortCollectionLists } from "@/lib/utils/collections";
+import type { ListCollection } from "@/types/collection";
+import type { EnhancedList } from "@/types/list";
+
+interface CollectionContentProps {
+  collection: ListCollection;
+  lists: EnhancedList[];
+  isOwner: boolean;
+}
+
+export function CollectionContent({ collection: initialCollection, lists: initialLists, isOwner }: CollectionContentProps) {
+  const router = useRouter();
+  const [collection, setCollection] = useState(initialCollection);
+  const [lists, setLists] = useState(initialLists);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  async function updateLists(request: Promise<Response>, failure: string) {
+    const response = await request;
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || failure);
+    }
+    setCollection(data.collection);
+  }
+
+  async function handleReorder(listIds: string[]) {
+    const previous = lists;
+    const positions = new Map(listIds.map((id, index) => [id, index]));
+    setLists(prev => [...prev].sort((a, b) => (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0)));
+
+    try {
+      await updateLists(fetch(`/api/collections/${collection.id}/lists`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ listIds }),
+      }), "Failed to reorder lists");
+    } catch (error) {
+      console.error("Error reordering collection:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to reorder lists");
+      setLists(previous);
+    }
+  }
+
+  async function handleRemove(listId: string) {
+    try {
+      await updateLists(
+        fetch(`/api/collections/${collection.id}/lists/${listId}`, { method: "DELETE" }),
+        "Failed to remove list"
+      );
+      setLists(prev => prev.filter(list => list.id !== listId));
+      toast.success("Removed from collection");
+    } catch (error) {
+      console.error("Error removing list from collection:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove list");
+    }
+  }
+
+  async function handleDelete() {
+    try {
+      setIsDeleting(true);
+      const response = await fetch(`/api/collections/${collection.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete collection");
+      }
+
+      toast.success("Collection deleted");
+      router.push(`/profile/${collection.owner.username}/collections`);
+      router.refresh();
+    } catch (error) {
+      console.error("Error deleting collection:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete collection");
+      setIsDeleting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <h1 className="text-2xl font-bold">{collection.name}</h1>
+            {collection.visibility === 'private' && (
+              <Lock className="h-4 w-4 text-muted-foreground" aria-label="Private" />
+            )}
+          </div>
+          {collection.description && (
+            <p className="text-muted-foreground">{collection.description}</p>
+          )}
+        </div>
+
+        {isOwner && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isDeleting}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete this collection?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The lists in it won&apos;t be deleted.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </div>
+
+      {isOwner && collection.sort === 'manual' && lists.length > 1 && (
+        <p className="text-sm text-muted-foreground">Drag lists to change their order.</p>
+      )}
+
+      <ListGrid
+        lists={lists}
+        onReorder={isOwner && collection.sort === 'manual' ? handleReorder : undefined}
+        onRemove={isOwner ? handleRemove : undefined}
+      />
+
+      {isOwner && (
+        <CollectionDialog
+          open={isEditing}
+          onOpenChange={setIsEditing}
+          collection={collection}
+          onSaved={(updated) => {
+            setCollection(updated);
+            setLists(prev => sortCollectionLists(prev, updated));
+          }}
+        />
+      )}
+    </div>
+  );
+}
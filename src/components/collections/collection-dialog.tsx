@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { COLLECTION_SORTS, type CollectionSort, type ListCollection } from "@/types/collection";
+
+interface CollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this collection instead of creating a new one
+  collection?: ListCollection;
+  onSaved: (collection: ListCollection) => void;
+}
+
+export function CollectionDialog({ open, onOpenChange, collection, onSaved }: CollectionDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [sort, setSort] = useState<CollectionSort>("recent");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(collection?.name || "");
+    setDescription(collection?.description || "");
+    setIsPublic(collection?.visibility === "public");
+    setSort(collection?.sort || "recent");
+  }, [open, collection]);
+
+  async function saveCollection() {
+    try {
+      setIsSaving(true);
+      const response = await fetch(collection ? `/api/collections/${collection.id}` : "/api/collections", {
+        method: collection ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim(),
+          visibility: isPublic ? "public" : "private",
+          sort,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save collection");
+      }
+
+      onSaved(data.collection);
+      onOpenChange(false);
+      toast.success(collection ? "Collection updated" : "Collection created");
+    } catch (error) {
+      console.error("Error saving collection:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save collection");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{collection ? "Edit collection" : "New collection"}</DialogTitle>
+          <DialogDescription>
+            Group your own lists and lists you&apos;ve pinned. Drag lists onto it from My Lists or Pinned.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="collection-name">Name</Label>
+            <Input
+              id="collection-name"
+              placeholder="e.g. Weekend plans"
+              maxLength={60}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="collection-description">Description</Label>
+            <Textarea
+              id="collection-description"
+              placeholder="Optional"
+              maxLength={300}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Order lists by</Label>
+            <Select value={sort} onValueChange={(value) => setSort(value as CollectionSort)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background">
+                {COLLECTION_SORTS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="collection-public">Public</Label>
+              <p className="text-sm text-muted-foreground">
+                Show it on your profile. Only the public lists in it are shown to others.
+              </p>
+            </div>
+            <Switch id="collection-public" checked={isPublic} onCheckedChange={setIsPublic} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={saveCollection}
+            disabled={isSaving || name.trim().length === 0}
+          >
+            {isSaving ? "Saving..." : collection ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useDroppable } from "@dnd-kit/core";
+import { FolderPlus, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ListCollection } from "@/types/collection";
+
+// Droppable IDs are prefixed so they can't clash with list IDs
+export const COLLECTION_DROP_PREFIX = "collection:";
+
+function CollectionDropTarget({ collection, isDragging }: { collection: ListCollection; isDragging: boolean }) {
+  const { isOver, setNodeRef } = useDroppable({ id: `${COLLECTION_DROP_PREFIX}${collection.id}` });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition-colors",
+        isDragging && "border-dashed border-primary/50",
+        isOver && "border-solid border-primary bg-primary/10 text-primary"
+      )}
+    >
+      {collection.visibility === 'private' && <Lock className="h-3 w-3 text-muted-foreground" />}
+      <span>{collection.name}</span>
+      <span className="text-muted-foreground tabular-nums">{collection.listIds.length}</span>
+    </div>
+  );
+}
+
+interface CollectionDropTargetsProps {
+  collections: ListCollection[];
+  isDragging: boolean;
+}
+
+export function CollectionDropTargets({ collections, isDragging }: CollectionDropTargetsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <FolderPlus className="h-4 w-4" />
+        Drag a list onto a collection:
+      </span>
+      {collections.map(collection => (
+        <CollectionDropTarget key={collection.id} collection={collection} isDragging={isDragging} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { FolderOpen, Lock, Plus } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CollectionDialog } from "@/components/collections/collection-dialog";
+import type { ListCollection } from "@/types/collection";
+
+interface CollectionListProps {
+  collections: ListCollection[];
+  username: string;
+  isOwner: boolean;
+}
+
+export function CollectionList({ collections: initialCollections, username, isOwner }: CollectionListProps) {
+  const [collections, setCollections] = useState(initialCollections);
+  const [isCreating, setIsCreating] = useState(false);
+
+  if (collections.length === 0 && !isOwner) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Collections</h2>
+        {isOwner && (
+          <Button variant="outline" size="sm" onClick={() => setIsCreating(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New collection
+          </Button>
+        )}
+      </div>
+
+      {collections.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Collections group your lists and lists you&apos;ve pinned.
+        </p>
+      ) : (
+        <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+          {collections.map(collection => (
+            <Link key={collection.id} href={`/profile/${username}/collections/${collection.id}`}>
+              <Card className="p-4 space-y-1.5 transition-colors hover:bg-accent">
+                <div className="flex items-center gap-2">
+                  <FolderOpen className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <h3 className="font-semibold leading-none tracking-tight line-clamp-1">
+                    {collection.name}
+                  </h3>
+                  {collection.visibility === 'private' && (
+                    <Lock className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                  )}
+                </div>
+                {collection.description && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">{collection.description}</p>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  {collection.listIds.length} {collection.listIds.length === 1 ? 'list' : 'lists'}
+                </p>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {isOwner && (
+        <CollectionDialog
+          open={isCreating}
+          onOpenChange={setIsCreating}
+          onSaved={(collection) => setCollections(prev => [collection, ...prev])}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react'
 import { cn } from '@/lib/utils'
+import { createItemId, isSection, itemTypeField, MAX_ITEM_DEPTH, serializeChildItems } from '@/lib/utils/list-items'
+import type { ListChildItem, ListItemType } from '@/types/list'
 import {
   DndContext,
   closestCenter,
@@ -13,7 +15,6 @@ import {
   DragStartEvent,
 } from '@dnd-kit/core'
 import {
-  arrayMove,
   SortableContext,
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
@@ -21,33 +22,35 @@ import {
 } from '@dnd-kit/sortable'
 import { restrictToVerticalAxis } from '@dnd-kit/modifiers'
 import { CSS } from '@dnd-kit/utilities'
-import { IndentIcon, OutdentIcon } from 'lucide-react'
+import { Heading, IndentIcon, OutdentIcon, Plus } from 'lucide-react'
 
+// Items are edited as a flat outline, where `level` is the nesting depth.
+// Sections are always at level 0 and group the items below them.
 interface TaskItem {
   id: string;
+  type?: ListItemType;
   text: string;
   checked: boolean;
   level: number;
   tag?: string;
-  childItems?: Array<{
-    title: string;
-    tag?: string;
-  }>;
+  // Comments aren't edited here, but are carried along so saves keep them
+  comment?: string;
 }
 
 type SavedTaskItem = {
   id: string;
+  type?: ListItemType;
   title: string;
+  comment?: string;
   checked: boolean;
   tag?: string;
-  childItems?: Array<{
-    title: string;
-    tag?: string;
-  }>;
+  childItems?: ListChildItem[];
 };
 
 interface TaskListEditorProps {
   initialItems?: SavedTaskItem[];
+  // Replaces the contents when it changes, e.g. with edits from collaborators
+  externalItems?: SavedTaskItem[];
   onChange?: (items: SavedTaskItem[]) => void;
   className?: string;
   category?: string;
@@ -64,6 +67,9 @@ interface SortableItemProps {
   onPaste: (e: React.ClipboardEvent, id: string) => void
   onIndent: (id: string) => void
   onOutdent: (id: string) => void
+  onToggleSection: (id: string) => void
+  canIndent: boolean
+  canToggleSection: boolean
   isActive: boolean
   onFocus: () => void
   onBlur: () => void
@@ -92,6 +98,9 @@ function SortableItem({
   onPaste,
   onIndent,
   onOutdent,
+  onToggleSection,
+  canIndent,
+  canToggleSection,
   isActive,
   onFocus,
   onBlur,
@@ -120,14 +129,9 @@ function SortableItem({
     onBlur();
   };
 
-  // Find child items if this is a parent item
-  const isParent = item.level === 0;
-  const childItems = isParent && isDragging ? items.filter((childItem: TaskItem, index: number) => {
-    const parentIndex = items.findIndex((i: TaskItem) => i.id === id);
-    return childItem.level > 0 && 
-           index > parentIndex && 
-           items.slice(parentIndex + 1, index).every((i: TaskItem) => i.level > 0);
-  }) : [];
+  // Sub-items, or a section's items, travel with it while it is dragged
+  const childItems = isDragging ? blockOf(items, items.findIndex(i => i.id === id)) : [];
+  const section = isSection(item);
 
   // If this item is a child and its parent is being dragged, don't render it
   if (parentIsDragging) {
@@ -168,10 +172,11 @@ function SortableItem({
         "flex items-start gap-2 p-2 rounded group relative min-h-[48px]",
         isActive && "bg-[#f3f1ff]",
         item.level > 0 && "bg-muted",
+        section && "font-semibold text-lg",
         (item.checked || (item.level > 0 && parentChecked)) && "text-muted-foreground",
         item.tag && `border-l-[var(--category-${item.tag?.replace(/\s+/g, '-')})]`
       )}>
-        {item.level === 0 && (
+        {item.level === 0 && !section && (
           <input
             type="checkbox"
             checked={item.checked}
@@ -184,7 +189,7 @@ function SortableItem({
           ref={setEditableRef(item.id)}
           contentEditable
           suppressContentEditableWarning
-          data-placeholder="Type your task here..."
+          data-placeholder={section ? "Section title..." : "Type your task here..."}
           onFocus={onFocus}
           onBlur={handleBlur}
           onInput={e => onTextChange(item.id, e.currentTarget.textContent || '')}
@@ -200,7 +205,25 @@ function SortableItem({
         {/* Indent/Outdent buttons - only show when item is active */}
         {isActive && (
           <div ref={buttonsRef} className="flex items-center gap-1">
-            {item.level > 0 ? (
+            {canToggleSection && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault();
+                  onToggleSection(id);
+                  const element = editableRefs.current?.get(id);
+                  if (element) {
+                    element.focus();
+                  }
+                }}
+                className={cn("p-1 hover:bg-muted rounded-sm transition-colors", section && "bg-muted")}
+                title={section ? "Turn into item" : "Turn into section"}
+                tabIndex={-1}
+              >
+                <Heading className="h-4 w-4 text-muted-foreground hover:text-foreground" />
+              </button>
+            )}
+            {item.level > 0 && (
               <button
                 type="button"
                 onClick={(e) => {
@@ -218,7 +241,8 @@ function SortableItem({
               >
                 <OutdentIcon className="h-4 w-4 text-muted-foreground hover:text-foreground" />
               </button>
-            ) : (
+            )}
+            {canIndent && (
               <button
                 type="button"
                 onClick={(e) => {
@@ -256,7 +280,7 @@ function SortableItem({
 
       {/* Show child items when parent is being dragged */}
       {isDragging && childItems.length > 0 && (
-        <div className="ml-6 space-y-1">
+        <div className="space-y-1">
           {childItems.map(childItem => (
             <div
               key={childItem.id}
@@ -264,6 +288,7 @@ function SortableItem({
                 "flex items-start gap-2 p-2 rounded bg-muted min-h-[48px]",
                 "opacity-90"
               )}
+              style={{ marginLeft: `${(childItem.level - item.level) * 1.5}rem` }}
             >
               <div className="flex-1 px-1">
                 {childItem.text}
@@ -276,80 +301,145 @@ function SortableItem({
   );
 }
 
+// Index just past the last sub-item of the item at `index`
+const subtreeEnd = (items: TaskItem[], index: number) => {
+  let end = index + 1;
+  while (end < items.length && items[end].level > items[index].level) end++;
+  return end;
+};
+
+const subtreeOf = (items: TaskItem[], index: number) =>
+  index === -1 ? [] : items.slice(index + 1, subtreeEnd(items, index));
+
+// Index just past what moves with the item at `index`: a section's items run
+// up to the next section, other items only carry their sub-items
+const blockEnd = (items: TaskItem[], index: number) => {
+  if (!isSection(items[index])) return subtreeEnd(items, index);
+  const next = items.findIndex((item, i) => i > index && isSection(item));
+  return next === -1 ? items.length : next;
+};
+
+const blockOf = (items: TaskItem[], index: number) =>
+  index === -1 ? [] : items.slice(index + 1, blockEnd(items, index));
+
+// Index of the section the item at `index` belongs to, or -1 before the first
+const sectionStart = (items: TaskItem[], index: number) => {
+  for (let i = index; i >= 0; i--) {
+    if (isSection(items[i])) return i;
+  }
+  return -1;
+};
+
+// Each item can be at most one level deeper than the one above it, and the
+// first item under a section starts a new outline
+const normalizeLevels = (items: TaskItem[]) => {
+  let previousLevel = -1;
+  return items.map(item => {
+    if (isSection(item)) {
+      previousLevel = -1;
+      return item.level === 0 ? item : { ...item, level: 0 };
+    }
+    const level = Math.max(0, Math.min(item.level, previousLevel + 1, MAX_ITEM_DEPTH));
+    previousLevel = level;
+    return level === item.level ? item : { ...item, level };
+  });
+};
+
 // Convert saved items to editor items
-const convertSavedToEditorItems = (savedItems: SavedTaskItem[]): TaskItem[] => {
+const convertSavedToEditorItems = (savedItems: SavedTaskItem[], previousItems: TaskItem[] = []): TaskItem[] => {
   const result: TaskItem[] = [];
-  
+
+  // Sub-item rows have no saved ID, so reuse the ones already rendered under
+  // the same item to keep them from remounting
+  const previousChildIds = new Map<string, string[]>();
+  let currentParentId: string | null = null;
+  previousItems.forEach(item => {
+    if (item.level === 0) {
+      currentParentId = item.id;
+    } else if (currentParentId) {
+      previousChildIds.set(currentParentId, [...(previousChildIds.get(currentParentId) || []), item.id]);
+    }
+  });
+
   savedItems.forEach(item => {
-    // Add parent item
-    const parentItem = {
+    result.push({
       id: item.id,
+      ...itemTypeField(item),
       text: item.title,
       checked: item.checked,
       level: 0,
-      tag: item.tag
-    };
-    result.push(parentItem);
-    
-    // Add child items if any, maintaining their order
-    if (item.childItems?.length) {
-      let insertIndex = result.length;
-      item.childItems.forEach(child => {
-        const childItem = {
-          id: Date.now().toString() + Math.random(),
+      tag: item.tag,
+      comment: item.comment
+    });
+
+    // Sub-items follow their parent in outline order
+    let childIndex = 0;
+    const addChildren = (childItems: ListChildItem[] | undefined, level: number) => {
+      childItems?.forEach(child => {
+        result.push({
+          id: previousChildIds.get(item.id)?.[childIndex] || Date.now().toString() + Math.random(),
           text: child.title,
           checked: false,
-          level: 1,
+          level,
           tag: child.tag
-        };
-        // Insert child item at the current insert index and increment it
-        result.splice(insertIndex, 0, childItem);
-        insertIndex++;
+        });
+        childIndex++;
+        addChildren(child.childItems, level + 1);
       });
-    }
+    };
+    addChildren(item.childItems, 1);
   });
-  
+
   return result;
 };
 
 // Prepare items for save
 const prepareItemsForSave = (items: TaskItem[]): SavedTaskItem[] => {
   const result: SavedTaskItem[] = [];
-  
-  // Process each parent item (level 0)
-  items.forEach((item, index) => {
-    if (item.level === 0 && item.text.trim()) {  // Only include items with text
-      // Initialize the parent item, explicitly copying all fields
-      const parentItem: SavedTaskItem = {
+  // The items that new sub-items can attach to, one per level
+  let ancestors: Array<{ level: number; childItems: ListChildItem[] }> = [];
+
+  items.forEach((item) => {
+    if (item.level === 0) {
+      ancestors = [];
+      if (!item.text.trim()) return; // Only include items with text, and drop their sub-items
+
+      if (isSection(item)) {
+        result.push({ id: item.id, type: 'section', title: item.text, comment: item.comment, checked: false, childItems: [] });
+        return;
+      }
+
+      const childItems: ListChildItem[] = [];
+      result.push({
         id: item.id,
         title: item.text,
+        comment: item.comment,
         checked: Boolean(item.checked), // Ensure boolean type
         tag: item.tag,
-        childItems: []
-      };
-
-      // Find all child items that belong to this parent
-      let childIndex = index + 1;
-      while (childIndex < items.length && items[childIndex].level > 0) {
-        const childItem = items[childIndex];
-        if (childItem.text.trim()) {  // Only include child items with text
-          parentItem.childItems?.push({
-            title: childItem.text,
-            tag: childItem.tag
-          });
-        }
-        childIndex++;
-      }
+        childItems
+      });
+      ancestors.push({ level: 0, childItems });
+      return;
+    }
 
-      result.push(parentItem);
+    // Blank sub-items are skipped, and their own sub-items move up a level
+    if (ancestors.length === 0 || !item.text.trim()) return;
+    while (ancestors.length > 1 && ancestors[ancestors.length - 1].level >= item.level) {
+      ancestors.pop();
     }
+
+    const childItems: ListChildItem[] = [];
+    ancestors[ancestors.length - 1].childItems.push({ title: item.text, tag: item.tag, childItems });
+    ancestors.push({ level: item.level, childItems });
   });
-  
-  return result;
+
+  // Same shape the server sends back, so unchanged items compare equal
+  return result.map(item => ({ ...item, childItems: serializeChildItems(item.childItems) }));
 };
 
 export function TaskListEditor({
   initialItems = [],
+  externalItems,
   onChange,
   className,
   category,
@@ -357,11 +447,28 @@ export function TaskListEditor({
   const [items, setItems] = useState<TaskItem[]>(() => 
     initialItems.length > 0 
       ? convertSavedToEditorItems(initialItems)
-      : [{ id: '1', text: '', checked: false, level: 0 }]
+      : [{ id: createItemId(), text: '', checked: false, level: 0 }]
   )
   const [activeId, setActiveId] = useState<string | null>(null)
   const editableRefs = useRef<Map<string, HTMLDivElement>>(new Map())
-  const [draggingParentId, setDraggingParentId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!externalItems) return
+    setItems(previousItems => {
+      const nextItems = convertSavedToEditorItems(externalItems, previousItems)
+
+      // Blank rows are never saved, so keep the ones being typed into in place
+      previousItems.forEach((item, index) => {
+        if (item.text.trim() || nextItems.some(i => i.id === item.id)) return
+        const afterId = index > 0 ? previousItems[index - 1].id : null
+        const afterIndex = afterId ? nextItems.findIndex(i => i.id === afterId) : -1
+        nextItems.splice(afterIndex === -1 ? Math.min(index, nextItems.length) : afterIndex + 1, 0, item)
+      })
+
+      return nextItems.length > 0 ? nextItems : previousItems
+    })
+  }, [externalItems])
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -390,56 +497,7 @@ export function TaskListEditor({
 
   // Handle text changes
   const handleTextChange = (id: string, text: string) => {
-    let newItems = items.map(item => {
-      if (item.id === id) {
-        return { ...item, text }
-      }
-      return item
-    })
-
-    // If this is a child item, also update the parent's childItems
-    const currentItem = items.find(item => item.id === id)
-    if (currentItem && currentItem.level > 0) {
-      // Find parent item
-      const parentIndex = items.findIndex((parentItem, idx) => 
-        idx < items.findIndex(i => i.id === id) && 
-        parentItem.level === (currentItem.level - 1)
-      )
-      
-      if (parentIndex !== -1) {
-        const parentItem = items[parentIndex]
-        const parentChildItems = parentItem.childItems || []
-        
-        // Find the matching child item by comparing the old text
-        const existingChildIndex = parentChildItems.findIndex(
-          p => p.title === currentItem.text
-        )
-        
-        // Create or update the child item
-        const childItem = {
-          title: text
-        }
-        
-        // Update parent item in newItems array
-        newItems = newItems.map((item, index) => {
-          if (index === parentIndex) {
-            const updatedChildItems = [...parentChildItems]
-            if (existingChildIndex !== -1) {
-              updatedChildItems[existingChildIndex] = childItem
-            } else {
-              updatedChildItems.push(childItem)
-            }
-            return {
-              ...item,
-              childItems: updatedChildItems
-            }
-          }
-          return item
-        })
-      }
-    }
-
-    updateItems(newItems)
+    updateItems(items.map(item => item.id === id ? { ...item, text } : item))
   }
 
   // Handle checkbox changes
@@ -448,7 +506,7 @@ export function TaskListEditor({
     const currentItem = items[index]
 
     // Only allow checking parent items (level 0)
-    if (currentItem.level === 0) {
+    if (currentItem.level === 0 && !isSection(currentItem)) {
       const updatedItems = items.map(item =>
         item.id === id ? { ...item, checked } : item
       )
@@ -456,80 +514,69 @@ export function TaskListEditor({
     }
   }
 
-  // Handle indentation
-  const handleIndent = (id: string) => {
-    const index = items.findIndex(item => item.id === id);
-    if (index <= 0) return; // Can't indent first item
-
+  // An item can become a sub-item of the one above it, as long as neither it
+  // nor its own sub-items end up deeper than MAX_ITEM_DEPTH
+  const canIndentAt = (index: number) => {
+    if (index <= 0) return false; // Can't indent first item
     const currentItem = items[index];
-    
-    // Find the previous parent item by going backwards until we find a level 0 item
-    let prevParentIndex = index - 1;
-    while (prevParentIndex >= 0 && items[prevParentIndex].level > 0) {
-      prevParentIndex--;
-    }
+    if (isSection(currentItem) || isSection(items[index - 1])) return false;
+    if (currentItem.level > items[index - 1].level) return false;
+    return [currentItem, ...subtreeOf(items, index)].every(item => item.level < MAX_ITEM_DEPTH);
+  };
 
-    // If we found a parent item
-    if (prevParentIndex >= 0) {
-      const updatedItems = [...items];
-      const parentItem = updatedItems[prevParentIndex];
-      
-      // Update the current item's level to 1
-      updatedItems[index] = {
-        ...currentItem,
-        level: 1
-      };
-
-      // Add the current item to the parent's childItems
-      if (!parentItem.childItems) {
-        parentItem.childItems = [];
-      }
-      
-      parentItem.childItems.push({
-        title: currentItem.text,
-        tag: currentItem.tag
-      });
+  // Moves an item and its sub-items one level in or out
+  const shiftLevel = (index: number, delta: number) => {
+    const end = subtreeEnd(items, index);
+    const updatedItems = items.map((item, i) =>
+      i >= index && i < end ? { ...item, level: item.level + delta } : item
+    );
+    updateItems(normalizeLevels(updatedItems));
+  };
 
-      // Update the parent item
-      updatedItems[prevParentIndex] = parentItem;
-      
-      updateItems(updatedItems);
+  // Handle indentation
+  const handleIndent = (id: string) => {
+    const index = items.findIndex(item => item.id === id);
+    if (canIndentAt(index)) {
+      shiftLevel(index, 1);
     }
   };
 
   const handleOutdent = (id: string) => {
     const index = items.findIndex(item => item.id === id)
-    const currentItem = items[index]
-
-    if (currentItem.level > 0) {
-      // Find the parent item (the item before this one with level - 1)
-      const parentIndex = items.slice(0, index).reverse()
-        .findIndex(item => item.level === currentItem.level - 1)
-      
-      if (parentIndex !== -1) {
-        const actualParentIndex = index - 1 - parentIndex
-        const parentItem = items[actualParentIndex]
-        const updatedItems = [...items]
-
-        // Update the current item's level
-        updatedItems[index] = {
-          ...currentItem,
-          level: currentItem.level - 1
-        }
+    if (index !== -1 && items[index].level > 0) {
+      shiftLevel(index, -1)
+    }
+  }
 
-        // Remove this item from parent's childItems
-        const updatedParentChildItems = (parentItem.childItems || [])
-          .filter(p => p.title !== currentItem.text)
+  // Only top-level items without sub-items can become sections, since
+  // sections can't have any
+  const canToggleSectionAt = (index: number) =>
+    isSection(items[index]) || (items[index].level === 0 && subtreeOf(items, index).length === 0);
 
-        // Update the parent item
-        updatedItems[actualParentIndex] = {
-          ...parentItem,
-          childItems: updatedParentChildItems
-        }
+  const handleToggleSection = (id: string) => {
+    const index = items.findIndex(item => item.id === id)
+    if (index === -1 || !canToggleSectionAt(index)) return
+    updateItems(normalizeLevels(items.map(item => {
+      if (item.id !== id) return item
+      if (isSection(item)) {
+        const { type, ...rest } = item
+        return rest
+      }
+      return { ...item, type: 'section' as const, checked: false }
+    })))
+  }
 
-        updateItems(updatedItems)
+  // Adds an empty section at the end and focuses it
+  const addSection = () => {
+    const newItem: TaskItem = { id: createItemId(), type: 'section', text: '', checked: false, level: 0 }
+    updateItems([...items, newItem])
+    setActiveId(newItem.id)
+    requestAnimationFrame(() => {
+      const element = editableRefs.current.get(newItem.id)
+      if (element) {
+        focusElementAtEnd(element)
       }
-    }
+    })
   }
 
   // Create a new task and focus it
@@ -537,11 +584,10 @@ export function TaskListEditor({
     const index = items.findIndex(item => item.id === afterId)
     const currentItem = items[index]
     const newItem = { 
-      id: Date.now().toString(), 
+      id: createItemId(), 
       text, 
       checked: false,
-      level: currentItem.level,
-      childItems: []
+      level: currentItem.level
     }
     const newItems = [
       ...items.slice(0, index + 1),
@@ -603,11 +649,11 @@ export function TaskListEditor({
 
     // Create new items from the processed lines
     const newItems = processedLines.map((line, i) => ({
-      id: Date.now().toString() + i,
+      id: createItemId(),
+      ...(i === 0 && itemTypeField(currentItem)), // The first line replaces the current row
       text: line.text,
       checked: i === 0 ? currentItem.checked : false, // Preserve checked status for first item
-      level: line.level,
-      childItems: []
+      level: line.level
     }))
 
     // Replace the current item with the new items
@@ -617,7 +663,7 @@ export function TaskListEditor({
       ...items.slice(index + 1)
     ]
 
-    updateItems(updatedItems)
+    updateItems(normalizeLevels(updatedItems))
     
     // Focus the last created item
     setActiveId(newItems[newItems.length - 1].id)
@@ -651,7 +697,7 @@ export function TaskListEditor({
         } else {
           // Then delete if at level 0
           const newItems = items.filter(item => item.id !== id)
-          updateItems(newItems)
+          updateItems(normalizeLevels(newItems))
           // Focus previous item
           if (currentIndex > 0) {
             const prevId = items[currentIndex - 1].id
@@ -709,68 +755,58 @@ export function TaskListEditor({
 
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(null);
-    const draggedItem = items.find(item => item.id === event.active.id);
-    if (draggedItem?.level === 0) {
-      setDraggingParentId(draggedItem.id);
-    }
+    setDraggingId(event.active.id.toString());
   };
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
     const draggedItem = items.find(item => item.id === active.id);
     
-    // Always reset dragging parent ID
-    setDraggingParentId(null);
+    // Always reset the dragged item
+    setDraggingId(null);
 
     if (over && draggedItem) {
       const oldIndex = items.findIndex(item => item.id === active.id);
       const newIndex = items.findIndex(item => item.id === over.id);
-      
-      if (oldIndex !== newIndex) {
-        let newItems: TaskItem[] = [];
-        
-        if (draggedItem.level === 0) {
-          // For parent items, move them along with their children
-          const childItems: TaskItem[] = [];
-          let childCount = 0;
-          
-          // Collect all consecutive child items after the parent
-          for (let i = oldIndex + 1; i < items.length; i++) {
-            if (items[i].level > 0) {
-              childItems.push(items[i]);
-              childCount++;
-            } else {
-              break;
-            }
-          }
+      const overItem = items[newIndex];
 
-          // First remove the parent and children
+      // Items move together with their sub-items, sections with their items,
+      // and sub-items only move between items at the same level
+      if (oldIndex !== newIndex && (draggedItem.level === 0 || overItem.level === draggedItem.level)) {
+        const end = blockEnd(items, oldIndex);
+        const moved = items.slice(oldIndex, end);
+
+        if (newIndex < oldIndex || newIndex >= end) {
+          // First remove the item and its sub-items
           const withoutMoved = [
             ...items.slice(0, oldIndex),
-            ...items.slice(oldIndex + 1 + childCount)
+            ...items.slice(end)
           ];
 
-          // Then insert them at the new position
-          newItems = [
-            ...withoutMoved.slice(0, newIndex),
-            draggedItem,
-            ...childItems,
-            ...withoutMoved.slice(newIndex)
-          ];
-        } else {
-          // For child items, ensure they stay under a parent
-          const overItem = items[newIndex];
-          const prevItem = newIndex > 0 ? items[newIndex - 1] : null;
-          const nextItem = newIndex < items.length - 1 ? items[newIndex + 1] : null;
-
-          // Only allow moving between items of the same level
-          if (overItem.level === draggedItem.level) {
-            newItems = arrayMove(items, oldIndex, newIndex);
+          // Then insert them at the new position, after the target's own
+          // sub-items when moving down
+          const targetIndex = withoutMoved.findIndex(item => item.id === over.id);
+          let insertAt = newIndex < oldIndex
+            ? targetIndex
+            : subtreeEnd(withoutMoved, targetIndex);
+
+          // Sections only land between other sections, so they never split
+          // one up. Items above the first section stay there.
+          if (isSection(draggedItem)) {
+            const start = sectionStart(withoutMoved, targetIndex);
+            const firstSection = withoutMoved.findIndex(isSection);
+            if (start === -1) {
+              insertAt = firstSection === -1 ? withoutMoved.length : firstSection;
+            } else {
+              insertAt = newIndex < oldIndex ? start : blockEnd(withoutMoved, start);
+            }
           }
-        }
 
-        if (newItems.length > 0) {
-          updateItems(newItems);
+          updateItems(normalizeLevels([
+            ...withoutMoved.slice(0, insertAt),
+            ...moved,
+            ...withoutMoved.slice(insertAt)
+          ]));
         }
       }
     }
@@ -797,6 +833,10 @@ export function TaskListEditor({
     });
   };
 
+  const draggingSubtree = new Set(
+    blockOf(items, items.findIndex(item => item.id === draggingId)).map(item => item.id)
+  );
+
   return (
     <div className={cn("border rounded-lg p-2", className)}>
       <DndContext
@@ -811,15 +851,9 @@ export function TaskListEditor({
           strategy={verticalListSortingStrategy}
         >
           <ul className={cn("list-none p-0 m-0 relative")}>
-            {items.map((item) => {
-              // Check if this item is a child of the currently dragging parent
-              const isChildOfDraggingParent = Boolean(
-                draggingParentId && 
-                item.level > 0 && 
-                items.slice(0, items.findIndex(i => i.id === item.id))
-                     .reverse()
-                     .find(i => i.level === 0)?.id === draggingParentId
-              );
+            {items.map((item, index) => {
+              // Sub-items of the dragged item are drawn inside it instead
+              const isChildOfDraggingParent = draggingSubtree.has(item.id);
 
               return (
                 <SortableItem
@@ -834,6 +868,9 @@ export function TaskListEditor({
                   onPaste={handlePaste}
                   onIndent={handleIndent}
                   onOutdent={handleOutdent}
+                  onToggleSection={handleToggleSection}
+                  canIndent={canIndentAt(index)}
+                  canToggleSection={canToggleSectionAt(index)}
                   isActive={activeId === item.id}
                   onFocus={() => {
                     setActiveId(item.id)
@@ -853,6 +890,15 @@ export function TaskListEditor({
         </SortableContext>
       </DndContext>
 
+      <button
+        type="button"
+        onClick={addSection}
+        className="mt-2 flex items-center gap-1 rounded-sm px-2 py-1 text-sm text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+      >
+        <Plus className="h-4 w-4" />
+        Add section
+      </button>
+
       <style jsx global>
         {`
           [contenteditable] {
@@ -2,7 +2,10 @@
 
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { ExternalLink } from "lucide-react";
+import { CheckCircle2, Circle, ExternalLink } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ItemFieldBadges } from "@/components/lists/item-field-badges";
+import type { ItemFieldValues, ListCategory } from "@/types/list";
 
 interface ItemCardProps {
   title: string;
@@ -13,21 +16,44 @@ interface ItemCardProps {
     value: string;
   }>;
   position: number;
+  // Structured fields, shown for the ones the category defines
+  category?: ListCategory;
+  fields?: ItemFieldValues;
+  completed?: boolean;
+  // Makes the checkmark clickable, e.g. to track the viewer's own progress
+  onToggleCompleted?: () => void;
 }
 
-export function ItemCard({ title, comment, properties, position }: ItemCardProps) {
+export function ItemCard({ title, comment, properties, position, category, fields, completed, onToggleCompleted }: ItemCardProps) {
+  const checkmark = completed ? (
+    <CheckCircle2 className="h-5 w-5 text-green-500" />
+  ) : (
+    <Circle className="h-5 w-5 text-muted-foreground" />
+  );
+
   return (
     <Card>
       <CardContent className="p-4 space-y-2">
         <div className="flex items-start justify-between gap-4">
           <div className="space-y-1">
             <div className="flex items-center gap-2">
+              {onToggleCompleted ? (
+                <button
+                  type="button"
+                  className="flex items-center justify-center rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  onClick={onToggleCompleted}
+                  aria-label={completed ? "Mark as not done" : "Mark as done"}
+                >
+                  {checkmark}
+                </button>
+              ) : completed !== undefined && checkmark}
               <span className="font-medium">#{position}</span>
-              <h3 className="font-medium">{title}</h3>
+              <h3 className={cn("font-medium", completed && "text-muted-foreground")}>{title}</h3>
             </div>
             {comment && (
               <p className="text-sm text-muted-foreground">{comment}</p>
             )}
+            <ItemFieldBadges category={category} fields={fields} />
           </div>
         </div>
 
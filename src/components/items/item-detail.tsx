@@ -1,15 +1,20 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Link2 } from "lucide-react";
-import type { ListItem } from "@/types/list";
+import type { ListCategory, ListItem } from "@/types/list";
 import { ErrorBoundaryWrapper } from "@/components/error-boundary-wrapper";
 import { wrapUrlsInAnchors } from "@/lib/utils";
+import { formatItemFieldValue, presentItemFields } from "@/lib/utils/item-fields";
 
 interface ItemDetailProps {
   item: ListItem;
   rank: number;
+  // The list's category, which decides the item's structured fields
+  category?: ListCategory;
 }
 
-export function ItemDetail({ item, rank }: ItemDetailProps) {
+export function ItemDetail({ item, rank, category }: ItemDetailProps) {
+  const fields = presentItemFields(category, item.fields);
+
   return (
     <ErrorBoundaryWrapper>
       <Card>
@@ -24,6 +29,17 @@ export function ItemDetail({ item, rank }: ItemDetailProps) {
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {fields.length > 0 && (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              {fields.map(({ field, value }) => (
+                <div key={field.key} className="contents">
+                  <dt className="font-medium">{field.label}</dt>
+                  <dd className="text-muted-foreground">{formatItemFieldValue(field, value)}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
           {item.comment && (
             <div>
               <h4 className="font-medium mb-1">Comment</h4>
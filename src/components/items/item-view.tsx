@@ -111,6 +111,7 @@ export function ItemView({
             <div className="flex items-center gap-2 flex-shrink-0">
               <CategoryBadge 
                 category={list.category}
+                info={list.categoryInfo}
                 className="pointer-events-none"
               />
               {list.visibility === 'private' && (
@@ -19,6 +19,16 @@ export function ListTabs() {
       href: "/profile/lists/collab",
       value: "/profile/lists/collab",
     },
+    {
+      label: "Search",
+      href: "/profile/lists/search",
+      value: "/profile/lists/search",
+    },
+    {
+      label: "Trash",
+      href: "/profile/lists/trash",
+      value: "/profile/lists/trash",
+    },
   ];
 
   return <TabNavigation tabs={tabs} />;
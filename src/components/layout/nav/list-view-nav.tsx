@@ -1,6 +1,6 @@
 "use client"
 
-import { ArrowLeft, UserPlus, MessageSquare } from "lucide-react"
+import { ArrowLeft, UserPlus, MessageSquare, History, FileUp, Activity } from "lucide-react"
 import { useRouter, usePathname, useSearchParams } from "next/navigation"
 import { useAuthService } from "@/lib/services/auth.service"
 
@@ -22,6 +22,9 @@ interface ListViewNavProps {
   title: string;
   onCollaboratorsClick?: () => void;
   showCollaborators?: boolean;
+  onHistoryClick?: () => void;
+  onActivityClick?: () => void;
+  onImportClick?: () => void;
   isOwner?: boolean;
   isCollaborator?: boolean;
   collaborators?: ListCollaborator[];
@@ -50,6 +53,9 @@ export function ListViewNav({
   title,
   onCollaboratorsClick,
   showCollaborators,
+  onHistoryClick,
+  onActivityClick,
+  onImportClick,
   isOwner,
   isCollaborator,
   collaborators = []
@@ -83,6 +89,63 @@ export function ListViewNav({
       </div>
       
       <div className="flex items-center gap-2">
+        {isSignedIn && user && onImportClick && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={onImportClick}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <FileUp className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Import items</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
+        {isSignedIn && user && (isOwner || isCollaborator) && onHistoryClick && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={onHistoryClick}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Revision history</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
+        {isSignedIn && user && (isOwner || isCollaborator) && onActivityClick && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={onActivityClick}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <Activity className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Activity</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
         {isSignedIn && user && (isOwner || isCollaborator) && (
           <TooltipProvider>
             <Button
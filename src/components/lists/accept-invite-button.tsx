@@ -0,0 +1,40 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+interface AcceptInviteButtonProps {
+  token: string;
+}
+
+export function AcceptInviteButton({ token }: AcceptInviteButtonProps) {
+  const router = useRouter();
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  async function acceptInvite() {
+    try {
+      setIsAccepting(true);
+      const response = await fetch(`/api/invites/${encodeURIComponent(token)}`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to accept invite");
+      }
+
+      toast.success("You're now a collaborator");
+      router.push(`/lists/${data.listId}`);
+    } catch (error) {
+      console.error("Error accepting invite:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to accept invite");
+      setIsAccepting(false);
+      router.refresh();
+    }
+  }
+
+  return (
+    <Button onClick={acceptInvite} disabled={isAccepting}>
+      {isAccepting ? "Accepting..." : "Accept invite"}
+    </Button>
+  );
+}
@@ -1,8 +1,9 @@
 import { Badge } from "@/components/ui/badge";
+import { CategoryIcon } from "@/components/lists/category-icon";
 import { cn } from "@/lib/utils";
-import type { ListCategory } from "@/types/list";
+import type { BuiltInCategory, ListCategory, ListCategoryInfo } from "@/types/list";
 
-const categoryStyles: Record<ListCategory, { color: string }> = {
+const categoryStyles: Record<BuiltInCategory | 'all', { color: string }> = {
   "movies": { color: "bg-[var(--category-movies)] text-[var(--category-badge-text)]" },
   "tv-shows": { color: "bg-[var(--category-tv)] text-[var(--category-badge-text)]" },
   "books": { color: "bg-[var(--category-books)] text-[var(--category-badge-text)]" },
@@ -15,11 +16,29 @@ const categoryStyles: Record<ListCategory, { color: string }> = {
 
 interface CategoryBadgeProps {
   category: ListCategory;
+  // Display info of a user-defined category
+  info?: ListCategoryInfo | null;
   className?: string;
 }
 
-export function CategoryBadge({ category, className }: CategoryBadgeProps) {
-  const categoryStyle = categoryStyles[category]?.color || categoryStyles.other.color;
+export function CategoryBadge({ category, info, className }: CategoryBadgeProps) {
+  if (info) {
+    return (
+      <Badge
+        variant="secondary"
+        className={cn(
+          "font-medium text-xs gap-1 text-[var(--category-badge-text)]",
+          className
+        )}
+        style={{ backgroundColor: info.color }}
+      >
+        <CategoryIcon icon={info.icon} className="h-3 w-3" />
+        {info.name}
+      </Badge>
+    );
+  }
+
+  const categoryStyle = categoryStyles[category as BuiltInCategory]?.color || categoryStyles.other.color;
 
   return (
     <Badge 
@@ -35,4 +54,4 @@ export function CategoryBadge({ category, className }: CategoryBadgeProps) {
   );
 }
 
-export { categoryStyles }; 
\ No newline at end of file
+export { categoryStyles };
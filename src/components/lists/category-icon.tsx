@@ -0,0 +1,49 @@
+import {
+  Camera,
+  Coffee,
+  Dices,
+  Dumbbell,
+  Gamepad2,
+  Gift,
+  Heart,
+  Leaf,
+  Mic,
+  Music,
+  Palette,
+  Plane,
+  ShoppingBag,
+  Star,
+  Tag,
+  Wine,
+  type LucideIcon
+} from "lucide-react";
+import type { CategoryIcon as CategoryIconName } from "@/types/category";
+
+export const categoryIcons: Record<CategoryIconName, LucideIcon> = {
+  'tag': Tag,
+  'mic': Mic,
+  'dice': Dices,
+  'wine': Wine,
+  'music': Music,
+  'gamepad': Gamepad2,
+  'plane': Plane,
+  'shopping-bag': ShoppingBag,
+  'gift': Gift,
+  'heart': Heart,
+  'star': Star,
+  'coffee': Coffee,
+  'camera': Camera,
+  'palette': Palette,
+  'dumbbell': Dumbbell,
+  'leaf': Leaf
+};
+
+interface CategoryIconProps {
+  icon: string;
+  className?: string;
+}
+
+export function CategoryIcon({ icon, className }: CategoryIconProps) {
+  const Icon = categoryIcons[icon as CategoryIconName] || Tag;
+  return <Icon className={className} />;
+}
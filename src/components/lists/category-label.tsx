@@ -0,0 +1,22 @@
+import { CategoryIcon } from "@/components/lists/category-icon";
+import { categoryColor, categoryLabel } from "@/lib/utils/category";
+import type { ListCategory, ListCategoryInfo } from "@/types/list";
+
+interface CategoryLabelProps {
+  category: ListCategory;
+  info?: ListCategoryInfo | null;
+}
+
+// Colour dot and name of a category, as shown in category pickers
+export function CategoryLabel({ category, info }: CategoryLabelProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <div
+        className="h-3.5 w-3.5 rounded-full shrink-0"
+        style={{ backgroundColor: categoryColor(category, info) }}
+      />
+      {info && <CategoryIcon icon={info.icon} className="h-3.5 w-3.5 text-muted-foreground" />}
+      <span>{categoryLabel(category, info)}</span>
+    </div>
+  );
+}
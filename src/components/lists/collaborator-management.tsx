@@ -7,6 +7,8 @@ import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { CollaboratorCard } from "@/components/users/collaborator-card";
 import { UserCombobox } from "@/components/users/user-combobox";
+import { OwnershipTransferSection } from "@/components/lists/ownership-transfer-section";
+import type { CollaboratorRole, ListOwnershipTransfer } from "@/types/list";
 import { useAuthService } from "@/lib/services/auth.service";
 import { useVirtualizer } from '@tanstack/react-virtual';
 import React from 'react';
@@ -40,7 +42,7 @@ interface Collaborator {
   username: string;
   email?: string;
   imageUrl?: string;
-  role: 'owner' | 'admin' | 'editor' | 'viewer';
+  role: 'owner' | CollaboratorRole;
   status?: 'pending' | 'accepted' | 'rejected';
   _isEmailInvite?: boolean;
   displayName?: string;
@@ -59,13 +61,14 @@ interface CollaboratorManagementProps {
   visibility: 'public' | 'unlisted' | 'private';
   onClose: () => void;
   onVisibilityChange?: (visibility: 'public' | 'unlisted' | 'private') => void;
-  currentUserRole?: 'owner' | 'admin' | 'editor' | 'viewer';
+  currentUserRole?: 'owner' | CollaboratorRole;
   owner: {
     clerkId: string;
     username: string;
     imageUrl?: string;
     displayName?: string;
   };
+  ownershipTransfer?: ListOwnershipTransfer;
 }
 
 export function CollaboratorManagement({ 
@@ -75,7 +78,8 @@ export function CollaboratorManagement({
   onClose,
   onVisibilityChange,
   currentUserRole,
-  owner
+  owner,
+  ownershipTransfer
 }: CollaboratorManagementProps) {
   const { user: currentUser } = useAuthService();
   const userId = currentUser?.id;
@@ -619,6 +623,16 @@ export function CollaboratorManagement({
                   </div>
                 )}
               </div>
+
+              {isOwner && !isLoadingCollaborators && (
+                <OwnershipTransferSection
+                  listId={listId}
+                  candidates={filteredCollaborators.filter(c =>
+                    c.status === 'accepted' && !c._isEmailInvite && c.clerkId && c.clerkId !== owner.clerkId
+                  )}
+                  transfer={ownershipTransfer}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { categoryIcons } from "@/components/lists/category-icon";
+import { CATEGORY_ICONS, type CategoryIcon, type UserCategory } from "@/types/category";
+
+interface CreateCategoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (category: UserCategory) => void;
+}
+
+const DEFAULT_COLOR = "#6366f1";
+
+export function CreateCategoryDialog({ open, onOpenChange, onCreated }: CreateCategoryDialogProps) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [icon, setIcon] = useState<CategoryIcon>("tag");
+  const [isSaving, setIsSaving] = useState(false);
+
+  function reset() {
+    setName("");
+    setColor(DEFAULT_COLOR);
+    setIcon("tag");
+  }
+
+  async function createCategory() {
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/categories", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), color, icon }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create category");
+      }
+
+      onCreated(data.category);
+      onOpenChange(false);
+      reset();
+      toast.success("Category created");
+    } catch (error) {
+      console.error("Error creating category:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create category");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New category</DialogTitle>
+          <DialogDescription>
+            Create your own category to group lists that don&apos;t fit the built-in ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="category-name">Name</Label>
+            <Input
+              id="category-name"
+              placeholder="e.g. Podcasts"
+              maxLength={40}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-color">Color</Label>
+            <Input
+              id="category-color"
+              type="color"
+              className="h-10 w-20 p-1"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="grid grid-cols-8 gap-2">
+              {CATEGORY_ICONS.map((name) => {
+                const Icon = categoryIcons[name];
+                return (
+                  <button
+                    key={name}
+                    type="button"
+                    aria-label={name}
+                    aria-pressed={icon === name}
+                    onClick={() => setIcon(name)}
+                    className={cn(
+                      "flex h-9 w-9 items-center justify-center rounded-md border transition-colors hover:bg-muted",
+                      icon === name && "border-primary bg-muted"
+                    )}
+                    style={icon === name ? { color } : undefined}
+                  >
+                    <Icon className="h-4 w-4" />
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={createCategory}
+            disabled={isSaving || name.trim().length === 0}
+          >
+            {isSaving ? "Creating..." : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,6 +22,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { toast } from "sonner";
+import { TRASH_RETENTION_DAYS } from "@/lib/utils/list-trash";
 
 interface DeleteListButtonProps {
   listId: string;
@@ -42,7 +43,7 @@ export function DeleteListButton({ listId }: DeleteListButtonProps) {
         throw new Error("Failed to delete list");
       }
 
-      toast.success("List deleted successfully");
+      toast.success("List moved to trash");
       router.push("/profile/lists");
       router.refresh();
     } catch (error) {
@@ -80,7 +81,8 @@ export function DeleteListButton({ listId }: DeleteListButtonProps) {
         <AlertDialogHeader>
           <AlertDialogTitle>Are you sure?</AlertDialogTitle>
           <AlertDialogDescription>
-            This action cannot be undone. This will permanently delete your list.
+            The list will be moved to the trash. You can restore it from there
+            within {TRASH_RETENTION_DAYS} days, after which it&apos;s permanently deleted.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
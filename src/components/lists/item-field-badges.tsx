@@ -0,0 +1,35 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { formatItemFieldValue, presentItemFields } from "@/lib/utils/item-fields";
+import type { ItemFieldValues, ListCategory } from "@/types/list";
+
+interface ItemFieldBadgesProps {
+  category?: ListCategory;
+  fields?: ItemFieldValues;
+  className?: string;
+}
+
+// An item's structured fields, e.g. a film's year, director and rating
+export function ItemFieldBadges({ category, fields, className }: ItemFieldBadgesProps) {
+  const present = presentItemFields(category, fields);
+  if (present.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1.5", className)}>
+      {present.map(({ field, value }) => (
+        <Badge key={field.key} variant="secondary" className="font-normal">
+          {field.kind === 'rating' ? (
+            <span aria-label={`${value} out of 5`} className="text-amber-500">
+              {formatItemFieldValue(field, value)}
+            </span>
+          ) : (
+            <>
+              <span className="mr-1 text-muted-foreground">{field.label}:</span>
+              {formatItemFieldValue(field, value)}
+            </>
+          )}
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { itemFieldsFor, isFilterableItemField, starRating } from "@/lib/utils/item-fields";
+import { MAX_RATING, type ItemFieldDefinition } from "@/types/item-fields";
+import type { ItemFieldValues, ListCategory } from "@/types/list";
+
+// "position" keeps the list's own order, otherwise "<field>:asc" or "<field>:desc"
+export type ItemFieldSort = 'position' | `${string}:${'asc' | 'desc'}`;
+
+interface ItemFieldControlsProps {
+  category: ListCategory;
+  // Field values of every item, for the filter options
+  values: Array<ItemFieldValues | undefined>;
+  sort: ItemFieldSort;
+  onSortChange: (sort: ItemFieldSort) => void;
+  filters: Record<string, string>;
+  onFiltersChange: (filters: Record<string, string>) => void;
+}
+
+const ANY_VALUE = "__any__";
+
+function sortLabels(field: ItemFieldDefinition) {
+  if (field.kind === 'text' || field.kind === 'choice') {
+    return { asc: `${field.label} (A to Z)`, desc: `${field.label} (Z to A)` };
+  }
+  return { asc: `${field.label} (low to high)`, desc: `${field.label} (high to low)` };
+}
+
+// The values an item in the list has for a field, without repeats
+function filterOptions(field: ItemFieldDefinition, values: Array<ItemFieldValues | undefined>) {
+  if (field.kind === 'rating') {
+    return Array.from({ length: MAX_RATING }, (_, i) => MAX_RATING - i)
+      .map(rating => ({ value: String(rating), label: rating === MAX_RATING ? starRating(rating) : `${starRating(rating)} & up` }));
+  }
+
+  const seen = new Map<string, string>();
+  values.forEach(itemValues => {
+    const value = itemValues?.[field.key];
+    if (value === undefined || value === '') return;
+    const key = String(value).toLowerCase();
+    if (!seen.has(key)) seen.set(key, String(value));
+  });
+  const options = Array.from(seen.values());
+  if (field.kind === 'choice') {
+    options.sort((a, b) => (field.options || []).indexOf(a) - (field.options || []).indexOf(b));
+  } else {
+    options.sort((a, b) => a.localeCompare(b));
+  }
+  return options.map(value => ({ value, label: value }));
+}
+
+export function ItemFieldControls({
+  category,
+  values,
+  sort,
+  onSortChange,
+  filters,
+  onFiltersChange
+}: ItemFieldControlsProps) {
+  const fields = itemFieldsFor(category);
+  const hasValues = (field: ItemFieldDefinition) => values.some(itemValues => itemValues?.[field.key] !== undefined);
+  const filterable = fields.filter(field => isFilterableItemField(field) && hasValues(field));
+  const isFiltered = Object.values(filters).some(Boolean);
+
+  if (!fields.some(hasValues)) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={sort} onValueChange={value => onSortChange(value as ItemFieldSort)}>
+        <SelectTrigger className="h-8 w-auto gap-2 text-sm" aria-label="Sort items">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="position">List order</SelectItem>
+          {fields.filter(hasValues).flatMap(field => {
+            const labels = sortLabels(field);
+            return [
+              <SelectItem key={`${field.key}:asc`} value={`${field.key}:asc`}>{labels.asc}</SelectItem>,
+              <SelectItem key={`${field.key}:desc`} value={`${field.key}:desc`}>{labels.desc}</SelectItem>
+            ];
+          })}
+        </SelectContent>
+      </Select>
+
+      {filterable.map(field => (
+        <Select
+          key={field.key}
+          value={filters[field.key] || ANY_VALUE}
+          onValueChange={value => onFiltersChange({ ...filters, [field.key]: value === ANY_VALUE ? '' : value })}
+        >
+          <SelectTrigger className="h-8 w-auto gap-2 text-sm" aria-label={`Filter by ${field.label.toLowerCase()}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_VALUE}>Any {field.label.toLowerCase()}</SelectItem>
+            {filterOptions(field, values).map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ))}
+
+      {isFiltered && (
+        <Button type="button" variant="ghost" size="sm" className="h-8" onClick={() => onFiltersChange({})}>
+          <X className="mr-1 h-4 w-4" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
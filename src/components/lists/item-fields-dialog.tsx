@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { itemFieldsFor, starRating } from "@/lib/utils/item-fields";
+import { listETag } from "@/lib/utils/list-version";
+import { MAX_RATING, type ItemFieldDefinition } from "@/types/item-fields";
+import type { ItemFieldValues, ListCategory, ListItem } from "@/types/list";
+
+interface ItemFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listId: string;
+  category: ListCategory;
+  item: Pick<ListItem, 'id' | 'title' | 'fields'>;
+  // The list version the item was loaded at, sent so edits can't overwrite
+  // newer changes
+  version: number;
+  onSaved: (item: ListItem, version: number) => void;
+}
+
+// Select items can't have an empty value
+const NO_VALUE = "__none__";
+
+const RATINGS = Array.from({ length: MAX_RATING * 2 }, (_, i) => (i + 1) / 2);
+
+const toInputValues = (fields?: ItemFieldValues) =>
+  Object.fromEntries(Object.entries(fields || {}).map(([key, value]) => [key, String(value)]));
+
+function FieldInput({
+  field,
+  value,
+  onChange
+}: {
+  field: ItemFieldDefinition;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const id = `item-field-${field.key}`;
+
+  if (field.kind === 'rating' || field.kind === 'choice') {
+    const options = field.kind === 'rating'
+      ? RATINGS.map(rating => ({ value: String(rating), label: starRating(rating) }))
+      : (field.options || []).map(option => ({ value: option, label: option }));
+
+    return (
+      <Select value={value || NO_VALUE} onValueChange={next => onChange(next === NO_VALUE ? '' : next)}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_VALUE}>Not set</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      id={id}
+      type={field.kind === 'number' ? 'number' : 'text'}
+      min={field.min}
+      max={field.max}
+      maxLength={field.maxLength}
+      placeholder={field.unit ? `In ${field.unit}` : undefined}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
+
+export function ItemFieldsDialog({ open, onOpenChange, listId, category, item, version, onSaved }: ItemFieldsDialogProps) {
+  const fields = itemFieldsFor(category);
+  const [values, setValues] = useState<Record<string, string>>(() => toInputValues(item.fields));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setValues(toInputValues(item.fields));
+  }, [open, item.fields]);
+
+  async function saveFields() {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/lists/${listId}/items/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", "If-Match": listETag(version) },
+        body: JSON.stringify({ fields: values }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        const fieldErrors = Object.values(data.details?.fieldErrors || {}).flat();
+        throw new Error((fieldErrors[0] as string) || data.error || "Failed to save details");
+      }
+
+      onSaved(data.item, data.version);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving item fields:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save details");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Details</DialogTitle>
+          <DialogDescription className="truncate">{item.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {fields.map(field => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`item-field-${field.key}`}>{field.label}</Label>
+              <FieldInput
+                field={field}
+                value={values[field.key] || ''}
+                onChange={value => setValues(prev => ({ ...prev, [field.key]: value }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={saveFields} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
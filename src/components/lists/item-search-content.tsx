@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { CornerDownRight, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+import { ListTabs } from "@/components/layout/nav/list-tabs";
+import { CategoryBadge } from "@/components/lists/category-badge";
+import { MIN_ITEM_SEARCH_LENGTH, escapeRegex } from "@/lib/utils/item-search";
+import type { ItemSearchResult } from "@/types/list";
+
+// Wraps each occurrence of the query in a <mark>
+function HighlightedText({ text, query }: { text: string; query: string }) {
+  const parts = text.split(new RegExp(`(${escapeRegex(query)})`, 'i'));
+  return (
+    <>
+      {parts.map((part, i) => i % 2 === 1 ? (
+        <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+          {part}
+        </mark>
+      ) : (
+        <span key={i}>{part}</span>
+      ))}
+    </>
+  );
+}
+
+interface ItemSearchContentProps {
+  initialQuery?: string;
+}
+
+export function ItemSearchContent({ initialQuery = "" }: ItemSearchContentProps) {
+  const pathname = usePathname();
+  const [query, setQuery] = useState(initialQuery);
+  const [results, setResults] = useState<ItemSearchResult[] | null>(null);
+  // Whether more lists matched than one search returns
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const term = query.trim();
+
+  useEffect(() => {
+    if (term.length < MIN_ITEM_SEARCH_LENGTH) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    // Wait for a pause in typing before searching
+    const timeout = setTimeout(async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/lists/search/items?q=${encodeURIComponent(term)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to search items");
+        }
+        if (!cancelled) {
+          setResults(data.results);
+          setHasMore(Boolean(data.hasMore));
+        }
+      } catch (error) {
+        console.error("Error searching items:", error);
+        if (!cancelled) {
+          setResults([]);
+          setHasMore(false);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+      // Keep the search in the URL so going back to it restores the results,
+      // without reloading the page
+      window.history.replaceState(null, "", `${pathname}?q=${encodeURIComponent(term)}`);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [term, pathname]);
+
+  const backPath = `${pathname}?q=${encodeURIComponent(term)}`;
+  const matchCount = results?.reduce((count, result) => count + result.matches.length, 0) || 0;
+
+  return (
+    <div className="relative">
+      <ListTabs />
+      <div className="px-4 md:px-6 lg:px-8 pt-4 pb-20 sm:pb-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              autoFocus
+              type="search"
+              placeholder="Find items in your lists, collabs and pinned lists"
+              className="pl-9"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+
+          {isLoading && !results ? (
+            <div className="flex justify-center py-8"><Spinner /></div>
+          ) : results === null ? (
+            <p className="py-8 text-center text-muted-foreground">
+              Search item titles, comments and sub-items across your library.
+            </p>
+          ) : results.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">No items match &ldquo;{term}&rdquo;</p>
+          ) : (
+            <div className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                {matchCount} {matchCount === 1 ? "item" : "items"} in {results.length} {results.length === 1 ? "list" : "lists"}
+                {hasMore && ", from your most recently edited lists. Try a longer search to narrow it down."}
+              </p>
+              {results.map(({ list, matches }) => (
+                <section key={list.id} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Link
+                      href={`/lists/${list.id}?from=${encodeURIComponent(backPath)}`}
+                      className="font-semibold hover:underline"
+                    >
+                      {list.title}
+                    </Link>
+                    <CategoryBadge category={list.category} info={list.categoryInfo} />
+                    <span className="text-sm text-muted-foreground">@{list.ownerUsername}</span>
+                  </div>
+                  <ul className="divide-y rounded-md border">
+                    {matches.map(match => (
+                      <li key={match.itemId}>
+                        <Link
+                          href={`/lists/${list.id}?item=${match.itemId}&from=${encodeURIComponent(backPath)}`}
+                          className="block space-y-1 p-3 transition-colors hover:bg-accent"
+                        >
+                          <div className="font-medium">
+                            <HighlightedText text={match.title} query={term} />
+                          </div>
+                          {match.comment && (
+                            <p className="text-sm text-muted-foreground line-clamp-2">
+                              <HighlightedText text={match.comment} query={term} />
+                            </p>
+                          )}
+                          {match.childTitles.map((title, i) => (
+                            <div key={i} className="flex items-center gap-1 pl-2 text-sm text-muted-foreground">
+                              <CornerDownRight className="h-3 w-3 shrink-0" />
+                              <HighlightedText text={title} query={term} />
+                            </div>
+                          ))}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
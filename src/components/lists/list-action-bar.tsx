@@ -1,7 +1,8 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
-import { Share2, Pin, Copy } from "lucide-react";
+import { Share2, Pin, Copy, Download, FileText, Sheet, Braces, Printer } from "lucide-react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { useState } from "react";
@@ -12,6 +13,19 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+const EXPORT_OPTIONS = [
+  { format: 'md', label: 'Markdown', icon: FileText },
+  { format: 'csv', label: 'CSV spreadsheet', icon: Sheet },
+  { format: 'json', label: 'JSON', icon: Braces },
+] as const;
 
 interface ListActionBarProps {
   listId: string;
@@ -151,6 +165,38 @@ export default function ListActionBar({
             <p>Copy list</p>
           </TooltipContent>
         </Tooltip>
+
+        <DropdownMenu>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="icon">
+                  <Download className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Export list</p>
+            </TooltipContent>
+          </Tooltip>
+          <DropdownMenuContent align="end">
+            {EXPORT_OPTIONS.map(({ format, label, icon: Icon }) => (
+              <DropdownMenuItem key={format} asChild>
+                <a href={`/api/lists/${listId}/export?format=${format}`} download>
+                  <Icon className="mr-2 h-4 w-4" />
+                  {label}
+                </a>
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem asChild>
+              <Link href={`/lists/${listId}/print`}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print
+              </Link>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     </TooltipProvider>
   );
@@ -0,0 +1,280 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Activity, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  ListActivityActor,
+  ListActivityCategory,
+  ListActivityEntry,
+  ListActivityPage,
+  ListActivitySubject
+} from "@/types/list-activity";
+
+interface ListActivityTimelineProps {
+  listId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CATEGORY_LABELS: Record<ListActivityCategory, string> = {
+  items: 'Items',
+  details: 'Title and details',
+  visibility: 'Visibility',
+  collaborators: 'Collaborators',
+  copies: 'Copies',
+  pins: 'Pins',
+  trash: 'Trash'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  type: 'type',
+  comment: 'comment',
+  childItems: 'sub-items',
+  fields: 'details',
+  recipe: 'recipe',
+  description: 'description',
+  category: 'category',
+  tags: 'tags',
+  listType: 'list type'
+};
+
+// Filter values for everyone and every kind of activity. Select items can't
+// have an empty value.
+const ALL = 'all';
+
+const subjectName = (subject?: ListActivitySubject) =>
+  subject?.username ? `@${subject.username}` : subject?.email || 'someone';
+
+const fieldList = (fields?: string[]) =>
+  (fields || []).map(field => FIELD_LABELS[field] || field).join(', ');
+
+const Quoted = ({ children }: { children?: string }) => (
+  <span className="font-medium">&ldquo;{children}&rdquo;</span>
+);
+
+// What the person did, phrased to follow their name
+function ActivityDescription({ entry }: { entry: ListActivityEntry }) {
+  switch (entry.type) {
+    case 'item.added':
+      return <>added <Quoted>{entry.itemTitle}</Quoted></>;
+    case 'item.removed':
+      return <>removed <Quoted>{entry.itemTitle}</Quoted></>;
+    case 'item.renamed':
+      return <>renamed <Quoted>{entry.from}</Quoted> to <Quoted>{entry.to}</Quoted></>;
+    case 'item.checked':
+      return <>checked off <Quoted>{entry.itemTitle}</Quoted></>;
+    case 'item.unchecked':
+      return <>unchecked <Quoted>{entry.itemTitle}</Quoted></>;
+    case 'item.edited':
+      return <>edited the {fieldList(entry.fields)} of <Quoted>{entry.itemTitle}</Quoted></>;
+    case 'items.reordered':
+      return <>reordered the items</>;
+    case 'list.renamed':
+      return <>renamed the list from <Quoted>{entry.from}</Quoted> to <Quoted>{entry.to}</Quoted></>;
+    case 'list.edited':
+      return <>changed the list&apos;s {fieldList(entry.fields)}</>;
+    case 'list.visibility':
+      return <>made the list {entry.to} (was {entry.from})</>;
+    case 'collaborator.added':
+      return <>added {subjectName(entry.subject)} as {entry.to}</>;
+    case 'collaborator.invited':
+      return <>invited {subjectName(entry.subject)} as {entry.to}</>;
+    case 'collaborator.claimed':
+      return <>signed up and picked up the invitation sent to {subjectName(entry.subject)}</>;
+    case 'collaborator.joined':
+      return <>joined as {entry.to}</>;
+    case 'collaborator.declined':
+      return <>declined the invitation</>;
+    case 'collaborator.role':
+      return <>changed {subjectName(entry.subject)}&apos;s role from {entry.from} to {entry.to}</>;
+    case 'collaborator.removed':
+      return <>removed {subjectName(entry.subject)}</>;
+    case 'collaborator.left':
+      return <>left the list</>;
+    case 'ownership.offered':
+      return <>offered ownership to {subjectName(entry.subject)}</>;
+    case 'ownership.withdrawn':
+      return <>withdrew the ownership offer</>;
+    case 'ownership.declined':
+      return <>declined ownership of the list</>;
+    case 'ownership.transferred':
+      return <>took over the list from {subjectName(entry.subject)}</>;
+    case 'list.copied':
+      return <>made a copy of the list</>;
+    case 'list.pinned':
+      return <>pinned the list</>;
+    case 'list.unpinned':
+      return <>unpinned the list</>;
+    case 'list.deleted':
+      return <>moved the list to the trash</>;
+    case 'list.restored':
+      return <>restored the list from the trash</>;
+  }
+}
+
+export function ListActivityTimeline({ listId, open, onOpenChange }: ListActivityTimelineProps) {
+  const [entries, setEntries] = useState<ListActivityEntry[]>([]);
+  const [people, setPeople] = useState<ListActivityActor[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [actor, setActor] = useState(ALL);
+  const [category, setCategory] = useState(ALL);
+
+  const fetchPage = useCallback(async (cursor?: string) => {
+    const query = new URLSearchParams({
+      ...(cursor && { cursor }),
+      ...(actor !== ALL && { actor }),
+      ...(category !== ALL && { category })
+    });
+    const response = await fetch(`/api/lists/${listId}/activity?${query}`);
+    if (!response.ok) throw new Error();
+    return await response.json() as ListActivityPage;
+  }, [listId, actor, category]);
+
+  // Start again from the newest entry whenever the sheet opens or a filter
+  // changes
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setEntries([]);
+    fetchPage()
+      .then(page => {
+        if (cancelled) return;
+        setEntries(page.entries);
+        setNextCursor(page.nextCursor);
+        setHasMore(page.hasMore);
+        // Keep everyone in the person filter while it's narrowed to one
+        if (page.people && actor === ALL) setPeople(page.people);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error("Failed to load activity");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, fetchPage, actor]);
+
+  const loadMore = async () => {
+    setIsLoading(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      setEntries(prev => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      toast.error("Failed to load activity");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-[440px] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Activity className="h-4 w-4" />
+            Activity
+          </SheetTitle>
+          <SheetDescription>
+            Everything that has happened to this list, newest first.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2 py-4">
+          <Select value={actor} onValueChange={setActor}>
+            <SelectTrigger>
+              <SelectValue placeholder="Everyone" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everyone</SelectItem>
+              {people.map(person => (
+                <SelectItem key={person.clerkId} value={person.clerkId}>
+                  {person.username ? `@${person.username}` : 'Unknown user'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger>
+              <SelectValue placeholder="All activity" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All activity</SelectItem>
+              {(Object.keys(CATEGORY_LABELS) as ListActivityCategory[]).map(value => (
+                <SelectItem key={value} value={value}>
+                  {CATEGORY_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {entries.length === 0 ? (
+          isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {actor === ALL && category === ALL
+                ? "No activity yet. Changes are recorded from now on."
+                : "No activity matches these filters."}
+            </p>
+          )
+        ) : (
+          <div className="space-y-4">
+            <ol className="relative space-y-4 border-l pl-4">
+              {entries.map(entry => (
+                <li key={entry.id} className="relative text-sm">
+                  <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-muted-foreground" />
+                  <div>
+                    <span className="font-medium">
+                      {entry.actor.username ? `@${entry.actor.username}` : 'Unknown user'}
+                    </span>{' '}
+                    <ActivityDescription entry={entry} />
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                  </div>
+                </li>
+              ))}
+            </ol>
+            {hasMore && (
+              <div className="flex justify-center">
+                <Button variant="outline" size="sm" onClick={loadMore} disabled={isLoading}>
+                  {isLoading && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,16 +1,27 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { ListCategory } from "@/types/list";
+import { EnhancedList, LIST_CATEGORIES, ListCategory, ListChildItem, ListItemType, ListType } from "@/types/list";
+import type { UserCategory } from "@/types/category";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import * as z from "zod";
-import { Loader2, Globe, Lock, EyeOff } from "lucide-react";
+import { Loader2, Globe, Lock, EyeOff, Plus, FileUp } from "lucide-react";
 import { useAuth, useUser } from "@clerk/nextjs";
-import { cn } from "@/lib/utils";
-import { updateList } from "@/lib/actions/list";
+import { listETag } from "@/lib/utils/list-version";
+import { mergeField, mergeListItems } from "@/lib/utils/list-merge";
+import { useListEvents } from "@/hooks/use-list-events";
+import type { ListChangeEvent } from "@/types/list-realtime";
+import { ListPresence } from "@/components/lists/list-presence";
+import { CategoryLabel } from "@/components/lists/category-label";
+import { CreateCategoryDialog } from "@/components/lists/create-category-dialog";
+import { TagInput } from "@/components/lists/tag-input";
+import { ListImportDialog } from "@/components/lists/list-import-dialog";
+import { createItemId, itemTagField, itemTypeField } from "@/lib/utils/list-items";
+import type { ListImportPreview } from "@/types/list-import";
+import { MAX_LIST_TAGS } from "@/lib/utils/list-tags";
 
 import {
   Form,
@@ -26,20 +37,30 @@ import {
   Select,
   SelectContent,
   SelectItem,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { TaskListEditor } from '@/components/editor/task-list-editor'
 
 interface SavedTaskItem {
   id: string;
+  type?: ListItemType;
   title: string;
+  comment?: string;
   checked: boolean;
   tag?: string;
-  childItems?: Array<{
-    title: string;
-    tag?: string;
-  }>;
+  childItems?: ListChildItem[];
 }
 
 export interface ListFormProps {
@@ -50,16 +71,22 @@ export interface ListFormProps {
     title: string;
     description?: string;
     category: ListCategory;
+    tags?: string[];
     visibility: 'public' | 'private' | 'unlisted';
+    listType?: ListType;
+    version?: number;
+    owner?: {
+      clerkId?: string;
+      username?: string;
+    };
     items: Array<{
       id: string;
+      type?: ListItemType;
       title: string;
       comment?: string;
       completed?: boolean;
-      childItems?: Array<{
-        title: string;
-        tag?: string;
-      }>;
+      tag?: string;
+      childItems?: ListChildItem[];
     }>;
   };
 }
@@ -68,49 +95,96 @@ const formSchema = z.object({
   title: z.string()
     .min(3, "Title must be at least 3 characters long")
     .max(100, "Title cannot exceed 100 characters"),
-  category: z.enum([
-    "movies",
-    "tv-shows",
-    "books",
-    "restaurants",
-    "recipes",
-    "things-to-do",
-    "other"
-  ] as const),
+  // Built-in or one of the owner's own categories, checked by the server
+  category: z.string().min(1, "Choose a category"),
   description: z.string()
     .max(500, "Description cannot exceed 500 characters")
     .optional(),
+  tags: z.array(z.string()).max(MAX_LIST_TAGS),
   visibility: z.enum(["public", "unlisted", "private"] as const),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
-const FORM_CATEGORIES = [
-  "movies",
-  "tv-shows",
-  "books",
-  "restaurants",
-  "recipes",
-  "things-to-do",
-  "other"
-] as const;
+interface ListPayload extends FormData {
+  listType: ListType;
+  items: Array<{
+    id: string;
+    type?: ListItemType;
+    title: string;
+    comment?: string;
+    checked: boolean;
+    tag?: string;
+    childItems?: SavedTaskItem['childItems'];
+  }>;
+}
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+const toPayloadItems = (items: SavedTaskItem[]): ListPayload['items'] =>
+  items.map(item => ({
+    id: item.id,
+    ...itemTypeField(item),
+    title: item.title,
+    comment: item.comment,
+    checked: item.checked,
+    ...itemTagField(item),
+    childItems: item.childItems
+  }));
+
+// mergeListItems works on `completed`, so map the editor's `checked` across
+function mergeTaskItems(base: SavedTaskItem[], mine: SavedTaskItem[], theirs: SavedTaskItem[]) {
+  const toMergeable = (items: SavedTaskItem[]) =>
+    items.map(item => ({ ...item, completed: item.checked }));
+  return mergeListItems(
+    toMergeable(base),
+    toMergeable(mine),
+    toMergeable(theirs)
+  ).map(({ completed, ...item }) => ({ ...item, checked: Boolean(completed) }));
+}
+
+const toTaskItems = (items: NonNullable<ListFormProps['defaultValues']>['items']): SavedTaskItem[] =>
+  items.map(item => ({
+    id: item.id,
+    ...itemTypeField(item),
+    title: item.title,
+    comment: item.comment,
+    checked: item.completed || false,
+    ...itemTagField(item),
+    childItems: item.childItems || []
+  }));
+
+const NEW_CATEGORY_VALUE = "__new-category__";
 
 export function ListFormContent({ defaultValues, mode = 'create', returnPath }: ListFormProps) {
   const router = useRouter();
   const { isSignedIn } = useAuth();
   const { user } = useUser();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [taskItems, setTaskItems] = useState<SavedTaskItem[]>(() => {
-    if (defaultValues?.items) {
-      return defaultValues.items.map(item => ({
-        id: item.id,
-        title: item.title,
-        checked: item.completed || false,
-        childItems: item.childItems || []
-      }));
-    }
-    return [];
+  const [customCategories, setCustomCategories] = useState<UserCategory[]>([]);
+  const [showCreateCategory, setShowCreateCategory] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  // Lists can only use their owner's categories, so collaborators see the owner's
+  const categoryOwnerId = mode === 'edit' ? defaultValues?.owner?.clerkId : user?.id;
+  const canCreateCategory = Boolean(user?.id) && categoryOwnerId === user?.id;
+  const [taskItems, setTaskItems] = useState<SavedTaskItem[]>(() =>
+    defaultValues?.items ? toTaskItems(defaultValues.items) : []
+  );
+  const taskItemsRef = useRef(taskItems);
+  // Merged-in changes from collaborators, pushed into the editor
+  const [externalItems, setExternalItems] = useState<SavedTaskItem[]>();
+  // The version and content last synced with the server, used to detect and
+  // merge concurrent edits
+  const versionRef = useRef(defaultValues?.version || 0);
+  const baseRef = useRef({
+    title: defaultValues?.title || "",
+    description: defaultValues?.description || "",
+    items: defaultValues?.items ? toTaskItems(defaultValues.items) : []
   });
+  const [conflict, setConflict] = useState<{ list: EnhancedList; payload: ListPayload } | null>(null);
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const isAutosavingRef = useRef(false);
+  const itemsDirtyRef = useRef(false);
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -118,6 +192,7 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
       title: defaultValues?.title || "",
       category: (defaultValues?.category === 'all' ? 'movies' : defaultValues?.category) || "movies",
       description: defaultValues?.description || "",
+      tags: defaultValues?.tags || [],
       visibility: defaultValues?.visibility || "public",
     }
   });
@@ -128,15 +203,158 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
         title: defaultValues.title,
         category: defaultValues.category === 'all' ? 'movies' : defaultValues.category,
         description: defaultValues.description || "",
+        tags: defaultValues.tags || [],
         visibility: defaultValues.visibility,
       });
     }
   }, [form, defaultValues]);
 
-  const handleTaskItemsChange = (items: SavedTaskItem[]) => {
+  const replaceTaskItems = (items: SavedTaskItem[]) => {
+    taskItemsRef.current = items;
     setTaskItems(items);
   };
 
+  // Item edits are saved as they happen while editing, so collaborators
+  // see them live
+  const autosaveItems = async () => {
+    if (mode !== 'edit' || !defaultValues?.id || isAutosavingRef.current) return;
+    const items = taskItemsRef.current;
+    if (!itemsDirtyRef.current || items.length === 0) return;
+
+    isAutosavingRef.current = true;
+    itemsDirtyRef.current = false;
+    try {
+      const response = await fetch(`/api/lists/${defaultValues.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'If-Match': listETag(versionRef.current),
+        },
+        body: JSON.stringify({ items: toPayloadItems(items) }),
+      });
+
+      if (response.status === 409) {
+        // Someone saved first: merge their items in and try again
+        const data = await response.json();
+        applyRemoteItems(toTaskItems(data.list.items || []), data.list.version);
+        itemsDirtyRef.current = true;
+      } else if (!response.ok) {
+        throw new Error('Failed to save items');
+      } else {
+        const data = await response.json();
+        versionRef.current = Math.max(versionRef.current, data.list.version);
+        baseRef.current.items = toTaskItems(data.list.items || []);
+      }
+    } catch (error) {
+      console.error('Error saving items:', error);
+      itemsDirtyRef.current = true;
+      toast.error("Failed to save your latest changes");
+      return;
+    } finally {
+      isAutosavingRef.current = false;
+    }
+
+    if (itemsDirtyRef.current) {
+      scheduleAutosave();
+    }
+  };
+
+  const scheduleAutosave = () => {
+    clearTimeout(autosaveTimerRef.current);
+    autosaveTimerRef.current = setTimeout(autosaveItems, AUTOSAVE_DELAY_MS);
+  };
+
+  useEffect(() => () => clearTimeout(autosaveTimerRef.current), []);
+
+  // Merges saved items from the server into the local, possibly unsaved, items
+  const applyRemoteItems = (theirs: SavedTaskItem[], version: number) => {
+    const mine = taskItemsRef.current;
+    const merged = mergeTaskItems(baseRef.current.items, mine, theirs);
+
+    baseRef.current.items = theirs;
+    versionRef.current = version;
+
+    if (JSON.stringify(merged) !== JSON.stringify(mine)) {
+      replaceTaskItems(merged);
+      setExternalItems(merged);
+    }
+    if (JSON.stringify(merged) !== JSON.stringify(theirs)) {
+      itemsDirtyRef.current = true;
+      scheduleAutosave();
+    }
+  };
+
+  const handleRemoteChange = (event: ListChangeEvent) => {
+    // Our own saves come back with a version we already have
+    if (event.version <= versionRef.current) return;
+
+    // The owner, roles and category the form was loaded with no longer
+    // apply, so start again from the saved list
+    if (event.change === 'list.transferred') {
+      toast.info("This list has a new owner. Reloading.");
+      window.location.reload();
+      return;
+    }
+
+    applyRemoteItems(toTaskItems(event.items), event.version);
+
+    const base = baseRef.current;
+    form.setValue('title', mergeField(base.title, form.getValues('title'), event.title));
+    form.setValue('description', mergeField(base.description, form.getValues('description') || "", event.description || ""));
+    base.title = event.title;
+    base.description = event.description || "";
+  };
+
+  // An existing list's categories come from its owner, which the server
+  // looks up from the list
+  const categoryListId = mode === 'edit' ? defaultValues?.id : undefined;
+  useEffect(() => {
+    if (!categoryOwnerId) return;
+
+    fetch(categoryListId ? `/api/categories?listId=${encodeURIComponent(categoryListId)}` : '/api/categories')
+      .then(response => response.ok ? response.json() : { categories: [] })
+      .then(data => setCustomCategories(data.categories || []))
+      .catch(error => console.error('Error loading categories:', error));
+  }, [categoryOwnerId, categoryListId]);
+
+  const { presence } = useListEvents(mode === 'edit' ? defaultValues?.id : undefined, {
+    editing: true,
+    onChange: handleRemoteChange
+  });
+
+  const handleTaskItemsChange = (items: SavedTaskItem[]) => {
+    replaceTaskItems(items);
+    if (mode === 'edit') {
+      itemsDirtyRef.current = true;
+      scheduleAutosave();
+    }
+  };
+
+  // Fills the form from an import so it can be reviewed before creating
+  const handleUseImportedItems = (preview: ListImportPreview) => {
+    if (!form.getValues('title') && preview.title) {
+      form.setValue('title', preview.title.slice(0, 100));
+    }
+    if (!form.getValues('description') && preview.description) {
+      form.setValue('description', preview.description.slice(0, 500));
+    }
+    if (preview.category) {
+      form.setValue('category', preview.category);
+    }
+
+    const items: SavedTaskItem[] = preview.items.map(item => ({
+      id: createItemId(),
+      ...itemTypeField(item),
+      title: item.title,
+      comment: item.comment,
+      checked: Boolean(item.completed),
+      ...itemTagField(item),
+      childItems: item.childItems || []
+    }));
+    replaceTaskItems(items);
+    setExternalItems(items);
+  };
+
   const onSubmit = async (data: z.infer<typeof formSchema>) => {
     if (!isSignedIn || !user?.username) {
       toast.error("Please sign in to create a list");
@@ -148,26 +366,26 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
       return;
     }
 
+    const payload: ListPayload = {
+      title: data.title,
+      category: data.category,
+      description: data.description,
+      tags: data.tags,
+      visibility: data.visibility,
+      listType: defaultValues?.listType || 'ordered',
+      items: toPayloadItems(taskItems)
+    };
+
+    clearTimeout(autosaveTimerRef.current);
+    await saveList(payload, versionRef.current);
+  };
+
+  const saveList = async (payload: ListPayload, expectedVersion: number) => {
     setIsSubmitting(true);
 
     try {
-      const payload = {
-        title: data.title,
-        category: data.category,
-        description: data.description,
-        visibility: data.visibility,
-        listType: 'ordered',
-        items: taskItems.map(item => ({
-          id: item.id,
-          title: item.title,
-          checked: item.checked,
-          childItems: item.childItems
-        }))
-      };
-
       let result;
       if (mode === 'create') {
-        // TODO: Implement create list server action
         const response = await fetch('/api/lists', {
           method: 'POST',
           headers: {
@@ -182,18 +400,32 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
 
         result = await response.json();
       } else {
-        // Use the server action for updates
         if (!defaultValues?.id) {
           throw new Error('List ID is required for updates');
         }
 
-        result = await updateList(defaultValues.id, {
-          title: payload.title,
-          description: payload.description,
-          category: payload.category,
-          privacy: payload.visibility,
-          items: payload.items
+        const response = await fetch(`/api/lists/${defaultValues.id}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'If-Match': listETag(expectedVersion),
+          },
+          body: JSON.stringify(payload),
         });
+
+        if (response.status === 409) {
+          const data = await response.json();
+          setConflict({ list: data.list, payload });
+          return;
+        }
+
+        if (!response.ok) {
+          throw new Error('Failed to update list');
+        }
+
+        result = (await response.json()).list;
+        versionRef.current = result.version;
+        itemsDirtyRef.current = false;
       }
 
       toast.success(mode === 'create' ? "List created successfully!" : "List updated successfully!");
@@ -207,6 +439,27 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
     }
   };
 
+  const handleOverwrite = async () => {
+    if (!conflict) return;
+    const { list, payload } = conflict;
+    setConflict(null);
+    await saveList(payload, list.version);
+  };
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    const { list, payload } = conflict;
+    const base = baseRef.current;
+
+    form.setValue('title', mergeField(base.title, payload.title, list.title));
+    form.setValue('description', mergeField(base.description, payload.description || "", list.description || ""));
+    applyRemoteItems(toTaskItems(list.items || []), list.version);
+    base.title = list.title;
+    base.description = list.description || "";
+    setConflict(null);
+    toast.info("Changes merged. Review the list and save again.");
+  };
+
   const handleDelete = async () => {
     if (!defaultValues?.id) return;
 
@@ -263,8 +516,14 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
               render={({ field }) => (
                 <FormItem className="flex-1">
                   <Select
-                    onValueChange={field.onChange}
-                    defaultValue={field.value}
+                    onValueChange={(value) => {
+                      if (value === NEW_CATEGORY_VALUE) {
+                        setShowCreateCategory(true);
+                        return;
+                      }
+                      field.onChange(value);
+                    }}
+                    value={field.value}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -272,29 +531,28 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {FORM_CATEGORIES.map((category) => (
+                      {LIST_CATEGORIES.map((category) => (
                         <SelectItem key={category} value={category}>
-                          <div className="flex items-center gap-2">
-                            <div className={cn(
-                              "h-3.5 w-3.5 rounded-full shrink-0",
-                              {
-                                'bg-[var(--category-movies)]': category === 'movies',
-                                'bg-[var(--category-tv)]': category === 'tv-shows',
-                                'bg-[var(--category-books)]': category === 'books',
-                                'bg-[var(--category-restaurants)]': category === 'restaurants',
-                                'bg-[var(--category-recipes)]': category === 'recipes',
-                                'bg-[var(--category-activities)]': category === 'things-to-do',
-                                'bg-[var(--category-other)]': category === 'other'
-                              }
-                            )} />
-                            <span>
-                              {category === 'tv-shows' ? 'TV Shows' : 
-                               category === 'things-to-do' ? 'Things to do' :
-                               category.charAt(0).toUpperCase() + category.slice(1)}
-                            </span>
-                          </div>
+                          <CategoryLabel category={category} />
+                        </SelectItem>
+                      ))}
+                      {customCategories.length > 0 && <SelectSeparator />}
+                      {customCategories.map((category) => (
+                        <SelectItem key={category.slug} value={category.slug}>
+                          <CategoryLabel category={category.slug} info={category} />
                         </SelectItem>
                       ))}
+                      {canCreateCategory && (
+                        <>
+                          <SelectSeparator />
+                          <SelectItem value={NEW_CATEGORY_VALUE}>
+                            <div className="flex items-center gap-2">
+                              <Plus className="h-3.5 w-3.5" />
+                              <span>New category</span>
+                            </div>
+                          </SelectItem>
+                        </>
+                      )}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -360,9 +618,29 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="tags"
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <TagInput value={field.value} onChange={field.onChange} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-medium">List Items</h3>
+              <ListPresence users={presence} currentUserId={user?.id} />
+              {mode === 'create' && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setShowImport(true)}>
+                  <FileUp className="mr-2 h-4 w-4" />
+                  Import
+                </Button>
+              )}
             </div>
 
             <div className="space-y-6">
@@ -373,6 +651,7 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
                 </p>
                 <TaskListEditor
                   initialItems={taskItems}
+                  externalItems={externalItems}
                   onChange={handleTaskItemsChange}
                   className="mt-4"
                   category={form.watch('category')}
@@ -407,6 +686,56 @@ export function ListFormContent({ defaultValues, mode = 'create', returnPath }:
           </div>
         </div>
       </form>
+
+      <AlertDialog open={!!conflict} onOpenChange={(open) => !open && setConflict(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>This list was changed by someone else</AlertDialogTitle>
+            <AlertDialogDescription>
+              Someone saved changes since you started editing.
+              Merge keeps both sets of changes so you can review them before saving. Overwrite replaces their changes with yours.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button variant="outline" onClick={handleOverwrite}>
+              Overwrite
+            </Button>
+            <AlertDialogAction onClick={handleMerge}>
+              Merge changes
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {mode === 'create' && (
+        <ListImportDialog
+          open={showImport}
+          onOpenChange={setShowImport}
+          getListFields={() => {
+            const values = form.getValues();
+            return {
+              title: values.title || undefined,
+              description: values.description || undefined,
+              category: values.category,
+              tags: values.tags,
+              visibility: values.visibility
+            };
+          }}
+          onUseItems={handleUseImportedItems}
+        />
+      )}
+
+      <CreateCategoryDialog
+        open={showCreateCategory}
+        onOpenChange={setShowCreateCategory}
+        onCreated={(category) => {
+          setCustomCategories(current =>
+            [...current, category].sort((a, b) => a.name.localeCompare(b.name))
+          );
+          form.setValue('category', category.slug, { shouldDirty: true });
+        }}
+      />
     </Form>
   );
 } 
\ No newline at end of file
@@ -1,17 +1,40 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState, type ReactNode } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useDraggable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  rectSortingStrategy,
+  sortableKeyboardCoordinates,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
 import { ListSearchControls } from "@/components/lists/list-search-controls";
+import { CollectionDropTargets, COLLECTION_DROP_PREFIX } from "@/components/collections/collection-drop-targets";
 import { Card } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Lock, ListChecks, Eye, Pin, PenLine, EyeOff } from "lucide-react";
+import { Lock, ListChecks, Eye, Pin, PenLine, EyeOff, X } from "lucide-react";
 import { CategoryBadge } from "@/components/lists/category-badge";
+import { ListTags } from "@/components/lists/list-tags";
+import { ListProgressBar } from "@/components/lists/list-progress-bar";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
-import { EnhancedList, ListCategory } from "@/types/list";
-import { LIST_CATEGORIES } from "@/types/list";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { EnhancedList, ListCategory, ListCategoryInfo } from "@/types/list";
 import { formatDistanceToNow, differenceInMinutes } from "date-fns";
 import { cn } from "@/lib/utils";
+import type { ListCollection } from "@/types/collection";
 
 interface ListGridProps {
   lists: EnhancedList[];
@@ -21,9 +44,45 @@ interface ListGridProps {
   searchParams?: {
     q?: string;
     category?: string;
+    tag?: string;
     sort?: string;
   };
   showSearch?: boolean;
+  // Filter this grid by a clicked tag instead of opening the tag's page.
+  // Only for pages that apply the `tag` search param.
+  filterByTags?: boolean;
+  customCategories?: Array<ListCategoryInfo & { slug: string }>;
+  // Lets lists be dragged onto one of these collections
+  collections?: ListCollection[];
+  onAddToCollection?: (collectionId: string, listId: string) => void;
+  // Lets the lists be dragged into a new order
+  onReorder?: (listIds: string[]) => void;
+  // Shows a button on each list to take it out of the grid, e.g. a collection
+  onRemove?: (listId: string) => void;
+}
+
+function DraggableCard({ id, children }: { id: string; children: ReactNode }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id });
+  return (
+    <div ref={setNodeRef} {...attributes} {...listeners} className={cn(isDragging && "opacity-50")}>
+      {children}
+    </div>
+  );
+}
+
+function SortableCard({ id, children }: { id: string; children: ReactNode }) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id });
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(isDragging && "relative z-10 opacity-75")}
+    >
+      {children}
+    </div>
+  );
 }
 
 // Add this CSS keyframe animation at the top of the file
@@ -50,22 +109,191 @@ export function ListGrid({
   _isFollowing, 
   lastViewedMap: initialViewedMap = {},
   searchParams,
-  showSearch = false
+  showSearch = false,
+  filterByTags = false,
+  customCategories,
+  collections,
+  onAddToCollection,
+  onReorder,
+  onRemove
 }: ListGridProps) {
   const currentPath = usePathname();
+  const router = useRouter();
+  const currentSearchParams = useSearchParams();
   const [viewedMap, setViewedMap] = useState<Record<string, Date>>(initialViewedMap);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  // Letting go of a dragged card would otherwise open the list
+  const lastDragEndRef = useRef(0);
+
+  const canDropOnCollections = !!onAddToCollection && !!collections?.length;
+  const isDraggable = canDropOnCollections || !!onReorder;
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const category = searchParams?.category as ListCategory | undefined;
+
+  const handleTagClick = (tag: string) => {
+    if (!filterByTags) {
+      router.push(`/tags/${encodeURIComponent(tag)}`);
+      return;
+    }
+    const params = new URLSearchParams(currentSearchParams.toString());
+    params.set('tag', tag);
+    router.push(`?${params.toString()}`);
+  };
 
-  const category = searchParams?.category && LIST_CATEGORIES.includes(searchParams.category as ListCategory) 
-    ? searchParams.category as ListCategory 
-    : undefined;
+  const handleDragStart = (event: DragStartEvent) => {
+    setDraggingId(String(event.active.id));
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setDraggingId(null);
+    lastDragEndRef.current = Date.now();
+    if (!over || active.id === over.id) return;
+
+    const overId = String(over.id);
+    if (overId.startsWith(COLLECTION_DROP_PREFIX)) {
+      onAddToCollection?.(overId.slice(COLLECTION_DROP_PREFIX.length), String(active.id));
+    } else if (onReorder) {
+      const ids = lists.map(list => list.id);
+      onReorder(arrayMove(ids, ids.indexOf(String(active.id)), ids.indexOf(overId)));
+    }
+  };
 
-  const handleListClick = (listId: string) => {
+  const handleListClick = (e: React.MouseEvent, listId: string) => {
+    if (Date.now() - lastDragEndRef.current < 250) {
+      e.preventDefault();
+      return;
+    }
     setViewedMap(prev => ({
       ...prev,
       [listId]: new Date()
     }));
   };
 
+  const renderCard = (list: EnhancedList) => (
+    <Link 
+      href={`/lists/${list.id}?from=${encodeURIComponent(currentPath)}`}
+      onClick={(e) => handleListClick(e, list.id)}
+    >
+      <Card className="group relative overflow-hidden transition-colors hover:bg-accent">
+        {onRemove && (
+          <button
+            type="button"
+            className="absolute right-2 top-2 z-10 rounded-full bg-background/80 p-1 text-muted-foreground opacity-0 transition-opacity hover:text-foreground focus-visible:opacity-100 group-hover:opacity-100"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onRemove(list.id);
+            }}
+            aria-label="Remove from collection"
+            title="Remove from collection"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+        <div className="p-4 space-y-3">
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                {viewedMap[list.id] && list.editedAt && new Date(list.editedAt) > new Date(viewedMap[list.id]) && (
+                  <div className="flex-shrink-0">
+                    <div 
+                      className={cn(
+                        "bg-primary rounded-full w-2 h-2",
+                        "animate-[pulse_2s_ease-in-out_infinite]"
+                      )}
+                    />
+                  </div>
+                )}
+                <h3 className="font-semibold leading-none tracking-tight line-clamp-1">
+                  {list.title}
+                </h3>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <CategoryBadge category={list.category} info={list.categoryInfo} />
+                {showPrivacyBadge && list.visibility === 'private' && (
+                  <Lock className="h-4 w-4 text-muted-foreground" />
+                )}
+                {showPrivacyBadge && list.visibility === 'unlisted' && (
+                  <EyeOff className="h-4 w-4 text-muted-foreground" />
+                )}
+              </div>
+            </div>
+
+            {list.description && (
+              <p className="text-sm text-muted-foreground line-clamp-2">
+                {list.description}
+              </p>
+            )}
+
+            <ListTags tags={list.tags} onTagClick={handleTagClick} />
+          </div>
+
+          {list.progress && list.progress.total > 0 && (
+            <ListProgressBar progress={list.progress} label="Your progress" />
+          )}
+
+          <div className="flex items-center text-sm text-muted-foreground">
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-1">
+                <Eye className="h-4 w-4" />
+                <span>{list.stats.viewCount}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Pin className="h-4 w-4" />
+                <span>{list.stats.pinCount}</span>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 ml-auto">
+              <ListChecks className="h-4 w-4" />
+              <span>{list.items?.length || 0}</span>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Avatar className="h-6 w-6">
+                <AvatarImage 
+                  src={list.owner.imageUrl || undefined} 
+                  alt={list.owner.displayName || list.owner.username} 
+                />
+                <AvatarFallback>
+                  {(list.owner.displayName || list.owner.username || '?')[0]?.toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex items-center gap-1 text-sm">
+                <span className="text-foreground font-medium">{list.owner.displayName || list.owner.username}</span>
+                <span className="text-muted-foreground">@{list.owner.username}</span>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              {differenceInMinutes(new Date(list.editedAt || ''), new Date(list.createdAt)) > 1 ? (
+                <>
+                  <PenLine className="h-4 w-4" />
+                  <span>{formatDistanceToNow(new Date(list.editedAt || list.createdAt))} ago</span>
+                </>
+              ) : (
+                <span>{formatDistanceToNow(new Date(list.createdAt))} ago</span>
+              )}
+            </div>
+          </div>
+        </div>
+      </Card>
+    </Link>
+  );
+
+  const draggingList = draggingId ? lists.find(list => list.id === draggingId) : undefined;
+
   return (
     <>
       {lists.length > 0 && <style>{pulseAnimation}</style>}
@@ -73,107 +301,51 @@ export function ListGrid({
         <ListSearchControls 
           defaultCategory={category}
           defaultSort={searchParams?.sort}
+          activeTag={filterByTags ? searchParams?.tag : undefined}
           showSearch={showSearch}
+          customCategories={customCategories}
         />
 
         {lists.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             No lists found
           </div>
-        ) : (
+        ) : !isDraggable ? (
           <div className="grid gap-6 grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
             {lists.map((list) => (
-              <Link 
-                key={list.id} 
-                href={`/lists/${list.id}?from=${encodeURIComponent(currentPath)}`}
-                onClick={() => handleListClick(list.id)}
-              >
-                <Card className="group relative overflow-hidden transition-colors hover:bg-accent">
-                  <div className="p-4 space-y-3">
-                    <div className="space-y-1.5">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          {viewedMap[list.id] && list.editedAt && new Date(list.editedAt) > new Date(viewedMap[list.id]) && (
-                            <div className="flex-shrink-0">
-                              <div 
-                                className={cn(
-                                  "bg-primary rounded-full w-2 h-2",
-                                  "animate-[pulse_2s_ease-in-out_infinite]"
-                                )}
-                              />
-                            </div>
-                          )}
-                          <h3 className="font-semibold leading-none tracking-tight line-clamp-1">
-                            {list.title}
-                          </h3>
-                        </div>
-                        <div className="flex items-center gap-2 flex-shrink-0">
-                          <CategoryBadge category={list.category} />
-                          {showPrivacyBadge && list.visibility === 'private' && (
-                            <Lock className="h-4 w-4 text-muted-foreground" />
-                          )}
-                          {showPrivacyBadge && list.visibility === 'unlisted' && (
-                            <EyeOff className="h-4 w-4 text-muted-foreground" />
-                          )}
-                        </div>
-                      </div>
-
-                      {list.description && (
-                        <p className="text-sm text-muted-foreground line-clamp-2">
-                          {list.description}
-                        </p>
-                      )}
-                    </div>
-
-                    <div className="flex items-center text-sm text-muted-foreground">
-                      <div className="flex items-center gap-4">
-                        <div className="flex items-center gap-1">
-                          <Eye className="h-4 w-4" />
-                          <span>{list.stats.viewCount}</span>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <Pin className="h-4 w-4" />
-                          <span>{list.stats.pinCount}</span>
-                        </div>
-                      </div>
-                      <div className="flex items-center gap-1 ml-auto">
-                        <ListChecks className="h-4 w-4" />
-                        <span>{list.items?.length || 0}</span>
-                      </div>
-                    </div>
-
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <Avatar className="h-6 w-6">
-                          <AvatarImage 
-                            src={list.owner.imageUrl || undefined} 
-                            alt={list.owner.displayName || list.owner.username} 
-                          />
-                          <AvatarFallback>
-                            {(list.owner.displayName || list.owner.username || '?')[0]?.toUpperCase()}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div className="flex items-center gap-1 text-sm">
-                          <span className="text-foreground font-medium">{list.owner.displayName || list.owner.username}</span>
-                          <span className="text-muted-foreground">@{list.owner.username}</span>
-                        </div>
-                      </div>
-                      <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                        {differenceInMinutes(new Date(list.editedAt || ''), new Date(list.createdAt)) > 1 ? (
-                          <>
-                            <PenLine className="h-4 w-4" />
-                            <span>{formatDistanceToNow(new Date(list.editedAt || list.createdAt))} ago</span>
-                          </>
-                        ) : (
-                          <span>{formatDistanceToNow(new Date(list.createdAt))} ago</span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </Card>
-              </Link>
+              <div key={list.id}>{renderCard(list)}</div>
             ))}
           </div>
+        ) : (
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+            onDragCancel={() => setDraggingId(null)}
+          >
+            {canDropOnCollections && (
+              <CollectionDropTargets collections={collections ?? []} isDragging={!!draggingId} />
+            )}
+            <SortableContext items={lists.map(list => list.id)} strategy={rectSortingStrategy}>
+              <div className="grid gap-6 grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
+                {lists.map((list) => onReorder ? (
+                  <SortableCard key={list.id} id={list.id}>{renderCard(list)}</SortableCard>
+                ) : (
+                  <DraggableCard key={list.id} id={list.id}>{renderCard(list)}</DraggableCard>
+                ))}
+              </div>
+            </SortableContext>
+            {!onReorder && (
+              <DragOverlay dropAnimation={null}>
+                {draggingList && (
+                  <div className="w-fit max-w-xs rounded-md border bg-background px-3 py-2 text-sm font-medium shadow-lg">
+                    <span className="line-clamp-1">{draggingList.title}</span>
+                  </div>
+                )}
+              </DragOverlay>
+            )}
+          </DndContext>
         )}
       </div>
     </>
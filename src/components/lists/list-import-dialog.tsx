@@ -0,0 +1,302 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle2, Circle, FileUp, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { ListImportFormat, ListImportPreview } from "@/types/list-import";
+import type { ListChildItem } from "@/types/list";
+
+interface ListImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Add the imported items to this list instead of creating a new one
+  listId?: string;
+  // Current form values, used when the list is created straight from the import
+  getListFields?: () => {
+    title?: string;
+    description?: string;
+    category: string;
+    tags?: string[];
+    visibility: 'public' | 'private' | 'unlisted';
+  };
+  onUseItems?: (preview: ListImportPreview) => void;
+}
+
+const FORMAT_OPTIONS: Array<{ value: ListImportFormat | 'auto'; label: string }> = [
+  { value: 'auto', label: 'Detect format' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'text', label: 'Plain text' },
+  { value: 'letterboxd', label: 'Letterboxd' },
+  { value: 'goodreads', label: 'Goodreads' },
+];
+
+const FORMAT_LABELS: Record<ListImportFormat, string> = {
+  markdown: 'Markdown',
+  csv: 'CSV',
+  text: 'plain text',
+  letterboxd: 'a Letterboxd export',
+  goodreads: 'a Goodreads export'
+};
+
+function PreviewChildItems({ childItems }: { childItems?: ListChildItem[] }) {
+  if (!childItems || childItems.length === 0) return null;
+
+  return (
+    <ul className="list-disc pl-4 text-muted-foreground">
+      {childItems.map((child, childIndex) => (
+        <li key={childIndex}>
+          {child.title}
+          {child.tag && <span className="ml-1 text-xs">({child.tag})</span>}
+          <PreviewChildItems childItems={child.childItems} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ListImportDialog({ open, onOpenChange, listId, getListFields, onUseItems }: ListImportDialogProps) {
+  const router = useRouter();
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState<string>();
+  const [format, setFormat] = useState<ListImportFormat | 'auto'>('auto');
+  const [preview, setPreview] = useState<ListImportPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reset = () => {
+    setText("");
+    setFileName(undefined);
+    setFormat('auto');
+    setPreview(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setText(await file.text());
+    setFileName(file.name);
+    setPreview(null);
+  };
+
+  const requestImport = async (previewOnly: boolean) => {
+    const response = await fetch('/api/lists/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text,
+        format,
+        fileName,
+        preview: previewOnly,
+        listId,
+        ...(!previewOnly && getListFields?.())
+      })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to import list');
+    }
+    return data;
+  };
+
+  const handlePreview = async () => {
+    setIsLoading(true);
+    try {
+      const data = await requestImport(true);
+      setPreview(data.preview);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read the import');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsLoading(true);
+    try {
+      const data = await requestImport(false);
+      handleOpenChange(false);
+      if (listId) {
+        toast.success(`Added ${data.added} ${data.added === 1 ? 'item' : 'items'}`);
+      } else {
+        toast.success("List imported");
+        router.push(`/lists/${data.list.id}`);
+      }
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import list');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUseItems = () => {
+    if (!preview || !onUseItems) return;
+    onUseItems(preview);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import items</DialogTitle>
+          <DialogDescription>
+            Paste or upload a Markdown checklist, a CSV file with title, comment and tag columns, or one item per line.
+            Nested bullets and indented lines become sub-items. Letterboxd and Goodreads CSV exports are
+            recognised too{listId && ', and titles already on the list are skipped'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Button type="button" variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <FileUp className="mr-2 h-4 w-4" />
+                  {fileName || 'Choose file'}
+                  <input
+                    type="file"
+                    accept=".md,.markdown,.csv,.txt,text/plain,text/markdown,text/csv"
+                    className="sr-only"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                  />
+                </label>
+              </Button>
+              <Select value={format} onValueChange={(value) => setFormat(value as ListImportFormat | 'auto')}>
+                <SelectTrigger className="w-[160px] ml-auto">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMAT_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={"- [ ] First item\n  - a sub-item\n- [x] Something already done"}
+              className="min-h-[220px] font-mono text-sm"
+            />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              Read as {FORMAT_LABELS[preview.format]}: {preview.items.length} {preview.items.length === 1 ? 'item' : 'items'}
+              {!listId && preview.title && <> in <span className="font-medium text-foreground">{preview.title}</span></>}
+              {!!preview.skipped && <>, {preview.skipped} already on the list</>}
+            </div>
+
+            {preview.warnings.length > 0 && (
+              <ul className="space-y-1 rounded-md border-l-4 border-amber-500 bg-amber-500/10 px-3 py-2 text-sm">
+                {preview.warnings.map(warning => (
+                  <li key={warning} className="flex items-center gap-2">
+                    <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-amber-600" />
+                    {warning}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {onUseItems && preview.items.some(item => item.comment) && (
+              <p className="text-xs text-muted-foreground">
+                The editor has no comments yet, so comments are only kept when you create the list directly.
+              </p>
+            )}
+
+            {preview.items.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">No items were found.</p>
+            ) : (
+              <ol className="space-y-2 text-sm">
+                {preview.items.map((item, index) => item.type === 'section' ? (
+                  <li key={index} className="pt-2 font-semibold">
+                    {item.title}
+                  </li>
+                ) : (
+                  <li key={index} className="rounded-md bg-muted/50 p-2">
+                    <div className="flex items-start gap-2">
+                      {item.completed ? (
+                        <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+                      ) : (
+                        <Circle className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                      )}
+                      <div className="space-y-1">
+                        <div className="font-medium">
+                          {item.title}
+                          {item.tag && <span className="ml-1 text-xs font-normal text-muted-foreground">({item.tag})</span>}
+                        </div>
+                        {item.comment && (
+                          <div className="whitespace-pre-wrap text-muted-foreground">{item.comment}</div>
+                        )}
+                        <PreviewChildItems childItems={item.childItems} />
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {!preview ? (
+            <Button type="button" onClick={handlePreview} disabled={isLoading || !text.trim()}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Preview
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="ghost" onClick={() => setPreview(null)} disabled={isLoading}>
+                Back
+              </Button>
+              {onUseItems && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleUseItems}
+                  disabled={isLoading || preview.items.length === 0}
+                >
+                  Edit before creating
+                </Button>
+              )}
+              <Button
+                type="button"
+                onClick={handleCreate}
+                disabled={isLoading || preview.items.length === 0}
+              >
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {listId ? 'Add to list' : 'Create list'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
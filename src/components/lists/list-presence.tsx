@@ -0,0 +1,53 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { ListPresenceUser } from "@/types/list-realtime";
+
+interface ListPresenceProps {
+  users: ListPresenceUser[];
+  currentUserId?: string | null;
+}
+
+// Avatars of the other people who are editing the list right now
+export function ListPresence({ users, currentUserId }: ListPresenceProps) {
+  const editors = users
+    .filter(user => user.editing && user.clerkId !== currentUserId)
+    .filter((user, index, all) => all.findIndex(u => u.clerkId === user.clerkId) === index);
+
+  if (editors.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <div className="flex -space-x-2">
+        <TooltipProvider>
+          {editors.map(editor => (
+            <Tooltip key={editor.clerkId}>
+              <TooltipTrigger asChild>
+                <Avatar className="h-6 w-6 border-2 border-background">
+                  <AvatarImage src={editor.imageUrl} alt={editor.username} />
+                  <AvatarFallback className="text-[10px]">
+                    {(editor.username || '?').slice(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+              </TooltipTrigger>
+              <TooltipContent>
+                {editor.username ? `@${editor.username}` : 'Someone'} is editing
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </TooltipProvider>
+      </div>
+      <span>
+        {editors.length === 1
+          ? `${editors[0].username ? `@${editors[0].username}` : 'Someone'} is also editing`
+          : `${editors.length} others are also editing`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { cn } from "@/lib/utils";
+import type { ListProgress } from "@/types/list";
+
+interface ListProgressBarProps {
+  progress: ListProgress;
+  label?: string;
+  className?: string;
+}
+
+export function ListProgressBar({ progress, label, className }: ListProgressBarProps) {
+  const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span>{progress.completed}/{progress.total}</span>
+      </div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={progress.total}
+        aria-valuenow={progress.completed}
+        aria-label={label}
+        className="h-1.5 w-full overflow-hidden rounded-full bg-muted"
+      >
+        <div
+          className="h-full rounded-full bg-green-500 transition-[width]"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
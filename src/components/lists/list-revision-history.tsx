@@ -0,0 +1,323 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { ArrowRight, History, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { ListItemChange, ListRevisionDiff, ListRevisionSummary } from "@/types/list-revision";
+
+interface ListRevisionHistoryProps {
+  listId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canRestore: boolean;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  visibility: 'Visibility',
+  comment: 'comment',
+  completed: 'completion',
+  childItems: 'sub-items'
+};
+
+function ItemChangeRow({ change }: { change: ListItemChange }) {
+  switch (change.type) {
+    case 'added':
+      return (
+        <li className="rounded-md border-l-4 border-green-500 bg-green-500/10 px-3 py-2 text-sm">
+          <span className="font-medium">Added</span> #{change.index + 1} {change.item.title}
+        </li>
+      );
+    case 'removed':
+      return (
+        <li className="rounded-md border-l-4 border-destructive bg-destructive/10 px-3 py-2 text-sm line-through">
+          <span className="font-medium no-underline">Removed</span> #{change.index + 1} {change.item.title}
+        </li>
+      );
+    case 'moved':
+      return (
+        <li className="rounded-md border-l-4 border-blue-500 bg-blue-500/10 px-3 py-2 text-sm">
+          <span className="font-medium">Moved</span> {change.item.title} from #{change.from + 1} to #{change.to + 1}
+        </li>
+      );
+    case 'changed':
+      return (
+        <li className="rounded-md border-l-4 border-amber-500 bg-amber-500/10 px-3 py-2 text-sm space-y-1">
+          <div>
+            <span className="font-medium">Changed</span> #{change.index + 1}{' '}
+            {change.fields.includes('title') ? (
+              <>
+                <span className="line-through text-muted-foreground">{change.from.title}</span>
+                <ArrowRight className="inline h-3 w-3 mx-1" />
+                {change.to.title}
+              </>
+            ) : change.to.title}
+          </div>
+          {change.fields.filter(field => field !== 'title').length > 0 && (
+            <div className="text-xs text-muted-foreground">
+              Updated {change.fields.filter(field => field !== 'title').map(field => FIELD_LABELS[field]).join(', ')}
+            </div>
+          )}
+        </li>
+      );
+  }
+}
+
+export function ListRevisionHistory({
+  listId,
+  open,
+  onOpenChange,
+  canRestore
+}: ListRevisionHistoryProps) {
+  const router = useRouter();
+  const [revisions, setRevisions] = useState<ListRevisionSummary[]>([]);
+  // The version of the list the history was loaded at, sent with restores
+  const [etag, setEtag] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+  const [diff, setDiff] = useState<ListRevisionDiff | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [restoringRevision, setRestoringRevision] = useState<number | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/lists/${listId}/revisions`);
+      if (!response.ok) throw new Error();
+      const data = await response.json();
+      const fetched: ListRevisionSummary[] = data.revisions || [];
+      setRevisions(fetched);
+      setEtag(response.headers.get('ETag'));
+
+      // Compare the latest revision with the one before it by default
+      if (fetched.length > 1) {
+        setToRevision(fetched[0].revision);
+        setFromRevision(fetched[1].revision);
+      }
+    } catch (error) {
+      toast.error("Failed to load revision history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchRevisions();
+    }
+  }, [open, fetchRevisions]);
+
+  useEffect(() => {
+    if (!fromRevision || !toRevision || fromRevision === toRevision) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsDiffLoading(true);
+    fetch(`/api/lists/${listId}/revisions/diff?from=${fromRevision}&to=${toRevision}`)
+      .then(response => {
+        if (!response.ok) throw new Error();
+        return response.json();
+      })
+      .then(data => {
+        if (!cancelled) setDiff(data.diff);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error("Failed to compare revisions");
+      })
+      .finally(() => {
+        if (!cancelled) setIsDiffLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listId, fromRevision, toRevision]);
+
+  const handleRestore = async (revision: number) => {
+    const confirmed = window.confirm(`Restore this list to revision ${revision}? The current version stays in the history.`);
+    if (!confirmed) return;
+
+    const toastId = toast.loading('Restoring revision...');
+    setRestoringRevision(revision);
+    try {
+      const response = await fetch(`/api/lists/${listId}/revisions/${revision}/restore`, {
+        method: 'POST',
+        headers: etag ? { 'If-Match': etag } : undefined
+      });
+
+      if (response.status === 409) {
+        // Someone saved since the history was loaded, so show their change first
+        await fetchRevisions();
+        router.refresh();
+        throw new Error('This list was changed by someone else. Check the latest revision and try again.');
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to restore revision');
+      }
+
+      toast.success(`Restored revision ${revision}`, { id: toastId });
+      await fetchRevisions();
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to restore revision',
+        { id: toastId }
+      );
+    } finally {
+      setRestoringRevision(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-[440px] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Revision History
+          </SheetTitle>
+          <SheetDescription>
+            Every save is kept here.{canRestore ? ' You can restore any earlier revision.' : ''}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No revisions yet. Revisions are recorded the next time the list is saved.
+          </p>
+        ) : (
+          <div className="space-y-6 py-4">
+            {revisions.length > 1 && (
+              <div className="space-y-3">
+                <h3 className="font-medium">Compare</h3>
+                <div className="flex items-center gap-2">
+                  {[
+                    { value: fromRevision, onChange: setFromRevision, placeholder: 'From' },
+                    { value: toRevision, onChange: setToRevision, placeholder: 'To' }
+                  ].map(({ value, onChange, placeholder }, index) => (
+                    <div key={placeholder} className="flex items-center gap-2 flex-1">
+                      {index > 0 && <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />}
+                      <Select
+                        value={value ? String(value) : undefined}
+                        onValueChange={revision => onChange(Number(revision))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder={placeholder} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {revisions.map(revision => (
+                            <SelectItem key={revision.id} value={String(revision.revision)}>
+                              Revision {revision.revision}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                {isDiffLoading ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : diff && (
+                  diff.fields.length === 0 && diff.items.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No differences between these revisions.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {diff.fields.map(change => (
+                        <li key={change.field} className="rounded-md border-l-4 border-amber-500 bg-amber-500/10 px-3 py-2 text-sm">
+                          <span className="font-medium">{FIELD_LABELS[change.field]}</span>{' '}
+                          <span className="line-through text-muted-foreground">{change.from || 'empty'}</span>
+                          <ArrowRight className="inline h-3 w-3 mx-1" />
+                          {change.to || 'empty'}
+                        </li>
+                      ))}
+                      {diff.items.map((change, index) => (
+                        <ItemChangeRow key={`${change.type}-${index}`} change={change} />
+                      ))}
+                    </ul>
+                  )
+                )}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Revisions</h3>
+              <ul className="space-y-2">
+                {revisions.map((revision, index) => (
+                  <li
+                    key={revision.id}
+                    className={cn(
+                      "flex items-center justify-between gap-3 rounded-md border p-3",
+                      index === 0 && "bg-muted/50"
+                    )}
+                  >
+                    <div className="space-y-0.5 text-sm">
+                      <div className="font-medium">
+                        Revision {revision.revision}
+                        {index === 0 && <span className="ml-2 text-xs text-muted-foreground">Current</span>}
+                      </div>
+                      <div className="text-muted-foreground">
+                        {revision.editedBy.username ? `@${revision.editedBy.username}` : 'Unknown user'}
+                        {' · '}
+                        {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {revision.itemCount} {revision.itemCount === 1 ? 'item' : 'items'}
+                        {revision.restoredFrom && ` · restored from revision ${revision.restoredFrom}`}
+                      </div>
+                    </div>
+                    {canRestore && index > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(revision.revision)}
+                        disabled={restoringRevision !== null}
+                      >
+                        {restoringRevision === revision.revision ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4" />
+                        )}
+                        <span className="ml-1">Restore</span>
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
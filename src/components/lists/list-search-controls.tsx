@@ -1,18 +1,22 @@
 "use client";
 
 import { useRouter, useSearchParams } from "next/navigation";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { LIST_CATEGORIES, type ListCategory } from "@/types/list";
-import { Search } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LIST_CATEGORIES, type ListCategory, type ListCategoryInfo } from "@/types/list";
+import { Search, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { SearchInput } from "@/components/search/search-input";
 import { useEffect, useRef, useState } from "react";
-import { cn } from "@/lib/utils";
+import { CategoryLabel } from "@/components/lists/category-label";
 
 interface ListSearchControlsProps {
   defaultCategory?: ListCategory;
   defaultSort?: string;
+  // Tag the lists are currently filtered by, shown as a removable chip
+  activeTag?: string;
   showSearch?: boolean;
+  // User-defined categories to offer alongside the built-in ones
+  customCategories?: Array<ListCategoryInfo & { slug: string }>;
 }
 
 const SORT_OPTIONS = [
@@ -22,7 +26,7 @@ const SORT_OPTIONS = [
   { value: 'pins', label: 'Most Pins' },
 ];
 
-export function ListSearchControls({ defaultCategory, defaultSort, showSearch = false }: ListSearchControlsProps) {
+export function ListSearchControls({ defaultCategory, defaultSort, activeTag, showSearch = false, customCategories = [] }: ListSearchControlsProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [isSearchVisible, setIsSearchVisible] = useState(false);
@@ -55,6 +59,12 @@ export function ListSearchControls({ defaultCategory, defaultSort, showSearch =
     router.push(`?${params.toString()}`);
   };
 
+  const clearTag = () => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete('tag');
+    router.push(`?${params.toString()}`);
+  };
+
   const toggleSearch = () => {
     setIsSearchVisible(!isSearchVisible);
     if (!isSearchVisible) {
@@ -82,25 +92,13 @@ export function ListSearchControls({ defaultCategory, defaultSort, showSearch =
               </SelectItem>
               {LIST_CATEGORIES.map((category) => (
                 <SelectItem key={category} value={category}>
-                  <div className="flex items-center gap-2">
-                    <div className={cn(
-                      "h-3.5 w-3.5 rounded-full shrink-0",
-                      {
-                        'bg-[var(--category-movies)]': category === 'movies',
-                        'bg-[var(--category-tv)]': category === 'tv-shows',
-                        'bg-[var(--category-books)]': category === 'books',
-                        'bg-[var(--category-restaurants)]': category === 'restaurants',
-                        'bg-[var(--category-recipes)]': category === 'recipes',
-                        'bg-[var(--category-activities)]': category === 'things-to-do',
-                        'bg-[var(--category-other)]': category === 'other'
-                      }
-                    )} />
-                    <span>
-                      {category === 'tv-shows' ? 'TV Shows' : 
-                       category === 'things-to-do' ? 'Things to do' :
-                       category.charAt(0).toUpperCase() + category.slice(1)}
-                    </span>
-                  </div>
+                  <CategoryLabel category={category} />
+                </SelectItem>
+              ))}
+              {customCategories.length > 0 && <SelectSeparator />}
+              {customCategories.map((category) => (
+                <SelectItem key={category.slug} value={category.slug}>
+                  <CategoryLabel category={category.slug} info={category} />
                 </SelectItem>
               ))}
             </SelectContent>
@@ -138,6 +136,23 @@ export function ListSearchControls({ defaultCategory, defaultSort, showSearch =
         )}
       </div>
 
+      {activeTag && (
+        <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
+          <span>Tagged</span>
+          <span className="inline-flex items-center gap-1 rounded-full bg-secondary px-2.5 py-0.5 text-xs font-medium text-secondary-foreground">
+            #{activeTag}
+            <button
+              type="button"
+              onClick={clearTag}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label="Clear tag filter"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        </div>
+      )}
+
       {showSearch && (
         <div 
           className={`
@@ -0,0 +1,39 @@
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+
+interface ListTagsProps {
+  tags?: string[];
+  className?: string;
+  // Called instead of linking to the tag page, e.g. to filter the current grid
+  onTagClick?: (tag: string) => void;
+}
+
+const tagClassName = "text-xs text-muted-foreground hover:text-foreground transition-colors";
+
+export function ListTags({ tags, className, onTagClick }: ListTagsProps) {
+  if (!tags?.length) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-x-2 gap-y-1", className)}>
+      {tags.map(tag => onTagClick ? (
+        <button
+          key={tag}
+          type="button"
+          className={tagClassName}
+          onClick={(e) => {
+            // Tags sit inside list cards, which are links themselves
+            e.preventDefault();
+            e.stopPropagation();
+            onTagClick(tag);
+          }}
+        >
+          #{tag}
+        </button>
+      ) : (
+        <Link key={tag} href={`/tags/${encodeURIComponent(tag)}`} className={tagClassName}>
+          #{tag}
+        </Link>
+      ))}
+    </div>
+  );
+}
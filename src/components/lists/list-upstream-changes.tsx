@@ -0,0 +1,240 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { AlertTriangle, ArrowRight, GitPullRequestArrow, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import type { UpstreamDiff, UpstreamItemChange } from "@/types/list-upstream";
+
+interface ListUpstreamChangesProps {
+  listId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  comment: 'comment',
+  childItems: 'sub-items'
+};
+
+function ChangeDescription({ change }: { change: UpstreamItemChange }) {
+  switch (change.type) {
+    case 'added':
+      return (
+        <>
+          <span className="font-medium">Added</span> {change.upstream.title}
+        </>
+      );
+    case 'removed':
+      return (
+        <>
+          <span className="font-medium">Removed</span>{' '}
+          <span className="line-through">{change.local.title}</span>
+        </>
+      );
+    case 'changed': {
+      const otherFields = change.fields.filter(field => field !== 'title');
+      return (
+        <div className="space-y-1">
+          <div>
+            <span className="font-medium">Changed</span>{' '}
+            {change.fields.includes('title') && change.local ? (
+              <>
+                <span className="line-through text-muted-foreground">{change.local.title}</span>
+                <ArrowRight className="inline h-3 w-3 mx-1" />
+                {change.upstream.title}
+              </>
+            ) : change.upstream.title}
+          </div>
+          {otherFields.length > 0 && (
+            <div className="text-xs text-muted-foreground">
+              Updated {otherFields.map(field => FIELD_LABELS[field]).join(', ')}
+            </div>
+          )}
+        </div>
+      );
+    }
+  }
+}
+
+const conflictMessage = (change: UpstreamItemChange) =>
+  change.type === 'removed'
+    ? 'You edited this item in your copy'
+    : change.type === 'changed' && !change.local
+      ? 'You removed this item from your copy'
+      : 'You also changed this item; pulling replaces your edits';
+
+const CHANGE_STYLES: Record<UpstreamItemChange['type'], string> = {
+  added: 'border-green-500 bg-green-500/10',
+  removed: 'border-destructive bg-destructive/10',
+  changed: 'border-amber-500 bg-amber-500/10'
+};
+
+export function ListUpstreamChanges({ listId, open, onOpenChange }: ListUpstreamChangesProps) {
+  const router = useRouter();
+  const [diff, setDiff] = useState<UpstreamDiff | null>(null);
+  const [etag, setEtag] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPulling, setIsPulling] = useState(false);
+
+  const fetchChanges = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/lists/${listId}/upstream`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setDiff(data);
+      setEtag(response.headers.get('ETag'));
+      // Changes that would overwrite local edits have to be picked explicitly
+      setSelected(new Set(
+        (data as UpstreamDiff).changes.filter(change => !change.conflict).map(change => change.key)
+      ));
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : "Failed to check the original list");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listId]);
+
+  useEffect(() => {
+    if (open) {
+      fetchChanges();
+    }
+  }, [open, fetchChanges]);
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handlePull = async () => {
+    const toastId = toast.loading('Pulling changes...');
+    setIsPulling(true);
+    try {
+      const response = await fetch(`/api/lists/${listId}/upstream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(etag && { 'If-Match': etag })
+        },
+        body: JSON.stringify({ keys: Array.from(selected) })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to pull changes');
+      }
+
+      toast.success(`Pulled ${selected.size} ${selected.size === 1 ? 'change' : 'changes'}`, { id: toastId });
+      router.refresh();
+      await fetchChanges();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to pull changes',
+        { id: toastId }
+      );
+      // The copy or the original may have moved on, so show the current diff
+      await fetchChanges();
+    } finally {
+      setIsPulling(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-[440px] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <GitPullRequestArrow className="h-4 w-4" />
+            Updates from the original
+          </SheetTitle>
+          <SheetDescription>
+            {diff
+              ? `Changes made to ${diff.source.ownerUsername ? `@${diff.source.ownerUsername}/` : ''}${diff.source.title} since you copied it or last pulled from it.`
+              : 'Changes made to the original list since you copied it.'}
+            {' '}Changes you skip stay here for later.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading && !diff ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !diff || diff.changes.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Your copy is up to date with the original.
+          </p>
+        ) : (
+          <div className="space-y-4 py-4">
+            <ul className="space-y-2">
+              {diff.changes.map(change => (
+                <li key={change.key}>
+                  <label
+                    className={cn(
+                      "flex items-start gap-3 rounded-md border-l-4 px-3 py-2 text-sm cursor-pointer",
+                      CHANGE_STYLES[change.type]
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mt-0.5 h-4 w-4 accent-primary"
+                      checked={selected.has(change.key)}
+                      onChange={() => toggle(change.key)}
+                      disabled={isPulling}
+                    />
+                    <div className="flex-1 space-y-1">
+                      <ChangeDescription change={change} />
+                      {change.conflict && (
+                        <div className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                          <AlertTriangle className="h-3 w-3" />
+                          {conflictMessage(change)}
+                        </div>
+                      )}
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelected(
+                  selected.size === diff.changes.length
+                    ? new Set()
+                    : new Set(diff.changes.map(change => change.key))
+                )}
+                disabled={isPulling}
+              >
+                {selected.size === diff.changes.length ? 'Select none' : 'Select all'}
+              </Button>
+              <Button onClick={handlePull} disabled={isPulling || selected.size === 0}>
+                {isPulling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Pull {selected.size} {selected.size === 1 ? 'change' : 'changes'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
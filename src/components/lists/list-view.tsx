@@ -1,9 +1,10 @@
 "use client";
 
-import { EnhancedList } from "@/types/list";
+import { EnhancedList, ItemFieldValues, ItemRecipe, ListItemType } from "@/types/list";
 import { CategoryBadge } from "@/components/lists/category-badge";
 import ListActionBar from "@/components/lists/list-action-bar";
-import { Eye, Pin, Copy, Lock, Pen, Plus, EyeOff, ExternalLink, CheckCircle2, Circle, ChevronDown, ChevronRight, List } from "lucide-react";
+import { Eye, Pin, Copy, Lock, Pen, Plus, EyeOff, ExternalLink, CheckCircle2, Circle, ChevronDown, ChevronRight, List, GitFork, SlidersHorizontal, ChefHat, ShoppingCart, Scale } from "lucide-react";
+import Link from "next/link";
 import { formatDistanceToNow } from "date-fns";
 import { EditListFAB } from "@/components/layout/FABs/edit-list-fab";
 import { UserCard } from "@/components/users/user-card";
@@ -11,24 +12,48 @@ import { ErrorBoundaryWrapper } from "@/components/error-boundary-wrapper";
 import { CollaboratorManagement } from "@/components/lists/collaborator-management";
 import { useAuthService } from "@/lib/services/auth.service";
 import { cn } from "@/lib/utils";
+import { categoryColor } from "@/lib/utils/category";
+import { isSection } from "@/lib/utils/list-items";
+import { listETag } from "@/lib/utils/list-version";
+import { compareItemFieldValues, itemFieldsFor, matchesItemFieldFilters } from "@/lib/utils/item-fields";
+import { ItemFieldBadges } from "@/components/lists/item-field-badges";
+import { ItemFieldControls, type ItemFieldSort } from "@/components/lists/item-field-controls";
+import { ItemFieldsDialog } from "@/components/lists/item-fields-dialog";
+import { RecipeDetails } from "@/components/lists/recipe-details";
+import { RecipeDialog } from "@/components/lists/recipe-dialog";
+import { ShoppingListDialog } from "@/components/lists/shopping-list-dialog";
+import { PairwiseRankingDialog } from "@/components/lists/pairwise-ranking-dialog";
+import { recipeServings } from "@/lib/utils/recipe";
+import { ListTags } from "@/components/lists/list-tags";
+import { ListProgressBar } from "@/components/lists/list-progress-bar";
 import { Button } from "@/components/ui/button";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
 
 interface ListViewProps {
   list: EnhancedList;
   isOwner: boolean;
   _isCollaborator: boolean;
+  canEdit?: boolean;
+  // The viewer's own checkmarks. When set, ticking an item off only changes
+  // the viewer's progress, not the list
+  completedItemIds?: string[];
   isPinned: boolean;
   isFollowing: boolean;
   showCollaborators: boolean;
   onCollaboratorsClick: () => void;
   onPinChange?: (isPinned: boolean) => void;
+  // Shown on copies whose viewer may pull changes from the original
+  onPullUpstreamClick?: () => void;
+  // Scrolls to this item and briefly highlights it
+  highlightItemId?: string;
 }
 
 interface ChildItem {
   title: string;
   tag?: string;
   index?: number;
+  childItems?: ChildItem[];
 }
 
 interface Property {
@@ -40,11 +65,14 @@ interface Property {
 
 interface ListItem {
   id: string;
+  type?: ListItemType;
   title: string;
   comment?: string;
   completed?: boolean;
   properties?: Property[];
   childItems?: ChildItem[];
+  fields?: ItemFieldValues;
+  recipe?: ItemRecipe;
 }
 
 // Function to detect URLs in text
@@ -99,32 +127,204 @@ function TextWithUrls({ text }: { text: string }) {
   return <>{elements}</>;
 }
 
-const getCategoryVar = (category?: string) => {
-  if (!category) return 'other';
-  switch (category) {
-    case 'tv-shows': return 'tv';
-    case 'things-to-do': return 'activities';
-    default: return category;
-  }
-};
+interface ChildItemTreeProps {
+  childItems: ChildItem[];
+  // Identifies this branch, so each sub-item can be expanded on its own
+  path: string;
+  completed: boolean;
+  expandedItems: Set<string>;
+  onToggle: (path: string) => void;
+}
+
+// Sub-items with sub-items of their own start collapsed
+function ChildItemTree({ childItems, path, completed, expandedItems, onToggle }: ChildItemTreeProps) {
+  return (
+    <ul className="ml-8 space-y-2">
+      {childItems.map((childItem, childIndex) => {
+        const childPath = `${path}/${childIndex}`;
+        const hasChildren = !!childItem.childItems && childItem.childItems.length > 0;
+        const isExpanded = expandedItems.has(childPath);
+
+        return (
+          <li key={childPath} className="space-y-2">
+            <div
+              className={cn(
+                "flex items-start border-b last:border-b-0 relative bg-muted/50 rounded-lg p-2",
+                completed && "text-muted-foreground",
+                hasChildren && "cursor-pointer"
+              )}
+              onClick={() => hasChildren && onToggle(childPath)}
+            >
+              <div className="flex-1">
+                <div className={cn(
+                  "font-medium",
+                  completed && "text-muted-foreground"
+                )}>
+                  <TextWithUrls text={childItem.title} />
+                </div>
+                {childItem.tag && (
+                  <div className="text-sm text-muted-foreground">
+                    {childItem.tag}
+                  </div>
+                )}
+              </div>
+              {hasChildren && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <List className="h-4 w-4" />
+                  {isExpanded ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                </div>
+              )}
+            </div>
+            {isExpanded && hasChildren && (
+              <ChildItemTree
+                childItems={childItem.childItems || []}
+                path={childPath}
+                completed={completed}
+                expandedItems={expandedItems}
+                onToggle={onToggle}
+              />
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
 
 export function ListView({ 
   list, 
   isOwner, 
   _isCollaborator,
+  canEdit = false,
+  completedItemIds,
   isPinned, 
   isFollowing,
   showCollaborators,
   onCollaboratorsClick,
-  onPinChange
+  onPinChange,
+  onPullUpstreamClick,
+  highlightItemId
 }: ListViewProps) {
   const { user, isSignedIn } = useAuthService();
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
+  const [fieldSort, setFieldSort] = useState<ItemFieldSort>('position');
+  const [fieldFilters, setFieldFilters] = useState<Record<string, string>>({});
+  const [editingFieldsItem, setEditingFieldsItem] = useState<ListItem | null>(null);
+  const hasItemFields = itemFieldsFor(list.category).length > 0;
+  const isRecipeList = list.category === 'recipes';
+  const [editingRecipeItem, setEditingRecipeItem] = useState<ListItem | null>(null);
+  const [showShoppingList, setShowShoppingList] = useState(false);
+  const [showRanking, setShowRanking] = useState(false);
+  const [items, setItems] = useState<ListItem[]>(list.items || []);
+  // The version the items were last synced at, sent with item edits
+  const [version, setVersion] = useState(list.version || 0);
+  const [myCompleted, setMyCompleted] = useState<Set<string>>(new Set(completedItemIds));
+  const isTracking = !canEdit && completedItemIds !== undefined;
+
+  useEffect(() => {
+    setItems(list.items || []);
+  }, [list.items]);
+
+  useEffect(() => {
+    setVersion(previous => Math.max(previous, list.version || 0));
+  }, [list.version]);
+
+  useEffect(() => {
+    setMyCompleted(new Set(completedItemIds));
+  }, [completedItemIds]);
+
+  const [highlightedId, setHighlightedId] = useState(highlightItemId);
+  // Live updates replace the items, which shouldn't scroll back to it
+  const scrolledToRef = useRef<string>();
+
+  useEffect(() => {
+    if (!highlightItemId || scrolledToRef.current === highlightItemId) return;
+    const item = (list.items || []).find(i => i.id === highlightItemId);
+    if (!item) return;
+    scrolledToRef.current = item.id;
+
+    // Open the item so a matching sub-item or recipe is visible too
+    if (item.childItems?.length || item.recipe) {
+      setExpandedItems(prev => new Set(prev).add(item.id));
+    }
+    setHighlightedId(item.id);
+
+    requestAnimationFrame(() => {
+      document.getElementById(`item-${item.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  }, [highlightItemId, list.items]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(undefined), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  const isDone = (item: ListItem) => isTracking ? myCompleted.has(item.id) : !!item.completed;
+  const checkableItems = items.filter(item => !isSection(item));
+  const recipeItems = items.filter(item => item.recipe);
+  const canRank = canEdit && list.listType === 'ordered' && checkableItems.length >= 2;
+  const progress = {
+    completed: checkableItems.filter(isDone).length,
+    total: checkableItems.length
+  };
+
+  // Sections aren't numbered, and collapsing one hides its items up to the
+  // next section
+  const sectionSizes = new Map<string, number>();
+  let currentSectionId: string | undefined;
+  let itemNumber = 0;
+  const rows = items.map(item => {
+    if (isSection(item)) {
+      currentSectionId = item.id;
+      sectionSizes.set(item.id, 0);
+      return { item, number: 0, hidden: false };
+    }
+    if (currentSectionId) {
+      sectionSizes.set(currentSectionId, (sectionSizes.get(currentSectionId) || 0) + 1);
+    }
+    itemNumber++;
+    return {
+      item,
+      number: itemNumber,
+      hidden: currentSectionId !== undefined && collapsedSections.has(currentSectionId)
+    };
+  });
+
+  // Sorting or filtering by a field shows the matching items without their
+  // sections, still numbered by their place in the list
+  const isFieldView = fieldSort !== 'position' || Object.values(fieldFilters).some(Boolean);
+  const visibleRows = isFieldView
+    ? rows
+      .filter(({ item }) => !isSection(item) && matchesItemFieldFilters(list.category, item.fields, fieldFilters))
+      .map(row => ({ ...row, hidden: false }))
+    : rows;
+  if (fieldSort !== 'position') {
+    const [key, direction] = fieldSort.split(':') as [string, 'asc' | 'desc'];
+    visibleRows.sort((a, b) => compareItemFieldValues(a.item.fields?.[key], b.item.fields?.[key], direction));
+  }
 
   const handlePinChange = (newPinned: boolean) => {
     onPinChange?.(newPinned);
   };
 
+  const toggleSection = (sectionId: string) => {
+    setCollapsedSections(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(sectionId)) {
+        newSet.delete(sectionId);
+      } else {
+        newSet.add(sectionId);
+      }
+      return newSet;
+    });
+  };
+
   const toggleItem = (itemId: string) => {
     setExpandedItems(prev => {
       const newSet = new Set(prev);
@@ -137,6 +337,83 @@ export function ListView({
     });
   };
 
+  const setItemCompleted = (itemId: string, completed: boolean) => {
+    setItems(prev => prev.map(item => item.id === itemId ? { ...item, completed } : item));
+  };
+
+  const setMyItemCompleted = (itemId: string, completed: boolean) => {
+    setMyCompleted(prev => {
+      const next = new Set(prev);
+      if (completed) {
+        next.add(itemId);
+      } else {
+        next.delete(itemId);
+      }
+      return next;
+    });
+  };
+
+  const handleToggleMyProgress = async (item: ListItem) => {
+    const completed = !myCompleted.has(item.id);
+    setMyItemCompleted(item.id, completed);
+
+    try {
+      const response = await fetch(`/api/lists/${list.id}/progress`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ itemId: item.id, completed })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update progress');
+      }
+    } catch (error) {
+      console.error('Error updating progress:', error);
+      setMyItemCompleted(item.id, !completed);
+      toast.error("Failed to update your progress");
+    }
+  };
+
+  const handleToggleCompleted = async (item: ListItem) => {
+    if (isTracking) {
+      return handleToggleMyProgress(item);
+    }
+
+    const completed = !item.completed;
+    setItemCompleted(item.id, completed);
+
+    try {
+      const response = await fetch(`/api/lists/${list.id}/items/${item.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'If-Match': listETag(version)
+        },
+        body: JSON.stringify({ completed })
+      });
+
+      if (response.status === 409) {
+        // Someone else saved first, so show their copy before trying again
+        const data = await response.json();
+        setItems(data.list.items || []);
+        setVersion(data.list.version);
+        toast.error("This list was just changed by someone else. Please try again.");
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to update item');
+      }
+      setVersion((await response.json()).version);
+    } catch (error) {
+      console.error('Error updating item:', error);
+      setItemCompleted(item.id, !completed);
+      toast.error("Failed to update item");
+    }
+  };
+
   return (
     <>
       {isSignedIn && user && showCollaborators && (
@@ -156,6 +433,7 @@ export function ListView({
               imageUrl: list.owner.imageUrl || undefined,
               displayName: list.owner.displayName
             }}
+            ownershipTransfer={list.ownershipTransfer}
           />
         </ErrorBoundaryWrapper>
       )}
@@ -175,12 +453,38 @@ export function ListView({
           <div key="header-content" className="flex items-start justify-between gap-4">
             <div key="title-description" className="space-y-1">
               <h1 className="text-2xl font-bold">{list.title}</h1>
+              {list.forkedFrom && (
+                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <GitFork className="h-3.5 w-3.5 shrink-0" />
+                  {list.forkedFrom.available ? (
+                    <span>
+                      Forked from{' '}
+                      <Link href={`/lists/${list.forkedFrom.listId}`} className="hover:text-foreground hover:underline">
+                        {list.forkedFrom.ownerUsername ? `@${list.forkedFrom.ownerUsername}/` : ''}{list.forkedFrom.title}
+                      </Link>
+                    </span>
+                  ) : (
+                    <span>Forked from a list that is no longer available</span>
+                  )}
+                  {list.forkedFrom.available && onPullUpstreamClick && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 ml-2 text-sm"
+                      onClick={onPullUpstreamClick}
+                    >
+                      Check for updates
+                    </Button>
+                  )}
+                </p>
+              )}
               {list.description && (
                 <p className="text-muted-foreground whitespace-pre-wrap">{list.description}</p>
               )}
+              <ListTags tags={list.tags} className="pt-1" />
             </div>
             <div key="category-visibility" className="flex items-center gap-2">
-              <CategoryBadge category={list.category} />
+              <CategoryBadge category={list.category} info={list.categoryInfo} />
               {list.visibility === 'private' && (
                 <Lock className="h-4 w-4 text-muted-foreground" />
               )}
@@ -192,49 +496,148 @@ export function ListView({
         </div>
 
         <div className="items-section space-y-4">
-          <div className="flex items-center justify-between">
+          <div className="flex flex-wrap items-center justify-between gap-2">
             <h2 className="text-xl font-semibold">Items</h2>
+            <div className="flex flex-wrap items-center gap-2">
+              {hasItemFields && (
+                <ItemFieldControls
+                  category={list.category}
+                  values={items.map(item => item.fields)}
+                  sort={fieldSort}
+                  onSortChange={setFieldSort}
+                  filters={fieldFilters}
+                  onFiltersChange={setFieldFilters}
+                />
+              )}
+              {canRank && (
+                <Button variant="outline" size="sm" onClick={() => setShowRanking(true)}>
+                  <Scale className="h-4 w-4 mr-1" />
+                  Rank by comparing
+                </Button>
+              )}
+              {isSignedIn && isRecipeList && recipeItems.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => setShowShoppingList(true)}>
+                  <ShoppingCart className="h-4 w-4 mr-1" />
+                  Shopping list
+                </Button>
+              )}
+            </div>
           </div>
-          {Array.isArray(list.items) && list.items.length > 0 ? (
+          {progress.total > 0 && (isTracking || progress.completed > 0) && (
+            <ListProgressBar
+              progress={progress}
+              label={isTracking ? "Your progress" : "Done"}
+            />
+          )}
+          {items.length > 0 ? (
             <ul className="space-y-2">
-              {list.items
-                .map((item: ListItem) => {
+              {isFieldView && visibleRows.length === 0 && (
+                <li className="py-4 text-center text-sm text-muted-foreground">No items match these filters</li>
+              )}
+              {visibleRows.map(({ item, number, hidden }) => {
+                if (isSection(item)) {
+                  const collapsed = collapsedSections.has(item.id);
+                  return (
+                    <li
+                      key={item.id}
+                      id={`item-${item.id}`}
+                      className={cn(
+                        "pt-4 first:pt-0 rounded-md transition-shadow",
+                        highlightedId === item.id && "ring-2 ring-primary ring-offset-2"
+                      )}
+                    >
+                      <button
+                        type="button"
+                        className="flex w-full items-center gap-2 text-left text-lg font-semibold"
+                        onClick={() => toggleSection(item.id)}
+                        aria-expanded={!collapsed}
+                      >
+                        {collapsed ? (
+                          <ChevronRight className="h-5 w-5 shrink-0 text-muted-foreground" />
+                        ) : (
+                          <ChevronDown className="h-5 w-5 shrink-0 text-muted-foreground" />
+                        )}
+                        <span className="flex-1">{item.title}</span>
+                        {collapsed && (
+                          <span className="text-sm font-normal text-muted-foreground">
+                            {sectionSizes.get(item.id)} {sectionSizes.get(item.id) === 1 ? "item" : "items"}
+                          </span>
+                        )}
+                      </button>
+                      {item.comment && !collapsed && (
+                        <div className="mt-1 pl-7 text-sm text-muted-foreground whitespace-pre-wrap">
+                          <TextWithUrls text={item.comment} />
+                        </div>
+                      )}
+                    </li>
+                  );
+                }
+                if (hidden) return null;
+
                 const isChildItem = item.properties?.some(p => p.isChildItem);
                 const hasChildren = item.childItems && item.childItems.length > 0;
+                // Recipes open up like sub-items do
+                const isExpandable = hasChildren || !!item.recipe;
                 const isExpanded = expandedItems.has(item.id);
+                const completed = isDone(item);
 
                 return !isChildItem ? (
                   <li
                     key={item.id}
-                    className="space-y-2"
+                    id={`item-${item.id}`}
+                    className={cn(
+                      "space-y-2 rounded-md transition-shadow",
+                      highlightedId === item.id && "ring-2 ring-primary ring-offset-2"
+                    )}
                   >
                     <div
                       className={cn(
                         "flex items-start border-b last:border-b-0 relative",
-                        hasChildren && "cursor-pointer"
+                        isExpandable && "cursor-pointer"
                       )}
-                      onClick={() => hasChildren && toggleItem(item.id)}
+                      onClick={() => isExpandable && toggleItem(item.id)}
                       style={{
-                        borderLeft: `4px solid var(--category-${getCategoryVar(list.category)})`,
+                        borderLeft: `4px solid ${categoryColor(list.category, list.categoryInfo)}`,
                         borderBottom: 'none',
                         borderRadius: '0.375rem',
                         marginBottom: '4px'
                       }}
                     >
                       <div className="flex items-center justify-center py-4 p-2">
-                        <span className="flex items-center justify-center">
-                          {item.completed ? (
-                            <CheckCircle2 className="h-5 w-5 text-green-500" />
-                          ) : (
-                            <Circle className="h-5 w-5 text-muted-foreground" />
-                          )}
-                        </span>
+                        {canEdit || isTracking ? (
+                          <button
+                            type="button"
+                            className="flex items-center justify-center rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleToggleCompleted(item);
+                            }}
+                            aria-label={completed ? "Mark as not done" : "Mark as done"}
+                          >
+                            {completed ? (
+                              <CheckCircle2 className="h-5 w-5 text-green-500" />
+                            ) : (
+                              <Circle className="h-5 w-5 text-muted-foreground" />
+                            )}
+                          </button>
+                        ) : (
+                          <span className="flex items-center justify-center">
+                            {completed ? (
+                              <CheckCircle2 className="h-5 w-5 text-green-500" />
+                            ) : (
+                              <Circle className="h-5 w-5 text-muted-foreground" />
+                            )}
+                          </span>
+                        )}
                       </div>
                       <div className="flex-1 py-4 pr-4">
                         <div className={cn(
                           "font-medium",
-                          item.completed && "text-muted-foreground"
+                          completed && "text-muted-foreground"
                         )}>
+                          {list.listType === 'ordered' && (
+                            <span className="mr-2 tabular-nums text-muted-foreground">{number}.</span>
+                          )}
                           <TextWithUrls text={item.title} />
                         </div>
                         {item.comment && (
@@ -242,10 +645,47 @@ export function ListView({
                             <TextWithUrls text={item.comment} />
                           </div>
                         )}
+                        <ItemFieldBadges category={list.category} fields={item.fields} className="mt-2" />
                       </div>
-                      {hasChildren && (
+                      {canEdit && hasItemFields && (
+                        <div className="py-3 pr-2">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditingFieldsItem(item);
+                            }}
+                            aria-label="Edit details"
+                            title="Edit details"
+                          >
+                            <SlidersHorizontal className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                      {canEdit && isRecipeList && (
+                        <div className="py-3 pr-2">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditingRecipeItem(item);
+                            }}
+                            aria-label="Edit recipe"
+                            title="Edit recipe"
+                          >
+                            <ChefHat className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                      {isExpandable && (
                         <div className="flex items-center gap-2 py-4 pr-4 text-muted-foreground">
-                          <List className="h-4 w-4" />
+                          {hasChildren ? <List className="h-4 w-4" /> : <ChefHat className="h-4 w-4" />}
                           {isExpanded ? (
                             <ChevronDown className="h-4 w-4" />
                           ) : (
@@ -254,34 +694,22 @@ export function ListView({
                         </div>
                       )}
                     </div>
+                    {isExpanded && item.recipe && (
+                      <RecipeDetails
+                        recipe={item.recipe}
+                        servings={recipeServings(item.fields)}
+                        className="ml-4"
+                      />
+                    )}
                     {/* Render child items */}
                     {isExpanded && hasChildren && (
-                      <ul className="ml-8 space-y-2">
-                        {(item.childItems || [])
-                          .map((childItem, childIndex) => (
-                          <li
-                            key={`${item.id}-child-${childIndex}`}
-                            className={cn(
-                              "flex items-start border-b last:border-b-0 relative bg-muted/50 rounded-lg p-2",
-                              item.completed && "text-muted-foreground"
-                            )}
-                          >
-                            <div className="flex-1">
-                              <div className={cn(
-                                "font-medium",
-                                item.completed && "text-muted-foreground"
-                              )}>
-                                <TextWithUrls text={childItem.title} />
-                              </div>
-                              {childItem.tag && (
-                                <div className="text-sm text-muted-foreground">
-                                  {childItem.tag}
-                                </div>
-                              )}
-                            </div>
-                          </li>
-                        ))}
-                      </ul>
+                      <ChildItemTree
+                        childItems={item.childItems || []}
+                        path={item.id}
+                        completed={completed}
+                        expandedItems={expandedItems}
+                        onToggle={toggleItem}
+                      />
                     )}
                   </li>
                 ) : null;
@@ -303,10 +731,22 @@ export function ListView({
                 <Pin className="h-3 w-3" />
                 {list.stats.pinCount}
               </div>
-              <div key="copies" className="flex items-center gap-1">
-                <Copy className="h-3 w-3" />
-                {list.stats.copyCount}
-              </div>
+              {list.stats.copyCount > 0 ? (
+                <Link
+                  key="copies"
+                  href={`/lists/${list.id}/forks`}
+                  className="flex items-center gap-1 hover:text-foreground"
+                  title="View forks"
+                >
+                  <Copy className="h-3 w-3" />
+                  {list.stats.copyCount}
+                </Link>
+              ) : (
+                <div key="copies" className="flex items-center gap-1">
+                  <Copy className="h-3 w-3" />
+                  {list.stats.copyCount}
+                </div>
+              )}
             </div>
             <div key="timestamps" className="flex flex-col gap-1 text-right">
               {list.editedAt && 
@@ -340,6 +780,59 @@ export function ListView({
           )}
         </div>
 
+        {editingFieldsItem && (
+          <ItemFieldsDialog
+            open
+            onOpenChange={(open) => !open && setEditingFieldsItem(null)}
+            listId={list.id}
+            category={list.category}
+            item={editingFieldsItem}
+            version={version}
+            onSaved={(saved, savedVersion) => {
+              setVersion(savedVersion);
+              setItems(prev => prev.map(item => item.id === saved.id ? { ...item, fields: saved.fields } : item));
+            }}
+          />
+        )}
+
+        {editingRecipeItem && (
+          <RecipeDialog
+            open
+            onOpenChange={(open) => !open && setEditingRecipeItem(null)}
+            listId={list.id}
+            item={editingRecipeItem}
+            version={version}
+            onSaved={(saved, savedVersion) => {
+              setVersion(savedVersion);
+              setItems(prev => prev.map(item => item.id === saved.id ? { ...item, recipe: saved.recipe } : item));
+            }}
+          />
+        )}
+
+        {canRank && (
+          <PairwiseRankingDialog
+            open={showRanking}
+            onOpenChange={setShowRanking}
+            listId={list.id}
+            items={items}
+            onApplied={(itemIds) => {
+              setItems(prev => {
+                const byId = new Map(prev.map(item => [item.id, item]));
+                return itemIds.map(id => byId.get(id)).filter((item): item is ListItem => !!item);
+              });
+            }}
+          />
+        )}
+
+        {isSignedIn && (
+          <ShoppingListDialog
+            open={showShoppingList}
+            onOpenChange={setShowShoppingList}
+            listId={list.id}
+            recipes={recipeItems}
+          />
+        )}
+
         {isSignedIn && user && isOwner && (
           <EditListFAB 
             listId={list.id} 
@@ -3,6 +3,7 @@
 import { ListGrid } from "@/components/lists/list-grid";
 import { ListTabs } from "@/components/layout/nav/list-tabs";
 import { CreateListFAB } from "@/components/layout/FABs/create-list-fab";
+import { useCollections } from "@/hooks/use-collections";
 import type { EnhancedList } from "@/types/list";
 import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 import { Spinner } from "@/components/ui/spinner";
@@ -42,13 +43,18 @@ export function MyListsContent({
       };
     }
   });
+  const { collections, addToCollection } = useCollections();
 
   return (
     <div className="relative">
       <ListTabs />
       <div className="px-4 md:px-6 lg:px-8 pt-4 pb-20 sm:pb-8">
         <div className="max-w-7xl mx-auto">
-          <ListGrid lists={lists} />
+          <ListGrid
+            lists={lists}
+            collections={collections}
+            onAddToCollection={addToCollection}
+          />
           {hasMore && (
             <div 
               ref={loadingRef}
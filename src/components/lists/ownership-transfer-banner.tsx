@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Crown } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+interface OwnershipTransferBannerProps {
+  listId: string;
+  ownerUsername: string;
+}
+
+// Shown to the collaborator a list has been offered to
+export function OwnershipTransferBanner({ listId, ownerUsername }: OwnershipTransferBannerProps) {
+  const router = useRouter();
+  const [isResponding, setIsResponding] = useState(false);
+
+  const respond = async (action: 'accept' | 'decline') => {
+    try {
+      setIsResponding(true);
+      const response = await fetch(`/api/lists/${listId}/transfer/respond`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to respond to transfer');
+      }
+
+      toast.success(action === 'accept' ? 'You now own this list' : 'Transfer declined');
+      router.refresh();
+    } catch (error) {
+      console.error('Error responding to ownership transfer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to respond to transfer');
+      setIsResponding(false);
+    }
+  };
+
+  return (
+    <Alert className="mb-6">
+      <Crown className="h-4 w-4" />
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+        <span>@{ownerUsername} wants to make you the owner of this list.</span>
+        <span className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => respond('decline')} disabled={isResponding}>
+            Decline
+          </Button>
+          <Button size="sm" onClick={() => respond('accept')} disabled={isResponding}>
+            Accept
+          </Button>
+        </span>
+      </AlertDescription>
+    </Alert>
+  );
+}
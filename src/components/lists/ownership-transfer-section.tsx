@@ -0,0 +1,168 @@
+'use client';
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Crown } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ListOwnershipTransfer } from "@/types/list";
+
+interface TransferCandidate {
+  clerkId: string;
+  username?: string;
+  displayName?: string;
+}
+
+interface OwnershipTransferSectionProps {
+  listId: string;
+  // Accepted collaborators the list can be handed to
+  candidates: TransferCandidate[];
+  transfer?: ListOwnershipTransfer;
+}
+
+const candidateName = (candidate?: TransferCandidate) =>
+  candidate?.username ? `@${candidate.username}` : candidate?.displayName || 'this collaborator';
+
+export function OwnershipTransferSection({ listId, candidates, transfer: initialTransfer }: OwnershipTransferSectionProps) {
+  const [transfer, setTransfer] = useState(initialTransfer);
+  const [clerkId, setClerkId] = useState<string>();
+  const [keepAsAdmin, setKeepAsAdmin] = useState(true);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = candidates.find(c => c.clerkId === clerkId);
+  const pendingTo = transfer && candidates.find(c => c.clerkId === transfer.clerkId);
+
+  const requestTransfer = async () => {
+    if (!clerkId) return;
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/lists/${listId}/transfer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clerkId, keepAsAdmin })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to request transfer');
+      }
+
+      setTransfer(data.ownershipTransfer);
+      toast.success(`Waiting for ${candidateName(selected)} to accept`);
+    } catch (error) {
+      console.error('Error requesting ownership transfer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to request transfer');
+    } finally {
+      setIsSaving(false);
+      setIsConfirming(false);
+    }
+  };
+
+  const cancelTransfer = async () => {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/lists/${listId}/transfer`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to cancel transfer');
+      }
+
+      setTransfer(undefined);
+      toast.success('Transfer cancelled');
+    } catch (error) {
+      console.error('Error cancelling ownership transfer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel transfer');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!transfer && candidates.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Crown className="h-4 w-4" />
+        <h3 className="font-medium">Transfer ownership</h3>
+      </div>
+
+      {transfer ? (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            Waiting for {candidateName(pendingTo)} to accept.
+            {transfer.keepAsAdmin ? ' You\'ll stay on as an admin.' : ' You\'ll lose access to the list.'}
+          </p>
+          <Button variant="outline" size="sm" onClick={cancelTransfer} disabled={isSaving}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Hand this list over to a collaborator. It moves once they accept.
+          </p>
+          <Select value={clerkId} onValueChange={setClerkId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a collaborator" />
+            </SelectTrigger>
+            <SelectContent className="z-[200]" position="popper" side="bottom">
+              {candidates.map(candidate => (
+                <SelectItem key={candidate.clerkId} value={candidate.clerkId}>
+                  {candidateName(candidate)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="transfer-keep-admin" className="font-normal">Stay on as an admin</Label>
+            <Switch id="transfer-keep-admin" checked={keepAsAdmin} onCheckedChange={setKeepAsAdmin} />
+          </div>
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={!clerkId || isSaving}
+            onClick={() => setIsConfirming(true)}
+          >
+            Transfer ownership
+          </Button>
+        </>
+      )}
+
+      <AlertDialog open={isConfirming} onOpenChange={setIsConfirming}>
+        <AlertDialogContent className="z-[200]">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Transfer this list to {candidateName(selected)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Once they accept, they&apos;ll own the list and can delete it or remove you.
+              {keepAsAdmin ? ' You\'ll stay on as an admin.' : ' You\'ll no longer have access unless they add you back.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={requestTransfer} disabled={isSaving}>
+              Send request
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
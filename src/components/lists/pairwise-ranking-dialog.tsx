@@ -0,0 +1,205 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { RotateCcw, Undo2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { isSection } from "@/lib/utils/list-items";
+import type { RankingComparison, RankingStep } from "@/lib/utils/list-ranking";
+import type { ListItem } from "@/types/list";
+
+interface PairwiseRankingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listId: string;
+  items: Array<Pick<ListItem, 'id' | 'title' | 'comment' | 'type'>>;
+  // Called with the new order once it has been saved to the list
+  onApplied: (itemIds: string[]) => void;
+}
+
+interface RankingState {
+  comparisons: RankingComparison[];
+  step: RankingStep;
+  maxComparisons: number;
+}
+
+export function PairwiseRankingDialog({ open, onOpenChange, listId, items, onApplied }: PairwiseRankingDialogProps) {
+  const [ranking, setRanking] = useState<RankingState | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  const request = useCallback(async (init?: RequestInit, query = '') => {
+    try {
+      setIsBusy(true);
+      const response = await fetch(`/api/lists/${listId}/ranking${query}`, init);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update ranking");
+      }
+      setRanking(data);
+    } catch (error) {
+      console.error("Error updating ranking:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update ranking");
+    } finally {
+      setIsBusy(false);
+    }
+  }, [listId]);
+
+  // Picks up where the user left off, if they've ranked this list before
+  useEffect(() => {
+    if (open) request();
+  }, [open, request]);
+
+  const answer = useCallback((winner: string, loser: string) => {
+    request({
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ winner, loser }),
+    });
+  }, [request]);
+
+  const step = ranking?.step;
+
+  // Left and right arrow keys pick an item
+  useEffect(() => {
+    if (!open || !step || step.done || isBusy) return;
+    const [left, right] = step.pair;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') answer(left, right);
+      if (e.key === 'ArrowRight') answer(right, left);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [open, step, isBusy, answer]);
+
+  async function saveOrder(itemIds: string[]) {
+    try {
+      setIsBusy(true);
+      const response = await fetch(`/api/lists/${listId}/items/reorder`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemIds }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save order");
+      }
+
+      // The ranking is finished, so there's nothing left to resume
+      await fetch(`/api/lists/${listId}/ranking`, { method: "DELETE" });
+
+      onApplied(itemIds);
+      onOpenChange(false);
+      toast.success("List reordered");
+    } catch (error) {
+      console.error("Error saving ranked order:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save order");
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  const answered = ranking?.comparisons.length || 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rank by comparing</DialogTitle>
+          <DialogDescription>
+            {step?.done
+              ? "Here's the order your answers give."
+              : "Pick the one that should rank higher. Your answers are saved, so you can stop and come back later."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!ranking ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : step && !step.done ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Question {answered + 1} of at most {ranking.maxComparisons}
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {step.pair.map((id, index) => {
+                const item = itemsById.get(id);
+                const other = step.pair[1 - index];
+                return (
+                  <button
+                    key={id}
+                    type="button"
+                    className="flex min-h-[6rem] flex-col items-start gap-1 rounded-md border p-4 text-left transition-colors hover:border-primary hover:bg-muted disabled:opacity-50"
+                    onClick={() => answer(id, other)}
+                    disabled={isBusy}
+                  >
+                    <span className="font-medium">{item?.title}</span>
+                    {item?.comment && (
+                      <span className="line-clamp-3 text-sm text-muted-foreground">{item.comment}</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ) : step ? (
+          <ol className="max-h-[50vh] space-y-1 overflow-y-auto rounded-md border p-3 text-sm">
+            {step.itemIds.map(id => {
+              const item = itemsById.get(id);
+              return item && isSection(item) ? (
+                <li key={id} className="pt-2 font-semibold first:pt-0">{item.title}</li>
+              ) : (
+                <li key={id}>{item?.title}</li>
+              );
+            })}
+          </ol>
+        ) : null}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => request({ method: "DELETE" }, "?last=1")}
+              disabled={isBusy || answered === 0}
+            >
+              <Undo2 className="h-4 w-4 mr-1" />
+              Undo
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => request({ method: "DELETE" })}
+              disabled={isBusy || answered === 0}
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Start over
+            </Button>
+          </div>
+          {step?.done ? (
+            <Button type="button" onClick={() => saveOrder(step.itemIds)} disabled={isBusy}>
+              {isBusy ? "Saving..." : "Save order"}
+            </Button>
+          ) : (
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Finish later
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,7 @@
 import { ListGrid } from "@/components/lists/list-grid";
 import { ListTabs } from "@/components/layout/nav/list-tabs";
 import { CreateListFAB } from "@/components/layout/FABs/create-list-fab";
+import { useCollections } from "@/hooks/use-collections";
 import type { EnhancedList } from "@/types/list";
 import { useSearchParams } from "next/navigation";
 
@@ -12,6 +13,7 @@ interface PinnedListsContentProps {
 
 export function PinnedListsContent({ lists }: PinnedListsContentProps) {
   const searchParams = useSearchParams();
+  const { collections, addToCollection } = useCollections();
   const params = {
     category: searchParams.get('category') || undefined,
     sort: searchParams.get('sort') || undefined,
@@ -27,6 +29,8 @@ export function PinnedListsContent({ lists }: PinnedListsContentProps) {
             lists={lists} 
             searchParams={params}
             showSearch
+            collections={collections}
+            onAddToCollection={addToCollection}
           />
         </div>
       </div>
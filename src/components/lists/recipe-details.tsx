@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { formatIngredient, formatQuantity, scaleIngredients } from "@/lib/utils/recipe";
+import type { ItemRecipe } from "@/types/list";
+
+interface RecipeDetailsProps {
+  recipe: ItemRecipe;
+  // How many the recipe makes as written, if known
+  servings?: number;
+  className?: string;
+}
+
+// Recipes without a servings count are scaled by halves instead
+const MULTIPLIERS = [0.5, 1, 1.5, 2, 3, 4];
+
+export function RecipeDetails({ recipe, servings, className }: RecipeDetailsProps) {
+  const [scaledServings, setScaledServings] = useState(servings || 1);
+  const [multiplier, setMultiplier] = useState(1);
+  const factor = servings ? scaledServings / servings : multiplier;
+  const ingredients = scaleIngredients(recipe.ingredients, factor);
+
+  return (
+    <div className={cn("space-y-4 rounded-md border p-4 text-sm", className)}>
+      {recipe.ingredients.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="font-semibold">Ingredients</h3>
+            {servings ? (
+              <div className="flex items-center gap-1">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setScaledServings(prev => Math.max(1, prev - 1))}
+                  disabled={scaledServings <= 1}
+                  aria-label="Fewer servings"
+                >
+                  <Minus className="h-3 w-3" />
+                </Button>
+                <span className="min-w-[6rem] text-center tabular-nums">
+                  {scaledServings} {scaledServings === 1 ? "serving" : "servings"}
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setScaledServings(prev => prev + 1)}
+                  aria-label="More servings"
+                >
+                  <Plus className="h-3 w-3" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-1">
+                {MULTIPLIERS.map(value => (
+                  <Button
+                    key={value}
+                    type="button"
+                    variant={multiplier === value ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7 px-2 tabular-nums"
+                    onClick={() => setMultiplier(value)}
+                    aria-pressed={multiplier === value}
+                  >
+                    {formatQuantity(value)}×
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+          <ul className="list-disc space-y-1 pl-5">
+            {ingredients.map((ingredient, index) => (
+              <li key={index}>{formatIngredient(ingredient)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {recipe.steps.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Steps</h3>
+          <ol className="list-decimal space-y-2 pl-5">
+            {recipe.steps.map((step, index) => (
+              <li key={index} className="whitespace-pre-wrap">{step}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
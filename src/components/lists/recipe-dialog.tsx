@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Plus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { listETag } from "@/lib/utils/list-version";
+import type { ItemRecipe, ListItem } from "@/types/list";
+
+interface RecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listId: string;
+  item: Pick<ListItem, 'id' | 'title' | 'recipe'>;
+  // The list version the item was loaded at, sent so edits can't overwrite
+  // newer changes
+  version: number;
+  onSaved: (item: ListItem, version: number) => void;
+}
+
+interface IngredientRow {
+  quantity: string;
+  unit: string;
+  name: string;
+}
+
+const EMPTY_ROW: IngredientRow = { quantity: '', unit: '', name: '' };
+
+const toRows = (recipe?: ItemRecipe): IngredientRow[] => [
+  ...(recipe?.ingredients || []).map(ingredient => ({
+    quantity: ingredient.quantity !== undefined ? String(ingredient.quantity) : '',
+    unit: ingredient.unit || '',
+    name: ingredient.name
+  })),
+  EMPTY_ROW
+];
+
+// Steps are edited one per line
+const toStepsText = (recipe?: ItemRecipe) => (recipe?.steps || []).join('\n');
+
+function toRecipe(rows: IngredientRow[], stepsText: string): ItemRecipe {
+  return {
+    ingredients: rows
+      .filter(row => row.name.trim())
+      .map(row => ({
+        quantity: row.quantity.trim() ? Number(row.quantity) : undefined,
+        unit: row.unit.trim() || undefined,
+        name: row.name.trim()
+      })),
+    steps: stepsText.split('\n').map(step => step.trim()).filter(Boolean)
+  };
+}
+
+export function RecipeDialog({ open, onOpenChange, listId, item, version, onSaved }: RecipeDialogProps) {
+  const [rows, setRows] = useState<IngredientRow[]>(() => toRows(item.recipe));
+  const [stepsText, setStepsText] = useState(() => toStepsText(item.recipe));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setRows(toRows(item.recipe));
+    setStepsText(toStepsText(item.recipe));
+  }, [open, item.recipe]);
+
+  function updateRow(index: number, changes: Partial<IngredientRow>) {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  }
+
+  async function saveRecipe() {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/lists/${listId}/items/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", "If-Match": listETag(version) },
+        body: JSON.stringify({ recipe: toRecipe(rows, stepsText) }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save recipe");
+      }
+
+      onSaved(data.item, data.version);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving recipe:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save recipe");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const hasInvalidQuantity = rows.some(row =>
+    row.quantity.trim() && !(Number(row.quantity) > 0)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Recipe</DialogTitle>
+          <DialogDescription className="truncate">{item.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+          <div className="space-y-2">
+            <Label>Ingredients</Label>
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  aria-label="Quantity"
+                  type="number"
+                  min={0}
+                  step="any"
+                  placeholder="Qty"
+                  className="w-20"
+                  value={row.quantity}
+                  onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                />
+                <Input
+                  aria-label="Unit"
+                  placeholder="Unit"
+                  maxLength={20}
+                  className="w-24"
+                  value={row.unit}
+                  onChange={(e) => updateRow(index, { unit: e.target.value })}
+                />
+                <Input
+                  aria-label="Ingredient"
+                  placeholder="Ingredient"
+                  maxLength={100}
+                  value={row.name}
+                  onChange={(e) => updateRow(index, { name: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  aria-label="Remove ingredient"
+                  onClick={() => setRows(prev => prev.length > 1 ? prev.filter((_, i) => i !== index) : [EMPTY_ROW])}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setRows(prev => [...prev, EMPTY_ROW])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add ingredient
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recipe-steps">Steps</Label>
+            <Textarea
+              id="recipe-steps"
+              rows={6}
+              placeholder="One step per line"
+              value={stepsText}
+              onChange={(e) => setStepsText(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={saveRecipe} disabled={isSaving || hasInvalidQuantity}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
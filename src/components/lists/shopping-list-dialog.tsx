@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { buildShoppingList, formatIngredient, recipeServings, scaleIngredients } from "@/lib/utils/recipe";
+import type { ListItem } from "@/types/list";
+
+interface ShoppingListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  listId: string;
+  // Items that have a recipe
+  recipes: Array<Pick<ListItem, 'id' | 'title' | 'fields' | 'recipe'>>;
+}
+
+export function ShoppingListDialog({ open, onOpenChange, listId, recipes }: ShoppingListDialogProps) {
+  const router = useRouter();
+  // Servings wanted for each chosen recipe, blank to make it as written
+  const [selected, setSelected] = useState<Map<string, string>>(new Map());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setSelected(new Map());
+  }, [open]);
+
+  const chosen = recipes
+    .filter(item => selected.has(item.id))
+    .map(item => {
+      const baseServings = recipeServings(item.fields);
+      const servings = Number(selected.get(item.id)) || undefined;
+      return { item, servings: baseServings && servings };
+    });
+
+  const preview = buildShoppingList(chosen.map(({ item, servings }) => {
+    const baseServings = recipeServings(item.fields);
+    const factor = servings && baseServings ? servings / baseServings : 1;
+    return { title: item.title, ingredients: scaleIngredients(item.recipe?.ingredients || [], factor) };
+  }));
+
+  function toggleRecipe(item: ShoppingListDialogProps['recipes'][number]) {
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(item.id)) {
+        next.delete(item.id);
+      } else {
+        next.set(item.id, String(recipeServings(item.fields) || ''));
+      }
+      return next;
+    });
+  }
+
+  async function createShoppingList() {
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/lists/${listId}/shopping-list`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          recipes: chosen.map(({ item, servings }) => ({ itemId: item.id, servings: servings || undefined }))
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to build shopping list");
+      }
+
+      toast.success("Shopping list created");
+      router.push(`/lists/${data.list.id}`);
+    } catch (error) {
+      console.error("Error building shopping list:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to build shopping list");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Build a shopping list</DialogTitle>
+          <DialogDescription>
+            Pick the recipes you&apos;re making. Their ingredients are combined into a new to-do list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+          <ul className="space-y-2">
+            {recipes.map(item => {
+              const isSelected = selected.has(item.id);
+              const baseServings = recipeServings(item.fields);
+              return (
+                <li key={item.id} className="flex items-center gap-3">
+                  <input
+                    id={`shopping-recipe-${item.id}`}
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={isSelected}
+                    onChange={() => toggleRecipe(item)}
+                  />
+                  <label htmlFor={`shopping-recipe-${item.id}`} className="flex-1 truncate text-sm">
+                    {item.title}
+                  </label>
+                  {isSelected && baseServings && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Input
+                        aria-label={`Servings of ${item.title}`}
+                        type="number"
+                        min={1}
+                        className="h-8 w-16"
+                        value={selected.get(item.id)}
+                        onChange={(e) => setSelected(prev => new Map(prev).set(item.id, e.target.value))}
+                      />
+                      servings
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {preview.length > 0 && (
+            <div className="space-y-2 rounded-md border p-3 text-sm">
+              <p className="font-medium">{preview.length} {preview.length === 1 ? "ingredient" : "ingredients"}</p>
+              <ul className="list-disc space-y-1 pl-5">
+                {preview.map((entry, index) => (
+                  <li key={index}>{formatIngredient(entry)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={createShoppingList}
+            disabled={isSaving || preview.length === 0}
+          >
+            {isSaving ? "Creating..." : "Create list"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
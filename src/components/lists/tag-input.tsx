@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { MAX_LIST_TAGS, normalizeTag } from "@/lib/utils/list-tags";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export function TagInput({ value, onChange }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+
+  const addTags = (text: string) => {
+    const added = text.split(',').map(normalizeTag).filter(Boolean);
+    const tags = Array.from(new Set([...value, ...added])).slice(0, MAX_LIST_TAGS);
+    if (tags.length !== value.length) onChange(tags);
+    setDraft("");
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter(t => t !== tag));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border border-input bg-muted/50 px-3 py-2">
+      {value.map(tag => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 rounded-full bg-secondary px-2.5 py-0.5 text-xs font-medium"
+        >
+          #{tag}
+          <button
+            type="button"
+            onClick={() => removeTag(tag)}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      {value.length < MAX_LIST_TAGS && (
+        <Input
+          value={draft}
+          placeholder={value.length === 0 ? "Add tags, e.g. date-night, 2026" : "Add tag"}
+          className="h-7 min-w-[8rem] flex-1 border-0 bg-transparent p-0 shadow-none focus-visible:ring-0"
+          onChange={(e) => {
+            // Typing a comma finishes the tag
+            if (e.target.value.includes(',')) {
+              addTags(e.target.value);
+            } else {
+              setDraft(e.target.value);
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addTags(draft);
+            } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+              removeTag(value[value.length - 1]);
+            }
+          }}
+          onBlur={() => draft && addTags(draft)}
+        />
+      )}
+    </div>
+  );
+}
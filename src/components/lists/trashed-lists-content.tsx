@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { ListTabs } from "@/components/layout/nav/list-tabs";
+import { CategoryBadge } from "@/components/lists/category-badge";
+import { TRASH_RETENTION_DAYS } from "@/lib/utils/list-trash";
+import type { TrashedList } from "@/types/list";
+
+interface TrashedListsContentProps {
+  lists: TrashedList[];
+}
+
+export function TrashedListsContent({ lists: initialLists }: TrashedListsContentProps) {
+  const router = useRouter();
+  const [lists, setLists] = useState(initialLists);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  async function updateTrashedList(list: TrashedList, method: "POST" | "DELETE") {
+    const restoring = method === "POST";
+    try {
+      setPendingId(list.id);
+      const response = await fetch(`/api/lists/trash/${list.id}`, { method });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || (restoring ? "Failed to restore list" : "Failed to delete list"));
+      }
+
+      setLists(prev => prev.filter(l => l.id !== list.id));
+      toast.success(restoring ? "List restored" : "List permanently deleted");
+      router.refresh();
+    } catch (error) {
+      console.error(restoring ? "Error restoring list:" : "Error purging list:", error);
+      toast.error(error instanceof Error ? error.message : "Something went wrong");
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <ListTabs />
+      <div className="px-4 md:px-6 lg:px-8 pt-4 pb-20 sm:pb-8">
+        <div className="max-w-3xl mx-auto space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Deleted lists stay here for {TRASH_RETENTION_DAYS} days before they&apos;re permanently deleted.
+          </p>
+
+          {lists.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">The trash is empty</div>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {lists.map(list => (
+                <li key={list.id} className="flex flex-wrap items-center gap-3 p-4">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium">{list.title}</span>
+                      <CategoryBadge category={list.category} info={list.categoryInfo} />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {list.itemCount} {list.itemCount === 1 ? "item" : "items"} · Deleted{" "}
+                      {formatDistanceToNow(new Date(list.deletedAt), { addSuffix: true })} · Permanently deleted{" "}
+                      {formatDistanceToNow(new Date(list.purgeAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateTrashedList(list, "POST")}
+                      disabled={pendingId === list.id}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive/90 hover:bg-destructive/10"
+                          disabled={pendingId === list.id}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete forever
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete &quot;{list.title}&quot; forever?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This action cannot be undone. The list, its history and everyone&apos;s pins of it will be removed.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => updateTrashedList(list, "DELETE")}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete forever
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
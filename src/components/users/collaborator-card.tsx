@@ -16,20 +16,30 @@ import { cn } from "@/lib/utils";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { usePathname } from "next/navigation";
 import React from "react";
+import type { CollaboratorRole } from "@/types/list";
+
+// Roles an admin can give a collaborator, with what each can do on the list
+const ROLE_OPTIONS: Array<{ role: CollaboratorRole; label: string; description: string }> = [
+  { role: 'admin', label: 'Admin', description: 'Edit everything and manage collaborators' },
+  { role: 'editor', label: 'Editor', description: 'Edit everything on the list' },
+  { role: 'contributor', label: 'Contributor', description: 'Add items and edit their own' },
+  { role: 'commenter', label: 'Commenter', description: 'Comment on items' },
+  { role: 'viewer', label: 'Viewer', description: 'View the list' },
+];
 
 export interface CollaboratorCardProps {
   userId: string;
   username?: string;
   email?: string;
   imageUrl?: string;
-  role: 'owner' | 'admin' | 'editor' | 'viewer';
+  role: 'owner' | CollaboratorRole;
   status?: 'pending' | 'accepted' | 'rejected';
   clerkId?: string;
   acceptedDate?: string;
   linkToProfile?: boolean;
   canManageRoles?: boolean;
   isOwner?: boolean;
-  currentUserRole?: 'owner' | 'admin' | 'editor' | 'viewer';
+  currentUserRole?: 'owner' | CollaboratorRole;
   onRoleChange?: (newRole: string) => void;
   onRemove?: () => void;
   onResendInvite?: () => void;
@@ -76,6 +86,8 @@ export const CollaboratorCard = React.memo(function CollaboratorCard({
         return 'secondary';
       case 'editor':
         return 'secondary';
+      case 'contributor':
+        return 'secondary';
       default:
         return 'outline';
     }
@@ -115,15 +127,16 @@ export const CollaboratorCard = React.memo(function CollaboratorCard({
         <DropdownMenuContent align="end" className="z-[150]">
           {canManageRoles && (
             <>
-              <DropdownMenuItem onClick={() => onRoleChange?.('admin')}>
-                Admin
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => onRoleChange?.('editor')}>
-                Editor
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => onRoleChange?.('viewer')}>
-                Viewer
-              </DropdownMenuItem>
+              {ROLE_OPTIONS.map(option => (
+                <DropdownMenuItem
+                  key={option.role}
+                  onClick={() => onRoleChange?.(option.role)}
+                  className="flex flex-col items-start gap-0.5"
+                >
+                  <span className={cn(option.role === role && "font-medium")}>{option.label}</span>
+                  <span className="text-xs text-muted-foreground">{option.description}</span>
+                </DropdownMenuItem>
+              ))}
               {isOwner && (
                 <DropdownMenuItem onClick={() => onRoleChange?.('owner')}>
                   Transfer Ownership
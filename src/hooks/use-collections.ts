@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { ListCollection } from "@/types/collection";
+
+// The signed-in user's collections, for adding lists to them
+export function useCollections(enabled = true) {
+  const [collections, setCollections] = useState<ListCollection[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    fetch("/api/collections")
+      .then(response => response.ok ? response.json() : { collections: [] })
+      .then(data => {
+        if (!cancelled) setCollections(data.collections || []);
+      })
+      .catch(error => console.error("Error fetching collections:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const addToCollection = useCallback(async (collectionId: string, listId: string) => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/lists`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ listId }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add list to collection");
+      }
+
+      setCollections(prev => prev.map(c => c.id === collectionId ? data.collection : c));
+      toast.success(`Added to ${data.collection.name}`);
+    } catch (error) {
+      console.error("Error adding list to collection:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add list to collection");
+    }
+  }, []);
+
+  return { collections, setCollections, addToCollection };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from "react";
+import type { ListChangeEvent, ListEvent, ListPresenceUser } from "@/types/list-realtime";
+
+interface UseListEventsOptions {
+  editing?: boolean;
+  onChange?: (event: ListChangeEvent) => void;
+}
+
+/**
+ * Follows live changes to a list and who else has it open. Pass no list ID to
+ * stay disconnected.
+ */
+export function useListEvents(listId: string | undefined, { editing = false, onChange }: UseListEventsOptions = {}) {
+  const [presence, setPresence] = useState<ListPresenceUser[]>([]);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!listId) return;
+
+    // EventSource reconnects by itself if the connection drops
+    const source = new EventSource(`/api/lists/${listId}/events${editing ? '?editing=1' : ''}`);
+
+    source.onmessage = (message) => {
+      try {
+        const event = JSON.parse(message.data) as ListEvent;
+        if (event.type === 'presence') {
+          setPresence(event.users);
+        } else {
+          onChangeRef.current?.(event);
+        }
+      } catch (error) {
+        console.error('Error handling list event:', error);
+      }
+    };
+
+    return () => {
+      source.close();
+      setPresence([]);
+    };
+  }, [listId, editing]);
+
+  return { presence };
+}
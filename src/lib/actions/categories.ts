@@ -0,0 +1,42 @@
+"use server";
+
+import { connectToMongoDB } from "@/lib/db/client";
+import { getCategoryModel } from "@/lib/db/models-v2/category";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { serializeCategory } from "@/lib/utils";
+import type { UserCategory } from "@/types/category";
+import type { ListCategoryInfo } from "@/types/list";
+
+export async function getUserCategories(clerkId: string): Promise<UserCategory[]> {
+  await connectToMongoDB();
+  const CategoryModel = await getCategoryModel();
+
+  const categories = await CategoryModel.find({ 'owner.clerkId': clerkId })
+    .sort({ name: 1 })
+    .lean();
+
+  return categories.map(serializeCategory);
+}
+
+/**
+ * User-defined categories that appear on public lists, most used first. Lists
+ * from different people that share a category slug are grouped together.
+ */
+export async function getBrowseCategories(limit = 20): Promise<Array<ListCategoryInfo & { slug: string }>> {
+  await connectToMongoDB();
+  const ListModel = await getListModel();
+
+  const categories = await ListModel.aggregate<{ _id: string; info: ListCategoryInfo; count: number }>([
+    { $match: { visibility: 'public', categoryInfo: { $ne: null } } },
+    { $group: { _id: '$category', info: { $first: '$categoryInfo' }, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: limit }
+  ]);
+
+  return categories.map(category => ({
+    slug: category._id,
+    name: category.info.name,
+    color: category.info.color,
+    icon: category.info.icon
+  }));
+}
@@ -0,0 +1,70 @@
+"use server";
+
+import type { FilterQuery } from "mongoose";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getCollectionModel } from "@/lib/db/models-v2/collection";
+import { getEnhancedLists } from "@/lib/actions/lists";
+import { serializeCollection } from "@/lib/utils";
+import { sortCollectionLists } from "@/lib/utils/collections";
+import type { ListCollection } from "@/types/collection";
+import type { EnhancedList } from "@/types/list";
+import type { MongoListDocument } from "@/types/mongo";
+
+// A user's collections, leaving out the private ones unless the viewer owns them
+export async function getUserCollections(clerkId: string, viewerId?: string | null): Promise<ListCollection[]> {
+  await connectToMongoDB();
+  const CollectionModel = await getCollectionModel();
+
+  const collections = await CollectionModel.find({
+    'owner.clerkId': clerkId,
+    ...(viewerId === clerkId ? {} : { visibility: 'public' })
+  })
+    .sort({ createdAt: -1 })
+    .lean();
+
+  return collections.map(serializeCollection);
+}
+
+/**
+ * A collection and the lists in it that the viewer can see. The owner sees
+ * every list they still have access to; everyone else only sees public lists.
+ * Returns null if the collection doesn't exist or is private to someone else.
+ */
+export async function getCollection(
+  collectionId: string,
+  viewerId?: string | null
+): Promise<{ collection: ListCollection; lists: EnhancedList[] } | null> {
+  await connectToMongoDB();
+  const CollectionModel = await getCollectionModel();
+
+  const found = await CollectionModel.findById(collectionId).lean();
+  const isOwner = !!found && found.owner.clerkId === viewerId;
+  if (!found || (found.visibility !== 'public' && !isOwner)) {
+    return null;
+  }
+
+  const collection = serializeCollection(found);
+  if (collection.listIds.length === 0) {
+    return { collection, lists: [] };
+  }
+
+  const visible: FilterQuery<MongoListDocument> = isOwner
+    ? {
+      $or: [
+        // Unlisted lists can only be here because the owner pinned them
+        { visibility: { $in: ['public', 'unlisted'] } },
+        { 'owner.clerkId': viewerId },
+        { collaborators: { $elemMatch: { clerkId: viewerId, status: 'accepted' } } }
+      ]
+    }
+    : { visibility: 'public' };
+
+  const { lists } = await getEnhancedLists(
+    { _id: { $in: collection.listIds }, ...visible },
+    {},
+    undefined,
+    collection.listIds.length
+  );
+
+  return { collection, lists: sortCollectionLists(lists, collection) };
+}
@@ -0,0 +1,178 @@
+import { Types } from "mongoose";
+import { connectToMongoDB } from "@/lib/db/client";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getListInviteModel } from "@/lib/db/models-v2/list-invite";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { getUserModel } from "@/lib/db/models-v2/user";
+import {
+  createInviteToken,
+  inviteExpiryDate,
+  verifyInviteToken
+} from "@/lib/utils/invite-token";
+import type { CollaboratorRole } from "@/types/list";
+
+// Why an invite link can or can't be accepted. `member` means the viewer
+// already owns or collaborates on the list.
+export type ListInviteStatus = 'valid' | 'invalid' | 'expired' | 'used' | 'revoked' | 'member';
+
+export interface ListInviteDetails {
+  status: ListInviteStatus;
+  listId?: string;
+  listTitle?: string;
+  role?: CollaboratorRole;
+  inviterName?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Records a single-use invite and returns the link for it. The link works for
+ * any signed-in user, whatever their email address. The link is signed before
+ * anything is saved, so a missing INVITE_TOKEN_SECRET fails without leaving a
+ * record behind.
+ */
+export async function createListInvite({
+  listId,
+  role,
+  email,
+  invitedBy
+}: {
+  listId: string;
+  role: CollaboratorRole;
+  email?: string;
+  invitedBy: string;
+}) {
+  const ListInviteModel = await getListInviteModel();
+  const expiresAt = inviteExpiryDate();
+  const inviteId = new Types.ObjectId();
+
+  const token = createInviteToken({ inviteId: String(inviteId), listId, role, expiresAt });
+  await ListInviteModel.create({ _id: inviteId, listId, role, email, invitedBy, expiresAt });
+  return {
+    token,
+    url: `${process.env.NEXT_PUBLIC_APP_URL}/invite/${token}`,
+    expiresAt
+  };
+}
+
+// Stops the unused links emailed to an address from working, once that
+// address is no longer invited to the list
+export async function revokeListInvites(listId: string, email: string) {
+  const ListInviteModel = await getListInviteModel();
+  await ListInviteModel.updateMany(
+    { listId, email, usedAt: null, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+}
+
+async function findInvite(token: string) {
+  const payload = verifyInviteToken(token);
+  if (!payload || !Types.ObjectId.isValid(payload.inviteId)) return null;
+
+  const ListInviteModel = await getListInviteModel();
+  const invite = await ListInviteModel.findOne({ _id: payload.inviteId, listId: payload.listId }).lean();
+  return invite ? { payload, invite } : null;
+}
+
+// What the invite page shows for a link
+export async function getListInvite(token: string, viewerId?: string | null): Promise<ListInviteDetails> {
+  await connectToMongoDB();
+  const found = await findInvite(token);
+  if (!found) return { status: 'invalid' };
+
+  const { payload, invite } = found;
+  const ListModel = await getListModel();
+  const list = await ListModel.findById(payload.listId).lean();
+  if (!list) return { status: 'invalid' };
+
+  const UserModel = await getUserModel();
+  const inviter = await UserModel.findOne({ clerkId: invite.invitedBy }).lean();
+
+  const isMember = !!viewerId && (
+    list.owner.clerkId === viewerId ||
+    list.collaborators.some(c => c.clerkId === viewerId && c.status === 'accepted')
+  );
+
+  const status: ListInviteStatus = isMember
+    ? 'member'
+    : invite.usedAt
+      ? 'used'
+      : invite.revokedAt
+        ? 'revoked'
+        : payload.expiresAt < new Date() || invite.expiresAt < new Date()
+          ? 'expired'
+          : 'valid';
+
+  return {
+    status,
+    listId: payload.listId,
+    listTitle: list.title,
+    role: payload.role,
+    inviterName: inviter?.displayName || inviter?.username,
+    expiresAt: payload.expiresAt.toISOString()
+  };
+}
+
+/**
+ * Makes the user a collaborator with the invite's role and uses the invite
+ * up. Pending invites for the same person on the list are replaced.
+ */
+export async function acceptListInvite(token: string, clerkId: string): Promise<ListInviteDetails> {
+  const details = await getListInvite(token, clerkId);
+  if (details.status !== 'valid') return details;
+
+  const found = await findInvite(token);
+  if (!found) return { status: 'invalid' };
+  const { payload, invite } = found;
+
+  const UserModel = await getUserModel();
+  const user = await UserModel.findOne({ clerkId }).lean();
+  if (!user) return { status: 'invalid' };
+
+  // Claim the invite first so two people can't both use it
+  const ListInviteModel = await getListInviteModel();
+  const now = new Date();
+  const claimed = await ListInviteModel.findOneAndUpdate(
+    { _id: invite._id, usedAt: null, revokedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now, usedBy: clerkId } }
+  );
+  if (!claimed) return { ...details, status: 'used' };
+
+  const ListModel = await getListModel();
+  await ListModel.updateOne(
+    { _id: payload.listId },
+    {
+      $pull: {
+        collaborators: {
+          $or: [
+            { clerkId },
+            ...(invite.email ? [{ _isEmailInvite: true, email: invite.email }] : [])
+          ]
+        }
+      }
+    }
+  );
+  await ListModel.updateOne(
+    { _id: payload.listId },
+    {
+      // Names and pictures are looked up from the user when collaborators
+      // are listed, so only the membership is stored
+      $push: {
+        collaborators: {
+          userId: user._id,
+          clerkId,
+          role: payload.role,
+          status: 'accepted',
+          invitedAt: invite.createdAt,
+          acceptedAt: now
+        }
+      }
+    }
+  );
+
+  await recordListActivity(payload.listId, { clerkId, username: user.username }, [{
+    type: 'collaborator.joined',
+    to: payload.role
+  }]);
+
+  return { ...details, status: 'member' };
+}
@@ -0,0 +1,78 @@
+import type { Types } from "mongoose";
+import { getCollectionModel } from "@/lib/db/models-v2/collection";
+import { getListModel } from "@/lib/db/models-v2/list";
+import { getListActivityModel } from "@/lib/db/models-v2/list-activity";
+import { getListInviteModel } from "@/lib/db/models-v2/list-invite";
+import { getListProgressModel } from "@/lib/db/models-v2/list-progress";
+import { getListRankingModel } from "@/lib/db/models-v2/list-ranking";
+import { getListRevisionModel } from "@/lib/db/models-v2/list-revision";
+import { getListViewModel } from "@/lib/db/models-v2/list-view";
+import { getPinModel } from "@/lib/db/models-v2/pin";
+import { trashPurgeCutoff } from "@/lib/utils/list-trash";
+
+/**
+ * Permanently deletes trashed lists along with everything recorded against
+ * them: pins, views, progress, rankings, revisions, invites and activity.
+ * They are also taken out of collections. Lists that aren't in the trash are
+ * left alone.
+ */
+export async function purgeLists(listIds: Array<string | Types.ObjectId>) {
+  const [
+    ListModel,
+    PinModel,
+    ListViewModel,
+    ListProgressModel,
+    ListRankingModel,
+    ListRevisionModel,
+    ListInviteModel,
+    ListActivityModel,
+    CollectionModel
+  ] = await Promise.all([
+    getListModel(),
+    getPinModel(),
+    getListViewModel(),
+    getListProgressModel(),
+    getListRankingModel(),
+    getListRevisionModel(),
+    getListInviteModel(),
+    getListActivityModel(),
+    getCollectionModel()
+  ]);
+
+  const trashed = await ListModel.find({ _id: { $in: listIds }, deletedAt: { $ne: null } })
+    .select('_id')
+    .lean();
+  const ids = trashed.map(list => String(list._id));
+  if (ids.length === 0) {
+    return { lists: 0, pins: 0, views: 0 };
+  }
+
+  // Dependents go first so a failure part way leaves the list to try again
+  const [pins, views] = await Promise.all([
+    PinModel.deleteMany({ listId: { $in: ids } }),
+    ListViewModel.deleteMany({ listId: { $in: ids } }),
+    ListProgressModel.deleteMany({ listId: { $in: ids } }),
+    ListRankingModel.deleteMany({ listId: { $in: ids } }),
+    ListRevisionModel.deleteMany({ listId: { $in: ids } }),
+    ListInviteModel.deleteMany({ listId: { $in: ids } }),
+    ListActivityModel.deleteMany({ listId: { $in: ids } }),
+    CollectionModel.updateMany({ listIds: { $in: ids } }, { $pull: { listIds: { $in: ids } } })
+  ]);
+  const lists = await ListModel.deleteMany({ _id: { $in: ids }, deletedAt: { $ne: null } });
+
+  return {
+    lists: lists.deletedCount,
+    pins: pins.deletedCount,
+    views: views.deletedCount
+  };
+}
+
+// Purges every list that has been in the trash for longer than it's kept
+export async function purgeExpiredTrash(now = new Date()) {
+  const ListModel = await getListModel();
+  const expired = await ListModel.find({ deletedAt: { $ne: null, $lte: trashPurgeCutoff(now) } })
+    .select('_id')
+    .lean();
+
+  return purgeLists(expired.map(list => String(list._id)));
+}
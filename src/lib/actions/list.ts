@@ -3,9 +3,16 @@
 import { AuthService } from "@/lib/services/auth.service";
 import { connectToMongoDB } from "@/lib/db/client";
 import { getListModel } from "@/lib/db/models-v2/list";
+import { recordListRevision } from "@/lib/db/models-v2/list-revision";
+import { recordListActivity } from "@/lib/db/models-v2/list-activity";
+import { versionFilter } from "@/lib/utils/list-version";
+import { isSection, itemFieldsField, itemRecipeField, itemTagField, itemTypeField, persistedItemId, savedItemCreatorField, serializeChildItems } from "@/lib/utils/list-items";
+import { describeListChanges } from "@/lib/utils/list-activity";
+import { normalizeTags } from "@/lib/utils/list-tags";
+import { resolveListCategory } from "@/lib/db/models-v2/category";
 import { getEnhancedLists } from "@/lib/actions/lists";
 import { notFound } from "next/navigation";
-import { EnhancedList } from "@/types/list";
+import { EnhancedList, ListCategoryInfo, ListChildItem, ListItemType } from "@/types/list";
 import { FilterQuery, QueryOptions } from "mongoose";
 import { MongoListDocument } from "@/types/mongo";
 import { AuthServerService } from "@/lib/services/auth.server";
@@ -50,18 +57,19 @@ export async function getList(listId: string) {
 export async function updateList(
   listId: string,
   data: {
+    version: number;
     title?: string;
     description?: string;
     category?: string;
+    tags?: string[];
     privacy?: string;
     items?: Array<{
       id: string;
+      type?: ListItemType;
       title: string;
       checked: boolean;
-      childItems?: Array<{
-        title: string;
-        tag?: string;
-      }>;
+      tag?: string;
+      childItems?: ListChildItem[];
     }>;
   }
 ) {
@@ -89,41 +97,59 @@ export async function updateList(
     throw new Error("Unauthorized");
   }
 
+  // Field values and recipes aren't edited here, so items keep the ones
+  // already saved
+  const savedItems = new Map(list.items.map(item => [item._id?.toString(), item]));
+
   // Transform items to map checked to completed if items are being updated
   const transformedItems = data.items?.map(({ checked, id, ...item }) => ({
-    id,
+    ...persistedItemId(id),
+    ...itemTypeField(item),
     title: item.title,
-    completed: checked,
-    childItems: item.childItems?.map(child => ({
-      title: child.title,
-      tag: child.tag
-    }))
+    completed: !isSection(item) && checked,
+    ...(!isSection(item) && itemTagField(item)),
+    childItems: isSection(item) ? [] : serializeChildItems(item.childItems),
+    ...(!isSection(item) && itemFieldsField(savedItems.get(id) || {})),
+    ...(!isSection(item) && itemRecipeField(savedItems.get(id) || {})),
+    ...savedItemCreatorField(savedItems.get(id), user.id)
   }));
 
+  const resolvedCategory = data.category
+    ? await resolveListCategory(data.category, list.owner.clerkId)
+    : undefined;
+  if (resolvedCategory === null) {
+    throw new Error("Unknown category");
+  }
+
   // Create the update operation with explicit typing
   const updateOperation: {
     $set: {
       title?: string;
       description?: string;
       category?: string;
+      categoryInfo?: ListCategoryInfo | null;
+      tags?: string[];
       privacy?: string;
       items?: typeof transformedItems;
     };
     $currentDate: { editedAt: true };
+    $inc: { version: 1 };
   } = {
     $set: {
       ...(data.title && { title: data.title }),
       ...(data.description && { description: data.description }),
-      ...(data.category && { category: data.category }),
+      ...resolvedCategory,
+      ...(data.tags && { tags: normalizeTags(data.tags) }),
       ...(data.privacy && { privacy: data.privacy }),
       ...(transformedItems && { items: transformedItems })
     },
-    $currentDate: { editedAt: true }
+    $currentDate: { editedAt: true },
+    $inc: { version: 1 }
   };
 
-  // Update the list
-  const updatedList = await ListModel.findByIdAndUpdate(
-    listId,
+  // Update the list only if it hasn't been saved since the caller loaded it
+  const updatedList = await ListModel.findOneAndUpdate(
+    { _id: listId, ...versionFilter(data.version) },
     updateOperation,
     { 
       new: true,
@@ -132,9 +158,21 @@ export async function updateList(
   ).lean();
 
   if (!updatedList) {
-    throw new Error("Failed to update list");
+    throw new Error("List was changed by someone else");
   }
 
+  await recordListRevision({
+    listId,
+    previous: list,
+    current: updatedList,
+    editedBy: { clerkId: user.id, username: user.username }
+  });
+  await recordListActivity(
+    listId,
+    { clerkId: user.id, username: user.username },
+    describeListChanges(list, updatedList)
+  );
+
   return updatedList;
 }
 
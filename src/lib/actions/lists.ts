@@ -6,12 +6,17 @@ import { getListModel } from "@/lib/db/models-v2/list";
 import { getUserCacheModel } from "@/lib/db/models-v2/user-cache";
 import { getListViewModel } from "@/lib/db/models-v2/list-view";
 import { getPinModel } from "@/lib/db/models-v2/pin";
+import { getListProgressModel } from "@/lib/db/models-v2/list-progress";
 import { FilterQuery, Types, QueryOptions } from "mongoose";
-import { EnhancedList, List, ListItem, ListCollaborator } from "@/types/list";
+import { EnhancedList, List, ListItem, ListCollaborator, TrashedList } from "@/types/list";
 import { MongoListDocument } from "@/types/mongo";
 import { connectToDatabase } from "@/lib/db";
 import { AuthServerService } from "@/lib/services/auth.server";
 import { ClerkService } from "@/lib/services/authProvider.service";
+import { serializeForkSource } from "@/lib/utils";
+import { summarizeProgress } from "@/lib/utils/list-progress";
+import { trashPurgeDate } from "@/lib/utils/list-trash";
+import { itemFieldsField, itemRecipeField, itemTagField, itemTypeField, serializeChildItems } from "@/lib/utils/list-items";
 
 interface ListViewDocument {
   listId: Types.ObjectId;
@@ -163,6 +168,8 @@ export async function getEnhancedLists(
       title: list.title,
       description: list.description,
       category: list.category as List['category'],
+      categoryInfo: list.categoryInfo || undefined,
+      tags: list.tags || [],
       visibility: list.visibility,
       listType: list.listType || 'bullet',
       owner: {
@@ -172,14 +179,15 @@ export async function getEnhancedLists(
         joinedAt: list.owner.joinedAt?.toISOString() || new Date().toISOString()
       },
       items: list.items?.map((item, index) => ({
-        id: crypto.randomUUID(),
+        id: item._id?.toString() || crypto.randomUUID(),
+        ...itemTypeField(item),
         title: item.title,
         comment: item.comment,
         completed: item.completed || false,
-        childItems: item.childItems?.map(child => ({
-          title: child.title,
-          tag: child.tag
-        })) || []
+        ...itemTagField(item),
+        childItems: serializeChildItems(item.childItems),
+        ...itemFieldsField(item),
+        ...itemRecipeField(item)
       })) || [],
       stats: list.stats || { viewCount: 0, pinCount: 0, copyCount: 0 },
       collaborators: list.collaborators?.map(collab => ({
@@ -191,6 +199,8 @@ export async function getEnhancedLists(
         invitedAt: collab.invitedAt.toISOString(),
         acceptedAt: collab.acceptedAt?.toISOString()
       } as ListCollaborator)),
+      forkedFrom: serializeForkSource(list.forkedFrom),
+      version: list.version || 0,
       lastEditedAt: list.editedAt?.toISOString(),
       createdAt: list.createdAt.toISOString(),
       updatedAt: list.updatedAt.toISOString(),
@@ -219,6 +229,12 @@ export async function getEnhancedLists(
   };
 }
 
+const canEditEnhancedList = (list: EnhancedList, userId: string) =>
+  list.owner.clerkId === userId ||
+  !!list.collaborators?.some(c =>
+    c.clerkId === userId && c.status === 'accepted' && ['admin', 'editor'].includes(c.role)
+  );
+
 export async function getPinnedLists(userId: string) {
   // Ensure database connection
   await connectToDatabase();
@@ -236,12 +252,26 @@ export async function getPinnedLists(userId: string) {
     _id: { $in: listIds }
   });
 
+  // Pinned lists show how far the user has got through them
+  const ListProgressModel = await getListProgressModel();
+  const progressRecords = await ListProgressModel.find({
+    clerkId: userId,
+    listId: { $in: listIds }
+  }).lean();
+  const completedByList = new Map(
+    progressRecords.map(record => [record.listId.toString(), record.completedItemIds])
+  );
+
   // Mark all lists as pinned since they're coming from the pinned lists query
   return {
     ...enhancedLists,
     lists: enhancedLists.lists.map(list => ({
       ...list,
-      isPinned: true
+      isPinned: true,
+      // Lists the user edits track progress with the shared checkmarks
+      progress: canEditEnhancedList(list, userId)
+        ? summarizeProgress(list.items || [], list.items?.filter(item => item.completed).map(item => item.id))
+        : summarizeProgress(list.items || [], completedByList.get(list.id))
     }))
   };
 }
@@ -293,6 +323,26 @@ export async function getSharedLists(userId: string) {
   return getEnhancedLists(query);
 }
 
+export async function getTrashedLists(userId: string): Promise<TrashedList[]> {
+  await connectToMongoDB();
+  const ListModel = await getListModel();
+
+  const lists = await ListModel.find({ 'owner.clerkId': userId, deletedAt: { $ne: null } })
+    .select('title category categoryInfo items deletedAt')
+    .sort({ deletedAt: -1 })
+    .lean();
+
+  return lists.flatMap(({ deletedAt, ...list }) => deletedAt ? [{
+    id: list._id.toString(),
+    title: list.title,
+    category: list.category,
+    categoryInfo: list.categoryInfo || undefined,
+    itemCount: list.items?.length || 0,
+    deletedAt: deletedAt.toISOString(),
+    purgeAt: trashPurgeDate(deletedAt).toISOString()
+  }] : []);
+}
+
 export async function getListCollaborators(listId: string): Promise<UserCache[]> {
   const ListModel = await getListModel();
   const UserCacheModel = await getUserCacheModel();
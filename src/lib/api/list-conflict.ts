@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getEnhancedLists } from "@/lib/actions/lists";
+import { listETag } from "@/lib/utils/list-version";
+
+// Respond to a stale write with the copy currently stored on the server
+export async function listConflictResponse(listId: string) {
+  const { lists } = await getEnhancedLists({ _id: listId });
+  if (lists.length === 0) {
+    return new NextResponse("List not found", { status: 404 });
+  }
+
+  return NextResponse.json(
+    {
+      error: "This list was changed by someone else since you loaded it",
+      list: lists[0]
+    },
+    { status: 409, headers: { ETag: listETag(lists[0].version) } }
+  );
+}
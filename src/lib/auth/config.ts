@@ -7,7 +7,9 @@ export const authConfig: AuthProviderConfig = {
     "/sign-up",
     "/search",
     "/lists/:path*",
+    "/tags/:tag", // Tag browse pages only show public lists
     "/api/lists/:listId", // Only allow viewing individual lists
+    "/api/lists/:listId/export", // Public lists can be exported signed out
     "/api/users/:username", // Public user profile endpoint
     "/api/users/:username/follow/status", // Allow checking follow status
     "/api/webhooks/clerk",
@@ -23,6 +25,9 @@ export const authConfig: AuthProviderConfig = {
     "/profile/:username/following",
     "/profile/:username/followers",
     "/profile/:username",
+    "/profile/:username/collections", // Private collections are left out for others
+    "/profile/:username/collections/:collectionId",
+    "/invite/:token", // Signed-out visitors are asked to sign in to accept
     "/about",
     "/about/(.*)",
     "/feedback",
@@ -1,4 +1,6 @@
-import type { ListDocument, ListCollaborator } from "@/lib/db/models-v2/list";
+import type { ListDocument, ListCollaborator, ListItem } from "@/lib/db/models-v2/list";
+import { isSection, itemFieldsField, itemTypeField, serializeChildItems } from "@/lib/utils/list-items";
+import type { CollaboratorRole } from "@/types/list";
 
 // Helper function to check if user has access to the list
 export async function hasListAccess(list: ListDocument, userId: string | null) {
@@ -25,4 +27,135 @@ export async function canEditList(list: ListDocument, userId: string | null) {
       ['admin', 'editor'].includes(c.role)
     )
   );
-} 
\ No newline at end of file
+} 
+type ListMembership = Pick<ListDocument, 'owner' | 'collaborators'>;
+
+// Helper function to check if user is the owner or an accepted collaborator
+export function isListMember(list: ListMembership, userId: string | null) {
+  if (!userId) return false;
+
+  return (
+    list.owner.clerkId === userId ||
+    (list.collaborators || []).some((c: ListCollaborator) =>
+      c.clerkId === userId && c.status === 'accepted'
+    )
+  );
+}
+
+// Helper function to check if user is the owner or an accepted admin
+export function canManageList(list: ListMembership, userId: string | null) {
+  if (!userId) return false;
+
+  return (
+    list.owner.clerkId === userId ||
+    (list.collaborators || []).some((c: ListCollaborator) =>
+      c.clerkId === userId &&
+      c.status === 'accepted' &&
+      c.role === 'admin'
+    )
+  );
+}
+
+type ListRole = 'owner' | CollaboratorRole;
+
+// Roles that can change anything on the list's items
+const EDITING_ROLES: ListRole[] = ['owner', 'admin', 'editor'];
+
+// The user's role on the list, or null if they're not the owner or an
+// accepted collaborator
+export function getListRole(list: ListMembership, userId: string | null): ListRole | null {
+  if (!userId) return null;
+  if (list.owner.clerkId === userId) return 'owner';
+
+  const collaborator = (list.collaborators || []).find((c: ListCollaborator) =>
+    c.clerkId === userId && c.status === 'accepted'
+  );
+  return collaborator?.role || null;
+}
+
+// Helper function to check if user can add items, which contributors can too
+export function canAddListItems(list: ListMembership, userId: string | null) {
+  const role = getListRole(list, userId);
+  return !!role && [...EDITING_ROLES, 'contributor'].includes(role);
+}
+
+// Helper function to check if user can change or remove an item. Contributors
+// can only change the items they added.
+export function canEditListItem(list: ListMembership, item: Pick<ListItem, 'createdBy'>, userId: string | null) {
+  const role = getListRole(list, userId);
+  if (!role) return false;
+
+  return EDITING_ROLES.includes(role) || (role === 'contributor' && item.createdBy === userId);
+}
+
+// Helper function to check if user can write item comments, which every role
+// but viewer can
+export function canCommentOnList(list: ListMembership, userId: string | null) {
+  const role = getListRole(list, userId);
+  return !!role && role !== 'viewer';
+}
+
+type ComparableItem = Omit<ListItem, '_id'> & { _id?: { toString(): string } | string };
+
+const itemId = (item: ComparableItem) => item._id?.toString();
+
+// What an item says, for telling whether a save changed it. Recipes are left
+// out because full saves always keep the saved ones.
+function itemContent(item: ComparableItem, withComment = true) {
+  const { fields } = itemFieldsField(item);
+  return JSON.stringify({
+    ...itemTypeField(item),
+    title: item.title,
+    ...(withComment && { comment: item.comment || '' }),
+    completed: !isSection(item) && !!item.completed,
+    childItems: serializeChildItems(item.childItems),
+    fields: fields ? Object.entries(fields).sort(([a], [b]) => a.localeCompare(b)) : []
+  });
+}
+
+/**
+ * Why the user can't replace the list's items with `nextItems`, or null if
+ * they can. Contributors can add items and change or remove their own, but
+ * everyone else's have to stay where they are with only their comments
+ * changed. Commenters can only change comments.
+ */
+export function listItemChangeError(
+  list: ListMembership & Pick<ListDocument, 'items'>,
+  userId: string | null,
+  nextItems: ComparableItem[]
+): string | null {
+  const role = getListRole(list, userId);
+  if (role && EDITING_ROLES.includes(role)) return null;
+
+  if (role === 'contributor') {
+    const othersItems = list.items.filter(item => item.createdBy !== userId);
+    const othersIds = new Set(othersItems.map(itemId));
+    const nextOthers = nextItems.filter(item => othersIds.has(itemId(item)));
+
+    if (
+      nextOthers.length !== othersItems.length ||
+      othersItems.some((item, index) => itemId(nextOthers[index]) !== itemId(item))
+    ) {
+      return "Contributors can't remove or reorder items added by others";
+    }
+    if (othersItems.some((item, index) => itemContent(nextOthers[index], false) !== itemContent(item, false))) {
+      return "Contributors can only comment on items added by others";
+    }
+    return null;
+  }
+
+  if (role === 'commenter') {
+    if (
+      nextItems.length !== list.items.length ||
+      list.items.some((item, index) =>
+        itemId(nextItems[index]) !== itemId(item) ||
+        itemContent(nextItems[index], false) !== itemContent(item, false)
+      )
+    ) {
+      return "Commenters can only change item comments";
+    }
+    return null;
+  }
+
+  return "Not authorized to edit this list";
+}
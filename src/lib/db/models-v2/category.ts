@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import connectToDatabase from '../mongodb';
+import { isBuiltInCategory, type ListCategoryInfo } from '@/types/list';
+import { CATEGORY_ICONS } from '@/types/category';
+
+export interface CategoryDocument extends Document {
+  owner: {
+    userId: mongoose.Types.ObjectId;
+    clerkId: string;
+  };
+  slug: string;
+  name: string;
+  color: string;
+  icon: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const categorySchema = new Schema<CategoryDocument>({
+  owner: {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    clerkId: { type: String, required: true }
+  },
+  slug: { type: String, required: true },
+  name: { type: String, required: true, trim: true, maxlength: 40 },
+  color: { type: String, required: true, match: /^#[0-9a-f]{6}$/i },
+  icon: { type: String, enum: CATEGORY_ICONS, default: 'tag' }
+}, {
+  timestamps: true
+});
+
+// Slugs are unique per user; the same slug from different users is browsed together
+categorySchema.index({ 'owner.clerkId': 1, slug: 1 }, { unique: true });
+
+// Initialize model
+let CategoryModel: mongoose.Model<CategoryDocument> | null = null;
+
+export const getCategoryModel = async () => {
+  if (!CategoryModel) {
+    const connection = await connectToDatabase();
+    try {
+      CategoryModel = connection.model<CategoryDocument>('Category', categorySchema);
+    } catch (error) {
+      CategoryModel = connection.model<CategoryDocument>('Category');
+    }
+  }
+  return CategoryModel;
+};
+
+export function slugifyCategoryName(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Works out what to store on a list for the given category. Built-in
+ * categories are stored as is; anything else has to be one of the list
+ * owner's own categories, whose display info is copied onto the list.
+ * Returns null for an unknown category; the result can be `$set` as is.
+ */
+export async function resolveListCategory(
+  category: string,
+  ownerClerkId: string
+): Promise<{ category: string; categoryInfo: ListCategoryInfo | null } | null> {
+  if (isBuiltInCategory(category)) {
+    return { category, categoryInfo: null };
+  }
+
+  const CategoryModel = await getCategoryModel();
+  const userCategory = await CategoryModel.findOne({
+    'owner.clerkId': ownerClerkId,
+    slug: category
+  }).lean();
+
+  if (!userCategory) {
+    return null;
+  }
+
+  return {
+    category: userCategory.slug,
+    categoryInfo: {
+      name: userCategory.name,
+      color: userCategory.color,
+      icon: userCategory.icon
+    }
+  };
+}
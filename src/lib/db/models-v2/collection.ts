@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import connectToDatabase from '../mongodb';
+import type { CollectionSort, CollectionVisibility } from '@/types/collection';
+
+export interface CollectionDocument extends Document {
+  owner: {
+    userId: mongoose.Types.ObjectId;
+    clerkId: string;
+    username: string;
+  };
+  name: string;
+  description?: string;
+  visibility: CollectionVisibility;
+  sort: CollectionSort;
+  // Lists the owner made or pinned, in their custom order
+  listIds: mongoose.Types.ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const collectionSchema = new Schema<CollectionDocument>({
+  owner: {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    clerkId: { type: String, required: true },
+    username: { type: String, required: true }
+  },
+  name: { type: String, required: true, trim: true, maxlength: 60 },
+  description: { type: String, trim: true, maxlength: 300 },
+  visibility: { type: String, enum: ['public', 'private'], default: 'private' },
+  sort: { type: String, enum: ['recent', 'title', 'manual'], default: 'recent' },
+  listIds: [{ type: Schema.Types.ObjectId, ref: 'List' }]
+}, {
+  timestamps: true
+});
+
+// A user's collections, and the collections a list is in
+collectionSchema.index({ 'owner.clerkId': 1, createdAt: -1 });
+collectionSchema.index({ listIds: 1 });
+
+// Initialize model
+let CollectionModel: mongoose.Model<CollectionDocument> | null = null;
+
+export const getCollectionModel = async () => {
+  if (!CollectionModel) {
+    const connection = await connectToDatabase();
+    try {
+      CollectionModel = connection.model<CollectionDocument>('Collection', collectionSchema);
+    } catch (error) {
+      CollectionModel = connection.model<CollectionDocument>('Collection');
+    }
+  }
+  return CollectionModel;
+};
@@ -0,0 +1,106 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import connectToDatabase from '../mongodb';
+import { getUserModel } from './user';
+import type { ListActivityInput, ListActivitySubject, ListActivityType } from '@/types/list-activity';
+
+// One change to a list, shown in the list's activity timeline
+export interface ListActivityDocument extends Document {
+  listId: mongoose.Types.ObjectId;
+  type: ListActivityType;
+  actor: {
+    clerkId: string;
+    username?: string;
+  };
+  itemId?: string;
+  itemTitle?: string;
+  from?: string;
+  to?: string;
+  fields?: string[];
+  subject?: ListActivitySubject;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const listActivitySchema = new Schema<ListActivityDocument>({
+  listId: { type: Schema.Types.ObjectId, ref: 'List', required: true },
+  type: { type: String, required: true },
+  actor: {
+    clerkId: { type: String, required: true },
+    username: { type: String }
+  },
+  itemId: { type: String },
+  itemTitle: { type: String },
+  from: { type: String },
+  to: { type: String },
+  fields: { type: [String], default: undefined },
+  subject: {
+    type: new Schema({
+      clerkId: { type: String },
+      username: { type: String },
+      email: { type: String }
+    }, { _id: false }),
+    default: undefined
+  }
+}, {
+  timestamps: true
+});
+
+// The timeline pages through a list's activity newest first, optionally for
+// one person
+listActivitySchema.index({ listId: 1, _id: -1 });
+listActivitySchema.index({ listId: 1, 'actor.clerkId': 1, _id: -1 });
+
+// Initialize model
+let ListActivityModel: mongoose.Model<ListActivityDocument> | null = null;
+
+export const getListActivityModel = async () => {
+  if (!ListActivityModel) {
+    const connection = await connectToDatabase();
+    try {
+      ListActivityModel = connection.model<ListActivityDocument>('ListActivity', listActivitySchema);
+    } catch (error) {
+      ListActivityModel = connection.model<ListActivityDocument>('ListActivity');
+    }
+  }
+  return ListActivityModel;
+};
+
+// The collaborator a change is about, with their username when they have an
+// account
+export async function listActivitySubject(collaborator: { clerkId?: string; email?: string }): Promise<ListActivitySubject> {
+  if (!collaborator.clerkId) return { email: collaborator.email };
+
+  const UserModel = await getUserModel();
+  const user = await UserModel.findOne({ clerkId: collaborator.clerkId }).select('username').lean();
+  return { clerkId: collaborator.clerkId, username: user?.username };
+}
+
+/**
+ * Adds entries to a list's activity timeline. The change they describe has
+ * already been saved, so a failure here is logged rather than thrown.
+ */
+export async function recordListActivity(
+  listId: mongoose.Types.ObjectId | string,
+  actor: { clerkId: string; username?: string | null },
+  activity: ListActivityInput[]
+) {
+  if (activity.length === 0) return;
+
+  try {
+    let username = actor.username || undefined;
+    if (!username) {
+      const UserModel = await getUserModel();
+      const user = await UserModel.findOne({ clerkId: actor.clerkId }).select('username').lean();
+      username = user?.username;
+    }
+
+    const ListActivityModel = await getListActivityModel();
+    await ListActivityModel.insertMany(activity.map(entry => ({
+      ...entry,
+      listId,
+      actor: { clerkId: actor.clerkId, username }
+    })));
+  } catch (error) {
+    console.error("Error recording list activity:", error);
+  }
+}
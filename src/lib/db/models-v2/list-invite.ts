@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import connectToDatabase from '../mongodb';
+import type { CollaboratorRole } from '@/types/list';
+
+// A link that makes whoever opens it a collaborator on a list. The link
+// carries a signed token with this document's ID; the document is what makes
+// the link single-use.
+export interface ListInviteDocument extends Document {
+  listId: mongoose.Types.ObjectId;
+  role: CollaboratorRole;
+  // The address the link was emailed to, if it was
+  email?: string;
+  invitedBy: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  usedBy?: string | null;
+  // Set when the pending collaborator the link was sent for is removed
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const listInviteSchema = new Schema<ListInviteDocument>({
+  listId: { type: Schema.Types.ObjectId, ref: 'List', required: true },
+  role: { type: String, enum: ['admin', 'editor', 'contributor', 'commenter', 'viewer'], required: true },
+  email: { type: String },
+  invitedBy: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date, default: null },
+  usedBy: { type: String, default: null },
+  revokedAt: { type: Date, default: null }
+}, {
+  timestamps: true
+});
+
+listInviteSchema.index({ listId: 1, createdAt: -1 });
+
+// Initialize model
+let ListInviteModel: mongoose.Model<ListInviteDocument> | null = null;
+
+export const getListInviteModel = async () => {
+  if (!ListInviteModel) {
+    const connection = await connectToDatabase();
+    try {
+      ListInviteModel = connection.model<ListInviteDocument>('ListInvite', listInviteSchema);
+    } catch (error) {
+      ListInviteModel = connection.model<ListInviteDocument>('ListInvite');
+    }
+  }
+  return ListInviteModel;
+};
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import connectToDatabase from '../mongodb';
+
+// One user's own checkmarks on a list, kept apart from the list's shared
+// `completed` flags so people can track lists they can't edit
+export interface ListProgressDocument extends Document {
+  clerkId: string;
+  listId: mongoose.Types.ObjectId;
+  completedItemIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const listProgressSchema = new Schema<ListProgressDocument>({
+  clerkId: { type: String, required: true },
+  listId: { type: Schema.Types.ObjectId, ref: 'List', required: true },
+  completedItemIds: { type: [String], default: [] }
+}, {
+  timestamps: true
+});
+
+// One record per user-list combination
+listProgressSchema.index({ clerkId: 1, listId: 1 }, { unique: true });
+
+// Initialize model
+let ListProgressModel: mongoose.Model<ListProgressDocument> | null = null;
+
+export const getListProgressModel = async () => {
+  if (!ListProgressModel) {
+    const connection = await connectToDatabase();
+    try {
+      ListProgressModel = connection.model<ListProgressDocument>('ListProgress', listProgressSchema);
+    } catch (error) {
+      ListProgressModel = connection.model<ListProgressDocument>('ListProgress');
+    }
+  }
+  return ListProgressModel;
+};
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import connectToDatabase from '../mongodb';
+import type { RankingComparison } from '@/lib/utils/list-ranking';
+
+// A ranking by comparison that one user has started on a list. Only the
+// answers are kept; the questions are worked out again from them.
+export interface ListRankingDocument extends Document {
+  clerkId: string;
+  listId: mongoose.Types.ObjectId;
+  comparisons: RankingComparison[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ComparisonSchema = new Schema({
+  winner: { type: String, required: true },
+  loser: { type: String, required: true }
+}, { _id: false });
+
+const listRankingSchema = new Schema<ListRankingDocument>({
+  clerkId: { type: String, required: true },
+  listId: { type: Schema.Types.ObjectId, ref: 'List', required: true },
+  comparisons: { type: [ComparisonSchema], default: [] }
+}, {
+  timestamps: true
+});
+
+// One ranking per user-list combination
+listRankingSchema.index({ clerkId: 1, listId: 1 }, { unique: true });
+
+// Initialize model
+let ListRankingModel: mongoose.Model<ListRankingDocument> | null = null;
+
+export const getListRankingModel = async () => {
+  if (!ListRankingModel) {
+    const connection = await connectToDatabase();
+    try {
+      ListRankingModel = connection.model<ListRankingDocument>('ListRanking', listRankingSchema);
+    } catch (error) {
+      ListRankingModel = connection.model<ListRankingDocument>('ListRanking');
+    }
+  }
+  return ListRankingModel;
+};
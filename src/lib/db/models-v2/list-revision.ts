@@ -0,0 +1,182 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import connectToDatabase from '../mongodb';
+import { ChildItemSchema, RecipeSchema, type ListDocument } from './list';
+import { itemCreatorField, itemFieldsField, itemRecipeField, itemTagField, itemTypeField, serializeChildItems } from '@/lib/utils/list-items';
+import type { ItemFieldValues, ItemRecipe, ListChildItem, ListItemType } from '@/types/list';
+
+interface RevisionItem {
+  // The item's id in the list, so a restore brings back the same items rather
+  // than new ones. Child items have no ids of their own and are kept as-is.
+  _id?: mongoose.Types.ObjectId;
+  type?: ListItemType;
+  title: string;
+  comment?: string;
+  completed?: boolean;
+  tag?: string;
+  childItems?: ListChildItem[];
+  fields?: ItemFieldValues;
+  recipe?: ItemRecipe;
+  createdBy?: string;
+}
+
+export interface ListRevisionSnapshot {
+  title: string;
+  description?: string;
+  visibility: 'public' | 'unlisted' | 'private';
+  items: RevisionItem[];
+}
+
+export interface ListRevisionDocument extends Document {
+  listId: mongoose.Types.ObjectId;
+  revision: number;
+  snapshot: ListRevisionSnapshot;
+  editedBy: {
+    clerkId: string;
+    username?: string;
+  };
+  restoredFrom?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RevisionItemSchema = new Schema({
+  _id: { type: Schema.Types.ObjectId },
+  type: { type: String, enum: ['item', 'section'] },
+  title: { type: String, required: true },
+  comment: { type: String },
+  completed: { type: Boolean, default: false },
+  tag: { type: String },
+  childItems: [ChildItemSchema],
+  fields: { type: Schema.Types.Mixed },
+  recipe: { type: RecipeSchema },
+  createdBy: { type: String }
+}, { _id: false });
+
+const SnapshotSchema = new Schema({
+  title: { type: String, required: true },
+  description: { type: String },
+  visibility: { type: String, enum: ['public', 'unlisted', 'private'], required: true },
+  items: [RevisionItemSchema]
+}, { _id: false });
+
+const listRevisionSchema = new Schema<ListRevisionDocument>({
+  listId: { type: Schema.Types.ObjectId, ref: 'List', required: true },
+  revision: { type: Number, required: true },
+  snapshot: { type: SnapshotSchema, required: true },
+  editedBy: {
+    clerkId: { type: String, required: true },
+    username: { type: String }
+  },
+  restoredFrom: { type: Number }
+}, {
+  timestamps: true
+});
+
+// One record per revision number, newest first for the history view
+listRevisionSchema.index({ listId: 1, revision: -1 }, { unique: true });
+
+// Initialize model
+let ListRevisionModel: mongoose.Model<ListRevisionDocument> | null = null;
+
+export const getListRevisionModel = async () => {
+  if (!ListRevisionModel) {
+    const connection = await connectToDatabase();
+    try {
+      ListRevisionModel = connection.model<ListRevisionDocument>('ListRevision', listRevisionSchema);
+    } catch (error) {
+      ListRevisionModel = connection.model<ListRevisionDocument>('ListRevision');
+    }
+  }
+  return ListRevisionModel;
+};
+
+type SnapshotSource = Pick<ListDocument, 'title' | 'description' | 'visibility' | 'items'>;
+
+export function createRevisionSnapshot(list: SnapshotSource): ListRevisionSnapshot {
+  return {
+    title: list.title,
+    description: list.description,
+    visibility: list.visibility,
+    items: (list.items || []).map(item => ({
+      _id: item._id,
+      ...itemTypeField(item),
+      title: item.title,
+      comment: item.comment,
+      completed: item.completed || false,
+      ...itemTagField(item),
+      childItems: serializeChildItems(item.childItems),
+      ...itemFieldsField(item),
+      ...itemRecipeField(item),
+      ...itemCreatorField(item)
+    }))
+  };
+}
+
+interface RevisionInput {
+  listId: mongoose.Types.ObjectId | string;
+  previous?: SnapshotSource & { owner: ListDocument['owner'] };
+  current: SnapshotSource;
+  editedBy: { clerkId: string; username?: string | null };
+  restoredFrom?: number;
+}
+
+// How many times to pick a revision number before giving up
+const MAX_REVISION_ATTEMPTS = 3;
+
+const isDuplicateKeyError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+
+/**
+ * Records the state of a list after a save. The first time a list is revised
+ * the state it had before the save is stored as revision 1, so the original
+ * version can always be restored. Every save adds a revision, so whatever a
+ * save replaced can be restored from the one before it.
+ *
+ * Two saves close together can pick the same revision number, in which case
+ * the later one tries again with the next number. The list is already saved
+ * by the time this runs, so a failure is logged rather than thrown.
+ */
+export async function recordListRevision(input: RevisionInput) {
+  for (let attempt = 1; attempt <= MAX_REVISION_ATTEMPTS; attempt++) {
+    try {
+      return await writeListRevision(input);
+    } catch (error) {
+      if (isDuplicateKeyError(error) && attempt < MAX_REVISION_ATTEMPTS) continue;
+      console.error("Error recording list revision:", error);
+      return null;
+    }
+  }
+  return null;
+}
+
+async function writeListRevision({ listId, previous, current, editedBy, restoredFrom }: RevisionInput) {
+  const ListRevisionModel = await getListRevisionModel();
+
+  const latest = await ListRevisionModel.findOne({ listId })
+    .sort({ revision: -1 })
+    .select({ revision: 1 })
+    .lean();
+
+  let nextRevision = (latest?.revision || 0) + 1;
+
+  if (!latest && previous) {
+    await ListRevisionModel.create({
+      listId,
+      revision: nextRevision,
+      snapshot: createRevisionSnapshot(previous),
+      editedBy: { clerkId: previous.owner.clerkId }
+    });
+    nextRevision++;
+  }
+
+  return ListRevisionModel.create({
+    listId,
+    revision: nextRevision,
+    snapshot: createRevisionSnapshot(current),
+    editedBy: {
+      clerkId: editedBy.clerkId,
+      username: editedBy.username || undefined
+    },
+    restoredFrom
+  });
+}
@@ -1,6 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import connectToDatabase from '../mongodb';
-import { LIST_CATEGORIES } from '@/types/list';
+import type { ItemFieldValues, ItemRecipe, ListCategoryInfo, ListChildItem, ListItemType } from '@/types/list';
 
 interface ListOwner {
   userId: mongoose.Types.ObjectId;
@@ -11,52 +11,110 @@ export interface ListCollaborator {
   userId?: mongoose.Types.ObjectId;
   clerkId?: string;
   email?: string;
-  role: 'admin' | 'editor' | 'viewer';
+  role: 'admin' | 'editor' | 'contributor' | 'commenter' | 'viewer';
   status: 'pending' | 'accepted' | 'rejected';
   invitedAt: Date;
   acceptedAt?: Date;
   _isEmailInvite?: boolean;
 }
 
-interface ListItem {
+export interface ListItem {
+  _id: mongoose.Types.ObjectId;
+  type?: ListItemType;
   title: string;
   comment?: string;
   completed?: boolean;
-  childItems?: Array<{
-    title: string;
-    tag?: string;
-  }>;
+  tag?: string;
+  childItems?: ListChildItem[];
+  fields?: ItemFieldValues;
+  recipe?: ItemRecipe;
+  // Clerk ID of whoever added the item, missing on items added before this
+  // was recorded
+  createdBy?: string;
+}
+
+// The list a copy was made from, recorded when the copy is created
+export interface ListForkSource {
+  listId: mongoose.Types.ObjectId;
+  owner: {
+    clerkId: string;
+    username?: string;
+  };
+  title: string;
+  version: number;
+  forkedAt: Date;
+  // The original's items as of the copy or the last pull, used as the base
+  // when comparing the two lists
+  baseItems?: ListItem[];
+  pulledAt?: Date;
+}
+
+// An offer from the owner to hand the list over to one of its collaborators,
+// waiting for that collaborator to accept
+export interface ListOwnershipTransfer {
+  clerkId: string;
+  // Whether the current owner stays on as an admin afterwards
+  keepAsAdmin: boolean;
+  requestedAt: Date;
 }
 
 export interface ListDocument extends Document {
   title: string;
   description?: string;
   category: string;
+  categoryInfo?: ListCategoryInfo | null;
+  tags: string[];
   visibility: 'public' | 'unlisted' | 'private';
   listType: 'ordered' | 'bullet';
   owner: ListOwner;
   collaborators: ListCollaborator[];
   items: ListItem[];
+  forkedFrom?: ListForkSource | null;
+  ownershipTransfer?: ListOwnershipTransfer | null;
   stats: {
     viewCount: number;
     pinCount: number;
     copyCount: number;
   };
+  version: number;
   createdAt: Date;
   updatedAt: Date;
   editedAt?: Date;
+  // Set while the list is in the trash
+  deletedAt?: Date | null;
 }
 
 // Define sub-schemas first
+// Sub-items hold their own sub-items, so the schema refers to itself
+export const ChildItemSchema = new Schema({
+  title: { type: String, required: true },
+  tag: { type: String }
+}, { _id: false });
+ChildItemSchema.add({ childItems: [ChildItemSchema] });
+
+const IngredientSchema = new Schema({
+  quantity: { type: Number },
+  unit: { type: String },
+  name: { type: String, required: true }
+}, { _id: false });
+
+export const RecipeSchema = new Schema({
+  ingredients: [IngredientSchema],
+  steps: [String]
+}, { _id: false });
+
 const ListItemSchema = new Schema({
+  type: { type: String, enum: ['item', 'section'], default: 'item' },
   title: { type: String, required: true },
   comment: { type: String },
   completed: { type: Boolean, default: false },
-  childItems: [{
-    title: { type: String, required: true },
-    tag: { type: String }
-  }]
-}, { _id: false });
+  tag: { type: String },
+  childItems: [ChildItemSchema],
+  // Validated against the list's category with itemFieldsSchema before saving
+  fields: { type: Schema.Types.Mixed },
+  recipe: { type: RecipeSchema },
+  createdBy: { type: String }
+});
 
 const OwnerSchema = new Schema({
   userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
@@ -67,13 +125,38 @@ const CollaboratorSchema = new Schema({
   userId: { type: Schema.Types.ObjectId, ref: 'User' },
   clerkId: { type: String },
   email: { type: String },
-  role: { type: String, enum: ['admin', 'editor', 'viewer'], required: true },
+  role: { type: String, enum: ['admin', 'editor', 'contributor', 'commenter', 'viewer'], required: true },
   status: { type: String, enum: ['pending', 'accepted', 'rejected'], required: true },
   invitedAt: { type: Date, required: true },
   acceptedAt: { type: Date },
   _isEmailInvite: { type: Boolean, default: false }
 }, { _id: false });
 
+const CategoryInfoSchema = new Schema({
+  name: { type: String, required: true },
+  color: { type: String, required: true },
+  icon: { type: String, required: true }
+}, { _id: false });
+
+const ForkSourceSchema = new Schema({
+  listId: { type: Schema.Types.ObjectId, ref: 'List', required: true },
+  owner: {
+    clerkId: { type: String, required: true },
+    username: { type: String }
+  },
+  title: { type: String, required: true },
+  version: { type: Number, default: 0 },
+  forkedAt: { type: Date, required: true },
+  baseItems: [ListItemSchema],
+  pulledAt: { type: Date }
+}, { _id: false });
+
+const OwnershipTransferSchema = new Schema({
+  clerkId: { type: String, required: true },
+  keepAsAdmin: { type: Boolean, default: true },
+  requestedAt: { type: Date, required: true }
+}, { _id: false });
+
 const StatsSchema = new Schema({
   viewCount: { type: Number, default: 0 },
   pinCount: { type: Number, default: 0 },
@@ -83,14 +166,22 @@ const StatsSchema = new Schema({
 const listSchema = new Schema<ListDocument>({
   title: { type: String, required: true },
   description: { type: String },
-  category: { type: String, enum: LIST_CATEGORIES, required: true },
+  // A built-in category or the slug of one of the owner's own categories
+  category: { type: String, required: true },
+  categoryInfo: { type: CategoryInfoSchema },
+  // Normalized with normalizeTags before saving
+  tags: { type: [String], default: [] },
   visibility: { type: String, enum: ['public', 'unlisted', 'private'], default: 'public' },
   listType: { type: String, enum: ['ordered', 'bullet'], default: 'ordered' },
   owner: { type: OwnerSchema, required: true },
   collaborators: [CollaboratorSchema],
   items: [ListItemSchema],
+  forkedFrom: { type: ForkSourceSchema },
+  ownershipTransfer: { type: OwnershipTransferSchema, default: null },
   stats: { type: StatsSchema, default: () => ({}) },
-  editedAt: { type: Date }
+  version: { type: Number, default: 0 },
+  editedAt: { type: Date },
+  deletedAt: { type: Date, default: null }
 }, {
   timestamps: true,
   strict: true
@@ -101,15 +192,23 @@ const listSchema = new Schema<ListDocument>({
 listSchema.index({
   title: 'text',
   description: 'text',
+  tags: 'text',
   'items.title': 'text'
 }, {
   weights: {
     title: 10,        // Highest priority
+    tags: 5,
     'items.title': 5, // Medium priority
     description: 1    // Lower priority
   }
 });
 
+// Tag browsing
+listSchema.index({ tags: 1, visibility: 1 });
+
+// Copies of a list
+listSchema.index({ 'forkedFrom.listId': 1, visibility: 1 });
+
 // Access control index
 listSchema.index({ 
   visibility: 1,
@@ -120,6 +219,27 @@ listSchema.index({
   'collaborators.status': 1
 });
 
+// An owner's trash
+listSchema.index({ 'owner.clerkId': 1, deletedAt: 1 });
+
+// Lists in the trash are left out of every query and aggregation, unless the
+// query filters on deletedAt itself
+listSchema.pre(
+  ['find', 'findOne', 'findOneAndUpdate', 'countDocuments', 'updateOne', 'updateMany'],
+  function() {
+    if (!('deletedAt' in this.getFilter())) {
+      this.where({ deletedAt: null });
+    }
+  }
+);
+
+listSchema.pre('aggregate', function() {
+  const [firstStage] = this.pipeline();
+  if (!firstStage || !('$match' in firstStage) || !('deletedAt' in firstStage.$match)) {
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  }
+});
+
 // Initialize model
 let ListModel: mongoose.Model<ListDocument> | null = null;
 
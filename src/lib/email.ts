@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import { format } from 'date-fns';
 
 const transporter = nodemailer.createTransport({
   host: process.env.SMTP_HOST,
@@ -15,6 +16,9 @@ interface SendCollaborationInviteEmailParams {
   inviterName: string;
   listTitle: string;
   listUrl: string;
+  // Signed link that adds whoever accepts it as a collaborator
+  inviteUrl: string;
+  inviteExpiresAt: Date;
   note?: string;
 }
 
@@ -23,6 +27,8 @@ export async function sendCollaborationInviteEmail({
   inviterName,
   listTitle,
   listUrl,
+  inviteUrl,
+  inviteExpiresAt,
   note
 }: SendCollaborationInviteEmailParams) {
   const appUrl = process.env.NEXT_PUBLIC_APP_URL;
@@ -31,8 +37,7 @@ export async function sendCollaborationInviteEmail({
     throw new Error('Application URL is not configured');
   }
 
-  const signUpUrl = `${appUrl}/sign-up`;
-  console.log('Generating email with URLs:', { appUrl, signUpUrl, listUrl });
+  console.log('Generating email with URLs:', { appUrl, listUrl });
   
   const html = `
     <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
@@ -50,7 +55,7 @@ export async function sendCollaborationInviteEmail({
       <p>Favely is a platform for creating and sharing lists with friends.</p>
       
       <div style="margin: 2em 0;">
-        <a href="${signUpUrl}" style="
+        <a href="${inviteUrl}" style="
           display: inline-block;
           background-color: #000;
           color: #fff;
@@ -58,7 +63,7 @@ export async function sendCollaborationInviteEmail({
           text-decoration: none;
           border-radius: 6px;
           margin-right: 12px;
-        ">Create Account</a>
+        ">Accept Invite</a>
         
         <a href="${listUrl}" style="
           display: inline-block;
@@ -72,7 +77,8 @@ export async function sendCollaborationInviteEmail({
       </div>
       
       <p style="color: #666; font-size: 0.9em;">
-        If you already have an account, you can simply click "View List" to see the collaboration.
+        You can accept with any Favely account, or create one when you open the invite.
+        The invite works once and expires on ${format(inviteExpiresAt, 'MMMM d, yyyy')}.
       </p>
     </div>
   `;
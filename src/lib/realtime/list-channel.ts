@@ -0,0 +1,122 @@
+import { EventEmitter } from 'events';
+import type { ListDocument } from '@/lib/db/models-v2/list';
+import { isListMember } from '@/lib/auth/permissions';
+import { serializeListItem } from '@/lib/utils/list-items';
+import type {
+  ListChangeEvent,
+  ListChangeType,
+  ListEvent,
+  ListPresenceUser
+} from '@/types/list-realtime';
+
+/**
+ * In-process pub/sub for list events. The app runs as a single Node process,
+ * so every open event stream for a list lives in the same emitter.
+ */
+interface ListChannels {
+  emitter: EventEmitter;
+  presence: Map<string, Map<string, ListPresenceUser>>;
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var listChannels: ListChannels | undefined;
+}
+
+// Keep the channels on `global` so they survive hot reloads in development
+const channels: ListChannels = global.listChannels || {
+  emitter: new EventEmitter(),
+  presence: new Map()
+};
+
+if (!global.listChannels) {
+  channels.emitter.setMaxListeners(0);
+  global.listChannels = channels;
+}
+
+type ListMembers = Pick<ListDocument, 'owner' | 'collaborators'>;
+
+/**
+ * Streams a list's events to one person. Events published with the list's
+ * current members are checked against them, and `onAccessLost` is called
+ * instead once the person is no longer one, e.g. after being removed.
+ */
+export function subscribeToList(
+  listId: string,
+  clerkId: string,
+  listener: (event: ListEvent) => void,
+  onAccessLost: () => void
+) {
+  const handler = (event: ListEvent | null, members?: ListMembers) => {
+    if (members && !isListMember(members, clerkId)) {
+      onAccessLost();
+    } else if (event) {
+      listener(event);
+    }
+  };
+  channels.emitter.on(listId, handler);
+  return () => {
+    channels.emitter.off(listId, handler);
+  };
+}
+
+export function publishListEvent(listId: string, event: ListEvent) {
+  channels.emitter.emit(listId, event);
+}
+
+export function getListPresence(listId: string): ListPresenceUser[] {
+  return Array.from(channels.presence.get(listId)?.values() || []);
+}
+
+// Closes the streams of anyone who is no longer one of the list's members
+export function publishListMembersChange(listId: string, list: ListMembers) {
+  channels.emitter.emit(listId, null, list);
+}
+
+function publishPresence(listId: string) {
+  publishListEvent(listId, { type: 'presence', users: getListPresence(listId) });
+}
+
+export function joinListPresence(listId: string, user: ListPresenceUser) {
+  const connections = channels.presence.get(listId) || new Map();
+  connections.set(user.connectionId, user);
+  channels.presence.set(listId, connections);
+  publishPresence(listId);
+}
+
+export function leaveListPresence(listId: string, connectionId: string) {
+  const connections = channels.presence.get(listId);
+  if (!connections?.delete(connectionId)) return;
+  if (connections.size === 0) {
+    channels.presence.delete(listId);
+  }
+  publishPresence(listId);
+}
+
+/**
+ * Tells everyone viewing a list that it changed. The event carries the saved
+ * items so clients can merge them with their own unsaved edits, so it only
+ * goes to people who are still members.
+ */
+export function publishListChange(
+  listId: string,
+  list: Pick<ListDocument, 'title' | 'description' | 'items' | 'version'> & ListMembers,
+  change: ListChangeType,
+  actor: { clerkId: string; username?: string | null },
+  itemId?: string
+) {
+  const event: ListChangeEvent = {
+    type: 'change',
+    change,
+    itemId,
+    version: list.version || 0,
+    title: list.title,
+    description: list.description,
+    items: (list.items || []).map(serializeListItem),
+    actor: {
+      clerkId: actor.clerkId,
+      username: actor.username || undefined
+    }
+  };
+  channels.emitter.emit(listId, event, list);
+}
@@ -1,8 +1,13 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
-import type { List, ListCategory } from "@/types/list";
+import type { List, ListCategory, ListForkSource } from "@/types/list";
 import type { MongoListDocument, MongoUserDocument } from "@/types/mongo";
 import type { UserProfileDocument } from "@/lib/db/models-v2/user-profile";
+import type { ListRevisionSnapshot } from "@/lib/db/models-v2/list-revision";
+import type { ListRevision, ListRevisionSummary } from "@/types/list-revision";
+import type { UserCategory } from "@/types/category";
+import type { CollectionSort, CollectionVisibility, ListCollection } from "@/types/collection";
+import { itemFieldsField, itemRecipeField, itemTagField, itemTypeField, serializeChildItems } from "@/lib/utils/list-items";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -13,12 +18,24 @@ export function isValidEmail(email: string) {
   return emailRegex.test(email);
 }
 
+export function serializeForkSource(forkedFrom: MongoListDocument['forkedFrom']): ListForkSource | undefined {
+  if (!forkedFrom) return undefined;
+  return {
+    listId: forkedFrom.listId.toString(),
+    title: forkedFrom.title,
+    ownerUsername: forkedFrom.owner.username,
+    forkedAt: forkedFrom.forkedAt.toISOString()
+  };
+}
+
 export function serializeList(list: MongoListDocument): List {
   return {
     id: list._id.toString(),
     title: list.title,
     description: list.description,
     category: list.category as ListCategory,
+    categoryInfo: list.categoryInfo || undefined,
+    tags: list.tags || [],
     visibility: list.visibility,
     listType: list.listType || 'ordered',
     owner: {
@@ -28,7 +45,7 @@ export function serializeList(list: MongoListDocument): List {
       joinedAt: list.owner.joinedAt?.toISOString() || new Date().toISOString()
     },
     items: (list.items || []).map(item => ({
-      id: crypto.randomUUID(),
+      id: item._id?.toString() || crypto.randomUUID(),
       title: item.title,
       comment: item.comment,
       properties: item.properties?.map(prop => ({
@@ -52,12 +69,103 @@ export function serializeList(list: MongoListDocument): List {
       invitedAt: collab.invitedAt.toISOString(),
       acceptedAt: collab.acceptedAt?.toISOString()
     })),
+    forkedFrom: serializeForkSource(list.forkedFrom),
+    version: list.version || 0,
     createdAt: list.createdAt?.toISOString() || new Date().toISOString(),
     updatedAt: list.updatedAt?.toISOString() || new Date().toISOString(),
     editedAt: list.editedAt?.toISOString()
   };
 }
 
+interface RevisionRecord {
+  _id: { toString(): string };
+  revision: number;
+  snapshot: ListRevisionSnapshot;
+  editedBy: { clerkId: string; username?: string };
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+export function serializeListRevisionSummary(revision: RevisionRecord): ListRevisionSummary {
+  return {
+    id: revision._id.toString(),
+    revision: revision.revision,
+    editedBy: {
+      clerkId: revision.editedBy.clerkId,
+      username: revision.editedBy.username
+    },
+    itemCount: revision.snapshot.items?.length || 0,
+    restoredFrom: revision.restoredFrom,
+    createdAt: revision.createdAt.toISOString()
+  };
+}
+
+export function serializeListRevision(revision: RevisionRecord): ListRevision {
+  return {
+    ...serializeListRevisionSummary(revision),
+    snapshot: {
+      title: revision.snapshot.title,
+      description: revision.snapshot.description,
+      visibility: revision.snapshot.visibility,
+      items: (revision.snapshot.items || []).map(item => ({
+        ...itemTypeField(item),
+        title: item.title,
+        comment: item.comment,
+        completed: item.completed || false,
+        ...itemTagField(item),
+        childItems: serializeChildItems(item.childItems),
+        ...itemFieldsField(item),
+        ...itemRecipeField(item)
+      }))
+    }
+  };
+}
+
+export function serializeCollection(collection: {
+  _id: unknown;
+  owner: { clerkId: string; username: string };
+  name: string;
+  description?: string;
+  visibility: CollectionVisibility;
+  sort: CollectionSort;
+  listIds: unknown[];
+  createdAt: Date;
+  updatedAt: Date;
+}): ListCollection {
+  return {
+    id: String(collection._id),
+    name: collection.name,
+    description: collection.description || undefined,
+    visibility: collection.visibility,
+    sort: collection.sort,
+    listIds: collection.listIds.map(String),
+    owner: {
+      clerkId: collection.owner.clerkId,
+      username: collection.owner.username
+    },
+    createdAt: collection.createdAt.toISOString(),
+    updatedAt: collection.updatedAt.toISOString()
+  };
+}
+
+export function serializeCategory(category: {
+  _id: unknown;
+  slug: string;
+  name: string;
+  color: string;
+  icon: string;
+  createdAt: Date;
+}): UserCategory {
+  return {
+    id: String(category._id),
+    slug: category.slug,
+    name: category.name,
+    color: category.color,
+    icon: category.icon,
+    createdAt: category.createdAt.toISOString()
+  };
+}
+
 export function formatDate(date: Date) {
   return new Intl.DateTimeFormat("en-GB", {
     month: "long",
@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCsvRows, toCsv } from '../csv';
+
+describe('parseCsvRows', () => {
+  it('splits rows on any line ending and trims cells', () => {
+    expect(parseCsvRows('a, b\r\nc,d\re,f\n')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f']]);
+  });
+
+  it('keeps commas, escaped quotes and newlines inside quoted fields', () => {
+    expect(parseCsvRows('"Milk, oat","Say ""hi""","two\nlines"')).toEqual([
+      ['Milk, oat', 'Say "hi"', 'two\nlines']
+    ]);
+  });
+
+  it('treats a quote in the middle of a field as text', () => {
+    expect(parseCsvRows('12" pizza,ok')).toEqual([['12" pizza', 'ok']]);
+  });
+
+  it('keeps empty cells but drops blank rows', () => {
+    expect(parseCsvRows('a,,c\n\n , \nd')).toEqual([['a', '', 'c'], ['d']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields that need it and ends every row with CRLF', () => {
+    expect(toCsv([['title', 'done'], ['Milk, oat', true], ['Say "hi"', undefined], ['two\nlines', 3]])).toBe(
+      'title,done\r\n"Milk, oat",true\r\n"Say ""hi""",\r\n"two\nlines",3\r\n'
+    );
+  });
+
+  it('keeps text that a spreadsheet would run as a formula as text', () => {
+    expect(toCsv([['=SUM(A1)', '+1', '-x', '@me', '\tindent']])).toBe(`'=SUM(A1),'+1,'-x,'@me,'\tindent\r\n`);
+  });
+
+  it('leaves numbers alone, including negative ones', () => {
+    expect(toCsv([[-2, 0]])).toBe('-2,0\r\n');
+  });
+
+  it('round-trips through parseCsvRows', () => {
+    const rows = [['Milk, oat', 'Say "hi"'], ['two\nlines', 'plain']];
+    expect(parseCsvRows(toCsv(rows))).toEqual(rows);
+  });
+});
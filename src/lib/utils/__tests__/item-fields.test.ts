@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { fittingItemFields, itemFieldsSchema } from '../item-fields';
+
+describe('itemFieldsSchema', () => {
+  it('coerces values and drops blank ones', () => {
+    expect(itemFieldsSchema('movies').parse({ year: '1979', director: ' ', rating: 4.5 })).toEqual({
+      year: 1979,
+      rating: 4.5
+    });
+  });
+
+  it("rejects fields the category doesn't have", () => {
+    expect(itemFieldsSchema('movies').safeParse({ author: 'Frank Herbert' }).success).toBe(false);
+  });
+});
+
+describe('fittingItemFields', () => {
+  it('keeps the values that fit the category', () => {
+    expect(fittingItemFields('books', { author: 'Frank Herbert', pages: 412, rating: 5 })).toEqual({
+      author: 'Frank Herbert',
+      pages: 412,
+      rating: 5
+    });
+  });
+
+  it('drops values for fields a new category does not have', () => {
+    expect(fittingItemFields('movies', { author: 'Frank Herbert', pages: 412, rating: 5 })).toEqual({ rating: 5 });
+  });
+
+  it('drops values the category no longer accepts', () => {
+    expect(fittingItemFields('movies', { year: 1200, rating: 4.3 })).toEqual({});
+  });
+
+  it('has nothing for custom categories or items without values', () => {
+    expect(fittingItemFields('board-games', { rating: 4 })).toEqual({});
+    expect(fittingItemFields('movies', undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffListSnapshots } from '../list-diff';
+import type { ListRevisionSnapshot } from '@/types/list-revision';
+
+const snapshot = (titles: string[], extra: Partial<ListRevisionSnapshot> = {}): ListRevisionSnapshot => ({
+  title: 'Films',
+  visibility: 'private',
+  items: titles.map(title => ({ title })),
+  ...extra
+});
+
+describe('diffListSnapshots', () => {
+  it('reports nothing for identical snapshots', () => {
+    const diff = diffListSnapshots(snapshot(['A', 'B']), snapshot(['A', 'B']), { from: 1, to: 2 });
+    expect(diff).toEqual({ from: 1, to: 2, fields: [], items: [] });
+  });
+
+  it('reports changed list fields', () => {
+    const diff = diffListSnapshots(
+      snapshot([], { description: 'Old' }),
+      snapshot([], { title: 'Movies', visibility: 'public' })
+    );
+    expect(diff.fields).toEqual([
+      { field: 'title', from: 'Films', to: 'Movies' },
+      { field: 'description', from: 'Old', to: undefined },
+      { field: 'visibility', from: 'private', to: 'public' }
+    ]);
+  });
+
+  it('reports added and removed items at their positions', () => {
+    const diff = diffListSnapshots(snapshot(['A', 'B', 'C']), snapshot(['A', 'C', 'D', 'E']));
+    expect(diff.items).toEqual([
+      { type: 'removed', index: 1, item: { title: 'B' } },
+      { type: 'added', index: 2, item: { title: 'D' } },
+      { type: 'added', index: 3, item: { title: 'E' } }
+    ]);
+  });
+
+  it('treats a replaced item in the same position as a rename', () => {
+    const diff = diffListSnapshots(snapshot(['A', 'B']), snapshot(['A', 'Bee']));
+    expect(diff.items).toEqual([
+      { type: 'changed', index: 1, from: { title: 'B' }, to: { title: 'Bee' }, fields: ['title'] }
+    ]);
+  });
+
+  it('matches titles regardless of case and reports the case change', () => {
+    const diff = diffListSnapshots(snapshot(['alien']), snapshot(['Alien']));
+    expect(diff.items).toEqual([
+      { type: 'changed', index: 0, from: { title: 'alien' }, to: { title: 'Alien' }, fields: ['title'] }
+    ]);
+  });
+
+  it('reports only the fewest items needed as moved', () => {
+    const diff = diffListSnapshots(snapshot(['A', 'B', 'C', 'D']), snapshot(['D', 'A', 'B', 'C']));
+    expect(diff.items).toEqual([
+      { type: 'moved', from: 3, to: 0, item: { title: 'D' } }
+    ]);
+  });
+
+  it('pairs repeated titles in order of appearance', () => {
+    const diff = diffListSnapshots(snapshot(['A', 'A']), snapshot(['A']));
+    expect(diff.items).toEqual([
+      { type: 'removed', index: 1, item: { title: 'A' } }
+    ]);
+  });
+
+  it('reports comment, completion and sub-item changes', () => {
+    const from = snapshot([]);
+    from.items = [{ title: 'A', comment: 'Good', childItems: [{ title: 'x' }] }];
+    const to = snapshot([]);
+    to.items = [{ title: 'A', completed: true, childItems: [{ title: 'y' }] }];
+
+    const [change] = diffListSnapshots(from, to).items;
+    expect(change).toMatchObject({ type: 'changed', index: 0, fields: ['comment', 'completed', 'childItems'] });
+  });
+});
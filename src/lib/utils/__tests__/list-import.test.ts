@@ -0,0 +1,183 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectImportFormat, MAX_IMPORT_ITEMS, parseListImport, skipDuplicateItems } from '../list-import';
+import { MAX_ITEM_DEPTH } from '../list-items';
+
+describe('detectImportFormat', () => {
+  it('goes by the file extension first', () => {
+    expect(detectImportFormat('a,b', 'list.md')).toBe('markdown');
+    expect(detectImportFormat('Just a line', 'list.csv')).toBe('csv');
+  });
+
+  it('recognises service exports by their columns', () => {
+    expect(detectImportFormat('Date,Name,Year,Letterboxd URI\n', 'watched.csv')).toBe('letterboxd');
+    expect(detectImportFormat('Title,Author,Exclusive Shelf\nDune,Frank Herbert,read')).toBe('goodreads');
+  });
+
+  it('tells pasted Markdown, CSV and plain text apart', () => {
+    expect(detectImportFormat('- [ ] Milk')).toBe('markdown');
+    expect(detectImportFormat('title,comment\nMilk,2 litres')).toBe('csv');
+    expect(detectImportFormat('Milk\nEggs, a dozen')).toBe('text');
+  });
+});
+
+describe('parseListImport', () => {
+  it('reads Markdown checklists, sub-items, comments and sections', () => {
+    const preview = parseListImport([
+      '# Groceries',
+      'For the weekend',
+      '- [x] **Milk**',
+      '  > Semi-skimmed',
+      '  - Oat, if out',
+      '## Bakery',
+      '- [ ] Bread'
+    ].join('\n'), 'markdown');
+
+    expect(preview.title).toBe('Groceries');
+    expect(preview.description).toBe('For the weekend');
+    expect(preview.items).toEqual([
+      { title: 'Milk', completed: true, comment: 'Semi-skimmed', childItems: [{ title: 'Oat, if out' }] },
+      { title: 'Bakery', type: 'section', comment: undefined, childItems: [] },
+      { title: 'Bread', completed: false, childItems: [] }
+    ]);
+  });
+
+  it('nests indented plain text lines under the line above', () => {
+    const preview = parseListImport('Trip\n  Passport\n    Check expiry\n  Tickets\nSnacks', 'text');
+
+    expect(preview.items).toEqual([
+      {
+        title: 'Trip',
+        childItems: [{ title: 'Passport', childItems: [{ title: 'Check expiry' }] }, { title: 'Tickets' }]
+      },
+      { title: 'Snacks', childItems: [] }
+    ]);
+  });
+
+  it('maps CSV columns by header, including tags on top-level rows', () => {
+    const preview = parseListImport([
+      'Title,Notes,Tag,Done,Parent,Type',
+      'Produce,,,,,section',
+      'Apples,"Crisp, red",fruit,yes,,',
+      'Gala,,variety,,apples,'
+    ].join('\n'), 'csv');
+
+    expect(preview.items).toEqual([
+      { title: 'Produce', type: 'section', comment: undefined, childItems: [] },
+      {
+        title: 'Apples',
+        comment: 'Crisp, red',
+        completed: true,
+        tag: 'fruit',
+        childItems: [{ title: 'Gala', tag: 'variety' }]
+      }
+    ]);
+    expect(preview.warnings).toEqual([]);
+  });
+
+  it('reads CSV without a header as title, comment and tag', () => {
+    const preview = parseListImport('Apples,Crisp,fruit\nPears,,', 'csv');
+
+    expect(preview.items).toEqual([
+      { title: 'Apples', comment: 'Crisp', completed: false, tag: 'fruit', childItems: [] },
+      { title: 'Pears', comment: undefined, completed: false, childItems: [] }
+    ]);
+  });
+
+  it('imports CSV rows with an unknown parent at the top level', () => {
+    const preview = parseListImport('title,parent\nGala,apples', 'csv');
+
+    expect(preview.items.map(item => item.title)).toEqual(['Gala']);
+    expect(preview.warnings).toEqual(['Rows whose parent could not be found were imported as top-level items']);
+  });
+
+  it('leaves out CSV sub-items chained deeper than lists allow', () => {
+    const rows = ['title,parent', 'L0,'];
+    for (let depth = 1; depth <= MAX_ITEM_DEPTH + 1; depth++) {
+      rows.push(`L${depth},L${depth - 1}`);
+    }
+    const preview = parseListImport(rows.join('\n'), 'csv');
+
+    let deepest = preview.items[0].childItems;
+    let levels = 0;
+    while (deepest && deepest.length > 0) {
+      levels++;
+      deepest = deepest[0].childItems;
+    }
+    expect(levels).toBe(MAX_ITEM_DEPTH);
+    expect(preview.warnings).toContain(`Sub-items nested more than ${MAX_ITEM_DEPTH} levels deep were left out`);
+  });
+
+  it('stops at the import limit', () => {
+    const text = Array.from({ length: MAX_IMPORT_ITEMS + 5 }, (_, i) => `Item ${i}`).join('\n');
+    const preview = parseListImport(text, 'text');
+
+    expect(preview.items).toHaveLength(MAX_IMPORT_ITEMS);
+    expect(preview.warnings).toEqual([`Only the first ${MAX_IMPORT_ITEMS} items were imported`]);
+  });
+
+  it('turns a Letterboxd diary into checked films with their details', () => {
+    const preview = parseListImport([
+      'Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date',
+      '2024-01-02,Alien,1979,https://boxd.it/x,4.5,Yes,,2024-01-01'
+    ].join('\n'), 'auto', 'diary.csv');
+
+    expect(preview).toMatchObject({ format: 'letterboxd', category: 'movies', title: "Films I've watched" });
+    expect(preview.items).toEqual([{
+      title: 'Alien (1979)',
+      completed: true,
+      comment: '★★★★½ · Watched 2024-01-01 · Rewatch',
+      fields: { year: 1979, rating: 4.5 },
+      childItems: []
+    }]);
+  });
+
+  it('leaves a Letterboxd watchlist unchecked', () => {
+    const preview = parseListImport('Date,Name,Year,Letterboxd URI\n2024-01-02,Heat,1995,x', 'auto', 'watchlist.csv');
+
+    expect(preview.title).toBe('Letterboxd watchlist');
+    expect(preview.items[0]).toMatchObject({ title: 'Heat (1995)', completed: false });
+    expect(preview.warnings).toEqual([]);
+  });
+
+  it('turns a Goodreads library into books by shelf', () => {
+    const preview = parseListImport([
+      'Title,Author,My Rating,Number of Pages,Date Read,Bookshelves,Exclusive Shelf,My Review',
+      'Dune,Frank Herbert,5,412,2023/05/01,"sci-fi, read",read,Great<br/>read',
+      'Emma,Jane Austen,0,,,to-read,to-read,'
+    ].join('\n'), 'goodreads');
+
+    expect(preview.items).toEqual([
+      {
+        title: 'Dune by Frank Herbert',
+        completed: true,
+        comment: '★★★★★ · Read 2023/05/01 · Shelves: sci-fi\nGreat\nread',
+        fields: { author: 'Frank Herbert', pages: 412, rating: 5 },
+        childItems: []
+      },
+      {
+        title: 'Emma by Jane Austen',
+        completed: false,
+        comment: 'Want to read',
+        fields: { author: 'Jane Austen' },
+        childItems: []
+      }
+    ]);
+  });
+});
+
+describe('skipDuplicateItems', () => {
+  it('drops titles already in the list or repeated in the import, but keeps sections', () => {
+    const items = [
+      { title: 'Milk' },
+      { title: 'Dairy', type: 'section' as const },
+      { title: ' eggs ' },
+      { title: 'Dairy', type: 'section' as const },
+      { title: 'MILK' }
+    ];
+
+    expect(skipDuplicateItems(items, ['Eggs'])).toEqual({
+      items: [{ title: 'Milk' }, { title: 'Dairy', type: 'section' }, { title: 'Dairy', type: 'section' }],
+      skipped: 2
+    });
+  });
+});
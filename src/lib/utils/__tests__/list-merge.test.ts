@@ -0,0 +1,119 @@
+import { describe, it, expect } from '@jest/globals';
+import { itemMergeKey, mergeField, mergeListItems, type MergeableItem } from '../list-merge';
+
+const ID_A = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+const ID_B = 'bbbbbbbbbbbbbbbbbbbbbbbb';
+const ID_C = 'cccccccccccccccccccccccc';
+
+const item = (id: string, title: string, extra: Partial<MergeableItem> = {}): MergeableItem => ({ id, title, ...extra });
+const titles = (items: MergeableItem[]) => items.map(i => i.title);
+
+describe('itemMergeKey', () => {
+  it('uses saved IDs and falls back to the title for placeholders', () => {
+    expect(itemMergeKey(item(ID_A, 'Alien'))).toBe(ID_A);
+    expect(itemMergeKey(item('temp-1', '  Alien '))).toBe('alien');
+  });
+});
+
+describe('mergeListItems', () => {
+  const base = [item(ID_A, 'A'), item(ID_B, 'B'), item(ID_C, 'C')];
+
+  it('keeps edits to different fields of the same item from both sides', () => {
+    const mine = [item(ID_A, 'A', { completed: true }), item(ID_B, 'B'), item(ID_C, 'C')];
+    const theirs = [item(ID_A, 'A', { comment: 'Classic' }), item(ID_B, 'B'), item(ID_C, 'C')];
+
+    expect(mergeListItems(base, mine, theirs)[0]).toEqual(
+      item(ID_A, 'A', { completed: true, comment: 'Classic' })
+    );
+  });
+
+  it('lets the local value win when both sides changed the same field', () => {
+    const mine = [item(ID_A, 'Mine'), item(ID_B, 'B'), item(ID_C, 'C')];
+    const theirs = [item(ID_A, 'Theirs'), item(ID_B, 'B'), item(ID_C, 'C')];
+
+    expect(titles(mergeListItems(base, mine, theirs))).toEqual(['Mine', 'B', 'C']);
+  });
+
+  it('merges a rename with an edit because saved items match by ID', () => {
+    const mine = [item(ID_A, 'Renamed'), item(ID_B, 'B'), item(ID_C, 'C')];
+    const theirs = [item(ID_A, 'A', { completed: true }), item(ID_B, 'B'), item(ID_C, 'C')];
+
+    expect(mergeListItems(base, mine, theirs)[0]).toEqual(item(ID_A, 'Renamed', { completed: true }));
+  });
+
+  it('drops an item removed locally unless the other side edited it', () => {
+    const mine = [item(ID_A, 'A'), item(ID_C, 'C')];
+
+    expect(titles(mergeListItems(base, mine, base))).toEqual(['A', 'C']);
+
+    const theirs = [item(ID_A, 'A'), item(ID_B, 'B', { comment: 'Keep me' }), item(ID_C, 'C')];
+    expect(titles(mergeListItems(base, mine, theirs))).toEqual(['A', 'B', 'C']);
+  });
+
+  it('keeps items the other side removed out of the result', () => {
+    const theirs = [item(ID_A, 'A'), item(ID_C, 'C')];
+
+    expect(titles(mergeListItems(base, base, theirs))).toEqual(['A', 'C']);
+  });
+
+  it('inserts local additions after the closest surviving item before them', () => {
+    const mine = [item(ID_A, 'A'), item('new-1', 'New'), item(ID_B, 'B'), item(ID_C, 'C')];
+    const theirs = [item('other-1', 'Theirs'), item(ID_A, 'A'), item(ID_C, 'C')];
+
+    expect(titles(mergeListItems(base, mine, theirs))).toEqual(['Theirs', 'A', 'New', 'C']);
+  });
+
+  it('puts local additions first when nothing before them survived', () => {
+    const mine = [item('new-1', 'New'), ...base];
+
+    expect(titles(mergeListItems(base, mine, base))).toEqual(['New', 'A', 'B', 'C']);
+  });
+
+  it('follows the order saved on the server', () => {
+    const theirs = [item(ID_C, 'C'), item(ID_A, 'A'), item(ID_B, 'B')];
+
+    expect(titles(mergeListItems(base, base, theirs))).toEqual(['C', 'A', 'B']);
+  });
+
+  it('keeps a local reorder when the other side only edited items', () => {
+    const mine = [item(ID_C, 'C'), item(ID_A, 'A'), item(ID_B, 'B')];
+    const theirs = [item(ID_A, 'A', { completed: true }), item(ID_B, 'B'), item(ID_C, 'C')];
+
+    expect(mergeListItems(base, mine, theirs)).toEqual([
+      item(ID_C, 'C'),
+      item(ID_A, 'A', { completed: true }),
+      item(ID_B, 'B')
+    ]);
+  });
+
+  it('slots items added by the other side into a local reorder', () => {
+    const mine = [item(ID_C, 'C'), item(ID_B, 'B'), item(ID_A, 'A')];
+    const theirs = [item(ID_A, 'A'), item('other-1', 'Theirs'), item(ID_B, 'B')];
+
+    expect(titles(mergeListItems(base, mine, theirs))).toEqual(['B', 'A', 'Theirs']);
+  });
+
+  it('lets the local order win when both sides reordered', () => {
+    const mine = [item(ID_B, 'B'), item(ID_A, 'A'), item(ID_C, 'C')];
+    const theirs = [item(ID_C, 'C'), item(ID_A, 'A'), item(ID_B, 'B')];
+
+    expect(titles(mergeListItems(base, mine, theirs))).toEqual(['B', 'A', 'C']);
+  });
+
+  it("doesn't count additions and removals as a reorder", () => {
+    const mine = [item(ID_A, 'A'), item('new-1', 'New'), item(ID_C, 'C')];
+    const theirs = [item(ID_C, 'C'), item(ID_B, 'B'), item(ID_A, 'A')];
+
+    expect(titles(mergeListItems(base, mine, theirs))).toEqual(['C', 'A', 'New']);
+  });
+});
+
+describe('mergeField', () => {
+  it('takes the other side when the local value is unchanged', () => {
+    expect(mergeField('Films', 'Films', 'Movies')).toBe('Movies');
+  });
+
+  it('keeps a local change', () => {
+    expect(mergeField('Films', 'Cinema', 'Movies')).toBe('Cinema');
+  });
+});
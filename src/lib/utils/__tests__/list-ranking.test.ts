@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { maxRankingComparisons, nextRankingStep, type RankingComparison } from '../list-ranking';
+
+type Item = { id: string; type?: 'section' };
+
+const itemsFor = (ids: string[]): Item[] => ids.map(id => ({ id }));
+
+// Answers every question the way `preferred` (best first) would, until done
+function rank(items: Item[], preferred: string[]) {
+  const comparisons: RankingComparison[] = [];
+  for (;;) {
+    const step = nextRankingStep(items, comparisons);
+    if (step.done) return { itemIds: step.itemIds, questions: comparisons.length };
+    const [a, b] = step.pair;
+    comparisons.push(preferred.indexOf(a) < preferred.indexOf(b) ? { winner: a, loser: b } : { winner: b, loser: a });
+  }
+}
+
+function permutations(ids: string[]): string[][] {
+  if (ids.length <= 1) return [ids];
+  return ids.flatMap((id, i) =>
+    permutations([...ids.slice(0, i), ...ids.slice(i + 1)]).map(rest => [id, ...rest])
+  );
+}
+
+describe('nextRankingStep', () => {
+  it('is done straight away with nothing to compare', () => {
+    expect(nextRankingStep([], [])).toEqual({ done: true, itemIds: [] });
+    expect(nextRankingStep(itemsFor(['a']), [])).toEqual({ done: true, itemIds: ['a'] });
+  });
+
+  it('asks about the first pair before anything is answered', () => {
+    expect(nextRankingStep(itemsFor(['a', 'b', 'c']), [])).toEqual({ done: false, pair: ['a', 'b'] });
+  });
+
+  it('sorts every order of up to six items within the question bound', () => {
+    for (let n = 2; n <= 6; n++) {
+      const ids = Array.from({ length: n }, (_, i) => `item-${i}`);
+      const items = itemsFor(ids);
+      for (const preferred of permutations(ids)) {
+        const { itemIds, questions } = rank(items, preferred);
+        expect(itemIds).toEqual(preferred);
+        expect(questions).toBeLessThanOrEqual(maxRankingComparisons(items));
+      }
+    }
+  });
+
+  it('sorts a longer list', () => {
+    const ids = Array.from({ length: 21 }, (_, i) => `item-${i}`);
+    const preferred = ids.map((_, i) => ids[(i * 8) % ids.length]);
+    const { itemIds, questions } = rank(itemsFor(ids), preferred);
+
+    expect(itemIds).toEqual(preferred);
+    expect(questions).toBeLessThanOrEqual(maxRankingComparisons(itemsFor(ids)));
+  });
+
+  it('resumes from the answers alone', () => {
+    const items = itemsFor(['a', 'b', 'c', 'd', 'e']);
+    const comparisons: RankingComparison[] = [{ winner: 'b', loser: 'a' }, { winner: 'd', loser: 'c' }];
+
+    expect(nextRankingStep(items, comparisons)).toEqual(nextRankingStep(items, [...comparisons].reverse()));
+  });
+
+  it('ranks items within their section and keeps sections in place', () => {
+    const items: Item[] = [
+      { id: 'x' },
+      { id: 'y' },
+      { id: 'fruit', type: 'section' },
+      { id: 'apple' },
+      { id: 'pear' },
+      { id: 'plum' }
+    ];
+    const { itemIds, questions } = rank(items, ['y', 'x', 'plum', 'apple', 'pear']);
+
+    expect(itemIds).toEqual(['y', 'x', 'fruit', 'plum', 'apple', 'pear']);
+    expect(questions).toBeLessThanOrEqual(maxRankingComparisons(items));
+  });
+});
+
+describe('maxRankingComparisons', () => {
+  it('matches the worst case of merge-insertion', () => {
+    expect(maxRankingComparisons(itemsFor(['a']))).toBe(0);
+    expect(maxRankingComparisons(itemsFor(['a', 'b', 'c', 'd', 'e']))).toBe(7);
+    expect(maxRankingComparisons(itemsFor(Array.from({ length: 12 }, (_, i) => `${i}`)))).toBe(30);
+  });
+
+  it('adds up each section on its own', () => {
+    expect(maxRankingComparisons([
+      ...itemsFor(['a', 'b', 'c']),
+      { id: 's', type: 'section' },
+      ...itemsFor(['d', 'e', 'f'])
+    ])).toBe(6);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import { advanceUpstreamBase, applyUpstreamChanges, diffUpstream } from '../list-upstream';
+import type { MergeableItem } from '../list-merge';
+
+const ID_A = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+const ID_B = 'bbbbbbbbbbbbbbbbbbbbbbbb';
+const ID_C = 'cccccccccccccccccccccccc';
+const ID_D = 'dddddddddddddddddddddddd';
+
+const item = (id: string, title: string, extra: Partial<MergeableItem> = {}): MergeableItem => ({ id, title, ...extra });
+const titles = (items: MergeableItem[]) => items.map(i => i.title);
+
+const base = [item(ID_A, 'A'), item(ID_B, 'B'), item(ID_C, 'C')];
+
+describe('diffUpstream', () => {
+  it('reports nothing when the original has not changed', () => {
+    const local = [item(ID_A, 'Mine'), item(ID_B, 'B', { completed: true })];
+    expect(diffUpstream(base, base, local)).toEqual([]);
+  });
+
+  it('reports items added upstream', () => {
+    const upstream = [...base, item(ID_D, 'D')];
+    expect(diffUpstream(base, upstream, base)).toEqual([
+      { key: ID_D, type: 'added', upstream: item(ID_D, 'D'), conflict: false }
+    ]);
+  });
+
+  it('ignores completion, which is personal to each copy', () => {
+    const upstream = [item(ID_A, 'A', { completed: true }), item(ID_B, 'B'), item(ID_C, 'C')];
+    expect(diffUpstream(base, upstream, base)).toEqual([]);
+  });
+
+  it('reports an upstream edit without a conflict when the copy left the item alone', () => {
+    const upstream = [item(ID_A, 'A', { comment: 'New' }), item(ID_B, 'B'), item(ID_C, 'C')];
+    const [change] = diffUpstream(base, upstream, base);
+    expect(change).toMatchObject({ key: ID_A, type: 'changed', fields: ['comment'], conflict: false });
+  });
+
+  it('flags a conflict when the copy edited the same field', () => {
+    const upstream = [item(ID_A, 'Upstream'), item(ID_B, 'B'), item(ID_C, 'C')];
+    const local = [item(ID_A, 'Local'), item(ID_B, 'B'), item(ID_C, 'C')];
+    const [change] = diffUpstream(base, upstream, local);
+    expect(change).toMatchObject({ type: 'changed', fields: ['title'], conflict: true });
+  });
+
+  it('skips an upstream edit the copy already made', () => {
+    const upstream = [item(ID_A, 'Same'), item(ID_B, 'B'), item(ID_C, 'C')];
+    const local = [item(ID_A, 'Same'), item(ID_B, 'B'), item(ID_C, 'C')];
+    expect(diffUpstream(base, upstream, local)).toEqual([]);
+  });
+
+  it('flags a conflict for an upstream edit to an item the copy removed', () => {
+    const upstream = [item(ID_A, 'A', { comment: 'New' }), item(ID_B, 'B'), item(ID_C, 'C')];
+    const local = [item(ID_B, 'B'), item(ID_C, 'C')];
+    const [change] = diffUpstream(base, upstream, local);
+    expect(change).toMatchObject({ type: 'changed', local: undefined, conflict: true });
+  });
+
+  it('reports upstream removals, with a conflict if the copy edited the item', () => {
+    const upstream = [item(ID_A, 'A')];
+    const local = [item(ID_A, 'A'), item(ID_B, 'B'), item(ID_C, 'C', { comment: 'Mine' })];
+    expect(diffUpstream(base, upstream, local)).toEqual([
+      { key: ID_B, type: 'removed', local: item(ID_B, 'B'), conflict: false },
+      { key: ID_C, type: 'removed', local: item(ID_C, 'C', { comment: 'Mine' }), conflict: true }
+    ]);
+  });
+});
+
+describe('applyUpstreamChanges', () => {
+  it('places new items after the item that precedes them upstream', () => {
+    const upstream = [item(ID_A, 'A'), item(ID_D, 'D'), item(ID_B, 'B'), item(ID_C, 'C')];
+    const local = [item(ID_C, 'C'), item(ID_A, 'A'), item(ID_B, 'B')];
+    const changes = diffUpstream(base, upstream, local);
+
+    expect(titles(applyUpstreamChanges(local, upstream, changes))).toEqual(['C', 'A', 'D', 'B']);
+  });
+
+  it('only overwrites the fields that changed upstream', () => {
+    const upstream = [item(ID_A, 'A', { comment: 'New' }), item(ID_B, 'B'), item(ID_C, 'C')];
+    const local = [item(ID_A, 'A', { completed: true }), item(ID_B, 'B'), item(ID_C, 'C')];
+    const changes = diffUpstream(base, upstream, local);
+
+    expect(applyUpstreamChanges(local, upstream, changes)[0]).toEqual(
+      item(ID_A, 'A', { completed: true, comment: 'New' })
+    );
+  });
+
+  it('removes items removed upstream and brings back edited ones the copy removed', () => {
+    const upstream = [item(ID_A, 'A', { comment: 'New' }), item(ID_C, 'C')];
+    const local = [item(ID_B, 'B'), item(ID_C, 'C')];
+    const changes = diffUpstream(base, upstream, local);
+
+    expect(titles(applyUpstreamChanges(local, upstream, changes))).toEqual(['A', 'C']);
+  });
+});
+
+describe('advanceUpstreamBase', () => {
+  it('moves the base to upstream but keeps skipped changes pending', () => {
+    const upstream = [item(ID_A, 'A2'), item(ID_C, 'C'), item(ID_D, 'D')];
+    const changes = diffUpstream(base, upstream, base);
+    const pulled = new Set([ID_A]);
+
+    const nextBase = advanceUpstreamBase(base, upstream, changes, pulled);
+    expect(titles(nextBase)).toEqual(['A2', 'C', 'B']);
+
+    // The skipped addition and removal are offered again next time
+    expect(diffUpstream(nextBase, upstream, base).map(change => [change.type, change.key])).toEqual([
+      ['added', ID_D],
+      ['removed', ID_B]
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildShoppingList, formatIngredient, formatQuantity, normalizeUnit, recipeServings, scaleIngredients } from '../recipe';
+
+describe('normalizeUnit', () => {
+  it('maps spellings of the same unit to one short form', () => {
+    expect(normalizeUnit('Tablespoons')).toBe('tbsp');
+    expect(normalizeUnit(' tsp. ')).toBe('tsp');
+    expect(normalizeUnit('Litres')).toBe('l');
+  });
+
+  it('keeps units it does not know and treats a missing unit as empty', () => {
+    expect(normalizeUnit('Handful')).toBe('handful');
+    expect(normalizeUnit(undefined)).toBe('');
+  });
+});
+
+describe('formatQuantity', () => {
+  it('prints common fractions as symbols', () => {
+    expect(formatQuantity(0.5)).toBe('½');
+    expect(formatQuantity(1.3333)).toBe('1⅓');
+    expect(formatQuantity(2.75)).toBe('2¾');
+  });
+
+  it('rounds other quantities to two decimals', () => {
+    expect(formatQuantity(3)).toBe('3');
+    expect(formatQuantity(0.125)).toBe('0.13');
+  });
+});
+
+describe('formatIngredient', () => {
+  it('leaves out the parts an ingredient does not have', () => {
+    expect(formatIngredient({ quantity: 1.5, unit: 'cup', name: 'flour' })).toBe('1½ cup flour');
+    expect(formatIngredient({ name: 'salt' })).toBe('salt');
+  });
+});
+
+describe('recipeServings', () => {
+  it('only counts a positive number of servings', () => {
+    expect(recipeServings({ servings: 4 })).toBe(4);
+    expect(recipeServings({ servings: 0 })).toBeUndefined();
+    expect(recipeServings(undefined)).toBeUndefined();
+  });
+});
+
+describe('scaleIngredients', () => {
+  it('scales quantities and leaves ingredients without one alone', () => {
+    expect(scaleIngredients([{ quantity: 2, unit: 'cup', name: 'rice' }, { name: 'salt' }], 1.5)).toEqual([
+      { quantity: 3, unit: 'cup', name: 'rice' },
+      { name: 'salt' }
+    ]);
+  });
+
+  it('returns the same list when the factor is 1', () => {
+    const ingredients = [{ quantity: 2, name: 'eggs' }];
+    expect(scaleIngredients(ingredients, 1)).toBe(ingredients);
+  });
+});
+
+describe('buildShoppingList', () => {
+  it('adds up the same ingredient across recipes and remembers where it came from', () => {
+    expect(buildShoppingList([
+      { title: 'Pancakes', ingredients: [{ quantity: 2, name: 'Eggs' }] },
+      { title: 'Omelette', ingredients: [{ quantity: 3, name: ' eggs' }] }
+    ])).toEqual([{ name: 'Eggs', quantity: 5, unit: undefined, recipes: ['Pancakes', 'Omelette'] }]);
+  });
+
+  it('converts between units and picks one the total comes out tidy in', () => {
+    const [oil, milk] = buildShoppingList([
+      { title: 'A', ingredients: [{ quantity: 1, unit: 'tbsp', name: 'oil' }, { quantity: 1, unit: 'cups', name: 'milk' }] },
+      { title: 'B', ingredients: [{ quantity: 1, unit: 'teaspoon', name: 'oil' }, { quantity: 1, unit: 'tbsp', name: 'milk' }] }
+    ]);
+
+    expect(oil).toMatchObject({ name: 'oil', unit: 'tbsp', quantity: 1.33 });
+    expect(milk).toMatchObject({ name: 'milk', unit: 'tbsp', quantity: 17 });
+  });
+
+  it('uses the larger unit when the total fills it', () => {
+    const [flour] = buildShoppingList([
+      { title: 'A', ingredients: [{ quantity: 500, unit: 'g', name: 'flour' }] },
+      { title: 'B', ingredients: [{ quantity: 1, unit: 'kg', name: 'flour' }] }
+    ]);
+
+    expect(flour).toMatchObject({ unit: 'kg', quantity: 1.5 });
+  });
+
+  it('lists an ingredient once per unit that does not convert', () => {
+    const list = buildShoppingList([
+      { title: 'A', ingredients: [{ quantity: 2, unit: 'cloves', name: 'garlic' }, { name: 'salt' }] },
+      { title: 'B', ingredients: [{ quantity: 10, unit: 'g', name: 'garlic' }, { quantity: 1, unit: 'pinch', name: 'salt' }] }
+    ]);
+
+    expect(list.map(entry => [entry.name, entry.quantity, entry.unit])).toEqual([
+      ['garlic', 2, 'clove'],
+      ['salt', undefined, undefined],
+      ['garlic', 10, 'g'],
+      ['salt', 1, 'pinch']
+    ]);
+  });
+});
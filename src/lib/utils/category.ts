@@ -0,0 +1,23 @@
+import { isBuiltInCategory, type ListCategory, type ListCategoryInfo } from "@/types/list";
+
+const CATEGORY_VARS: Record<string, string> = {
+  'tv-shows': 'tv',
+  'things-to-do': 'activities'
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  'tv-shows': 'TV Shows',
+  'things-to-do': 'Things to do'
+};
+
+// CSS colour for a category; user-defined categories bring their own
+export function categoryColor(category?: ListCategory, info?: ListCategoryInfo | null) {
+  if (info) return info.color;
+  if (!category || !isBuiltInCategory(category)) return 'var(--category-other)';
+  return `var(--category-${CATEGORY_VARS[category] || category})`;
+}
+
+export function categoryLabel(category: ListCategory, info?: ListCategoryInfo | null) {
+  if (info) return info.name;
+  return CATEGORY_LABELS[category] || category.charAt(0).toUpperCase() + category.slice(1).replace(/-/g, ' ');
+}
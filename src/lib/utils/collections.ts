@@ -0,0 +1,21 @@
+import type { ListCollection } from "@/types/collection";
+import type { EnhancedList } from "@/types/list";
+
+// Most lists one collection can hold
+export const MAX_COLLECTION_LISTS = 200;
+
+export function sortCollectionLists(lists: EnhancedList[], collection: Pick<ListCollection, 'sort' | 'listIds'>) {
+  const sorted = [...lists];
+  switch (collection.sort) {
+    case 'title':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title));
+    case 'manual': {
+      const positions = new Map(collection.listIds.map((id, index) => [id, index]));
+      return sorted.sort((a, b) => (positions.get(a.id) ?? Infinity) - (positions.get(b.id) ?? Infinity));
+    }
+    default:
+      return sorted.sort((a, b) =>
+        new Date(b.editedAt || b.updatedAt).getTime() - new Date(a.editedAt || a.updatedAt).getTime()
+      );
+  }
+}
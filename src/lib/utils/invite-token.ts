@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { CollaboratorRole } from '@/types/list';
+
+// How long an invite link works for
+export const INVITE_TTL_DAYS = 7;
+
+const ROLES: CollaboratorRole[] = ['admin', 'editor', 'contributor', 'commenter', 'viewer'];
+
+export interface InviteTokenPayload {
+  inviteId: string;
+  listId: string;
+  role: CollaboratorRole;
+  expiresAt: Date;
+}
+
+function inviteSecret() {
+  const secret = process.env.INVITE_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('INVITE_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+const sign = (data: string) =>
+  createHmac('sha256', inviteSecret()).update(data).digest('base64url');
+
+export const inviteExpiryDate = (from = new Date()) =>
+  new Date(from.getTime() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * A URL-safe token of the form `<payload>.<signature>`. The signature stops
+ * anyone changing the list, role or expiry in the link.
+ */
+export function createInviteToken({ inviteId, listId, role, expiresAt }: InviteTokenPayload) {
+  const data = Buffer.from(JSON.stringify({
+    i: inviteId,
+    l: listId,
+    r: role,
+    e: expiresAt.getTime()
+  })).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+// The token's contents, or null if it's malformed or wasn't signed by us.
+// Expiry is left to the caller so it can say why the link stopped working.
+export function verifyInviteToken(token: string): InviteTokenPayload | null {
+  const [data, signature, ...rest] = token.split('.');
+  if (!data || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { i, l, r, e } = JSON.parse(Buffer.from(data, 'base64url').toString());
+    if (typeof i !== 'string' || typeof l !== 'string' || !ROLES.includes(r) || typeof e !== 'number') {
+      return null;
+    }
+    return { inviteId: i, listId: l, role: r, expiresAt: new Date(e) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { isBuiltInCategory, type ItemFieldValues, type ListCategory } from "@/types/list";
+import { CATEGORY_ITEM_FIELDS, MAX_RATING, type ItemFieldDefinition } from "@/types/item-fields";
+
+// The structured fields items get in a category; none for custom categories
+export function itemFieldsFor(category?: ListCategory): ItemFieldDefinition[] {
+  if (!category || !isBuiltInCategory(category)) return [];
+  return CATEGORY_ITEM_FIELDS[category] || [];
+}
+
+function fieldValueSchema(field: ItemFieldDefinition) {
+  switch (field.kind) {
+    case 'number':
+      return z.coerce.number().int().min(field.min ?? 0).max(field.max ?? Number.MAX_SAFE_INTEGER);
+    case 'rating':
+      return z.coerce.number().min(0.5).max(MAX_RATING).multipleOf(0.5);
+    case 'choice':
+      return z.string().refine(
+        value => (field.options || []).includes(value),
+        `${field.label} must be one of ${(field.options || []).join(', ')}`
+      );
+    default:
+      return z.string().trim().min(1).max(field.maxLength ?? 200);
+  }
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+/**
+ * Checks an item's field values against its list's category. Blank values
+ * are dropped, so clearing an input removes the field, and fields the
+ * category doesn't have are rejected.
+ */
+export function itemFieldsSchema(category?: ListCategory) {
+  const fields = itemFieldsFor(category);
+  const shape = Object.fromEntries(fields.map(field => [field.key, fieldValueSchema(field).optional()]));
+
+  return z.preprocess(
+    values => values && typeof values === 'object'
+      ? Object.fromEntries(Object.entries(values).filter(([, value]) => !isBlank(value)))
+      : values,
+    z.object(shape).strict()
+  ).transform(values =>
+    Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as ItemFieldValues
+  );
+}
+
+/**
+ * The saved values that still fit a category, e.g. after the list moved to
+ * another one. Values for fields the category doesn't have, or that its
+ * fields don't accept, are dropped.
+ */
+export function fittingItemFields(category: ListCategory | undefined, values?: ItemFieldValues | null): ItemFieldValues {
+  if (!values) return {};
+  return Object.fromEntries(itemFieldsFor(category).flatMap(field => {
+    if (isBlank(values[field.key])) return [];
+    const value = fieldValueSchema(field).safeParse(values[field.key]);
+    return value.success ? [[field.key, value.data]] : [];
+  }));
+}
+
+export const starRating = (rating: number) =>
+  '★'.repeat(Math.floor(rating)) + (rating % 1 >= 0.5 ? '½' : '');
+
+export function formatItemFieldValue(field: ItemFieldDefinition, value: string | number) {
+  if (field.kind === 'rating') return starRating(Number(value));
+  if (field.unit) return `${value} ${field.unit}`;
+  return String(value);
+}
+
+// The fields of the category that an item has a value for, in field order
+export function presentItemFields(category: ListCategory | undefined, values?: ItemFieldValues) {
+  if (!values) return [];
+  return itemFieldsFor(category)
+    .filter(field => !isBlank(values[field.key]))
+    .map(field => ({ field, value: values[field.key] }));
+}
+
+// Orders items by a field, with items that have no value for it last
+export function compareItemFieldValues(
+  a: string | number | undefined,
+  b: string | number | undefined,
+  direction: 'asc' | 'desc' = 'asc'
+) {
+  if (isBlank(a) && isBlank(b)) return 0;
+  if (isBlank(a)) return 1;
+  if (isBlank(b)) return -1;
+
+  const order = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+  return direction === 'asc' ? order : -order;
+}
+
+// Fields a list can be filtered on. Numbers like years are only sorted by.
+export const isFilterableItemField = (field: ItemFieldDefinition) => field.kind !== 'number';
+
+/**
+ * Whether an item's values pass the filters, keyed by field. Rating filters
+ * keep items rated at least that much; other fields have to match exactly.
+ */
+export function matchesItemFieldFilters(
+  category: ListCategory | undefined,
+  values: ItemFieldValues | undefined,
+  filters: Record<string, string>
+) {
+  return itemFieldsFor(category).every(field => {
+    const filter = filters[field.key];
+    if (!filter) return true;
+    const value = values?.[field.key];
+    if (isBlank(value)) return false;
+    if (field.kind === 'rating') return Number(value) >= Number(filter);
+    return String(value).toLowerCase() === filter.toLowerCase();
+  });
+}
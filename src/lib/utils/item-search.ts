@@ -0,0 +1,49 @@
+import type { ItemSearchMatch, ListChildItem, ListItem } from "@/types/list";
+import { MAX_ITEM_DEPTH } from "@/lib/utils/list-items";
+
+// Shortest query a library search runs for
+export const MIN_ITEM_SEARCH_LENGTH = 2;
+
+// Most items shown for one list
+export const MAX_ITEM_MATCHES_PER_LIST = 20;
+
+export const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Fields a library search looks in, down to the deepest sub-items. Sub-items
+// have no comments, so only their titles are searched.
+export const ITEM_SEARCH_PATHS = [
+  'items.title',
+  'items.comment',
+  ...Array.from({ length: MAX_ITEM_DEPTH }, (_, depth) =>
+    `items.${'childItems.'.repeat(depth + 1)}title`
+  )
+];
+
+const includesText = (text: string | undefined, query: string) =>
+  !!text && text.toLowerCase().includes(query);
+
+function matchingChildTitles(childItems: ListChildItem[] | undefined, query: string): string[] {
+  return (childItems || []).flatMap(child => [
+    ...(includesText(child.title, query) ? [child.title] : []),
+    ...matchingChildTitles(child.childItems, query)
+  ]);
+}
+
+// The items in a list whose title, comment or sub-items contain the query
+export function matchListItems(items: ListItem[], query: string): ItemSearchMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  return items.flatMap(item => {
+    const childTitles = matchingChildTitles(item.childItems, needle);
+    if (!includesText(item.title, needle) && !includesText(item.comment, needle) && childTitles.length === 0) {
+      return [];
+    }
+    return [{
+      itemId: item.id,
+      title: item.title,
+      comment: item.comment || undefined,
+      childTitles
+    }];
+  });
+}
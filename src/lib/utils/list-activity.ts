@@ -0,0 +1,133 @@
+import { itemFieldsField, itemRecipeField, serializeChildItems } from "./list-items";
+import type { ItemFieldValues, ItemRecipe, ListChildItem, ListItemType } from "@/types/list";
+import type { ListActivityCategory, ListActivityInput, ListActivityType } from "@/types/list-activity";
+
+// Entries shown per page of the timeline
+export const LIST_ACTIVITY_PAGE_SIZE = 30;
+
+export const LIST_ACTIVITY_CATEGORIES: Record<ListActivityCategory, ListActivityType[]> = {
+  items: ['item.added', 'item.removed', 'item.renamed', 'item.checked', 'item.unchecked', 'item.edited', 'items.reordered'],
+  details: ['list.renamed', 'list.edited'],
+  visibility: ['list.visibility'],
+  collaborators: [
+    'collaborator.added',
+    'collaborator.invited',
+    'collaborator.claimed',
+    'collaborator.joined',
+    'collaborator.declined',
+    'collaborator.role',
+    'collaborator.removed',
+    'collaborator.left',
+    'ownership.offered',
+    'ownership.withdrawn',
+    'ownership.declined',
+    'ownership.transferred'
+  ],
+  copies: ['list.copied'],
+  pins: ['list.pinned', 'list.unpinned'],
+  trash: ['list.deleted', 'list.restored']
+};
+
+export const isListActivityCategory = (value: unknown): value is ListActivityCategory =>
+  typeof value === 'string' && value in LIST_ACTIVITY_CATEGORIES;
+
+interface ActivityItem {
+  _id?: { toString(): string } | string;
+  type?: ListItemType;
+  title: string;
+  comment?: string;
+  completed?: boolean;
+  tag?: string;
+  childItems?: ListChildItem[];
+  fields?: ItemFieldValues;
+  recipe?: ItemRecipe;
+}
+
+interface ActivitySource {
+  title: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+  visibility: string;
+  listType?: string;
+  items: ActivityItem[];
+}
+
+const sameJSON = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Everything about an item other than its title and completion that an edit
+// can change
+function editedItemFields(from: ActivityItem, to: ActivityItem) {
+  const fields: string[] = [];
+  if ((from.type || 'item') !== (to.type || 'item')) fields.push('type');
+  if ((from.comment || '') !== (to.comment || '')) fields.push('comment');
+  if ((from.tag || '') !== (to.tag || '')) fields.push('tag');
+  if (!sameJSON(serializeChildItems(from.childItems), serializeChildItems(to.childItems))) fields.push('childItems');
+  if (!sameJSON(itemFieldsField(from).fields, itemFieldsField(to).fields)) fields.push('fields');
+  if (!sameJSON(itemRecipeField(from).recipe, itemRecipeField(to).recipe)) fields.push('recipe');
+  return fields;
+}
+
+/**
+ * The activity a save made to a list, worked out by comparing the list before
+ * and after it. Items are matched by ID, so a renamed or moved item is still
+ * recognised. Moves are recorded once for the whole save.
+ */
+export function describeListChanges(previous: ActivitySource, current: ActivitySource): ListActivityInput[] {
+  const activity: ListActivityInput[] = [];
+
+  if (previous.title !== current.title) {
+    activity.push({ type: 'list.renamed', from: previous.title, to: current.title });
+  }
+
+  const editedFields = [
+    ...((previous.description || '') !== (current.description || '') ? ['description'] : []),
+    ...(previous.category !== current.category ? ['category'] : []),
+    ...(!sameJSON(previous.tags || [], current.tags || []) ? ['tags'] : []),
+    ...((previous.listType || 'ordered') !== (current.listType || 'ordered') ? ['listType'] : [])
+  ];
+  if (editedFields.length > 0) {
+    activity.push({ type: 'list.edited', fields: editedFields });
+  }
+
+  if (previous.visibility !== current.visibility) {
+    activity.push({ type: 'list.visibility', from: previous.visibility, to: current.visibility });
+  }
+
+  const idOf = (item: ActivityItem) => item._id?.toString() || '';
+  const previousById = new Map(previous.items.map(item => [idOf(item), item]));
+  const currentById = new Map(current.items.map(item => [idOf(item), item]));
+
+  previous.items
+    .filter(item => !currentById.has(idOf(item)))
+    .forEach(item => activity.push({ type: 'item.removed', itemId: idOf(item), itemTitle: item.title }));
+
+  current.items.forEach(item => {
+    const itemId = idOf(item);
+    const before = previousById.get(itemId);
+    if (!before) {
+      activity.push({ type: 'item.added', itemId, itemTitle: item.title });
+      return;
+    }
+
+    if (before.title !== item.title) {
+      activity.push({ type: 'item.renamed', itemId, itemTitle: item.title, from: before.title, to: item.title });
+    }
+    if (!!before.completed !== !!item.completed) {
+      activity.push({ type: item.completed ? 'item.checked' : 'item.unchecked', itemId, itemTitle: item.title });
+    }
+    const fields = editedItemFields(before, item);
+    if (fields.length > 0) {
+      activity.push({ type: 'item.edited', itemId, itemTitle: item.title, fields });
+    }
+  });
+
+  // Items kept through the save, in their old and new order
+  const keptBefore = previous.items.map(idOf).filter(id => currentById.has(id));
+  const keptAfter = current.items.map(idOf).filter(id => previousById.has(id));
+  if (!sameJSON(keptBefore, keptAfter)) {
+    activity.push({ type: 'items.reordered' });
+  }
+
+  return activity;
+}
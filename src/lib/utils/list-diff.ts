@@ -0,0 +1,141 @@
+import type {
+  ListFieldChange,
+  ListItemChange,
+  ListRevisionDiff,
+  ListRevisionSnapshot
+} from "@/types/list-revision";
+import { serializeChildItems } from "./list-items";
+
+type SnapshotItem = ListRevisionSnapshot['items'][number];
+
+const itemKey = (item: SnapshotItem) => item.title.trim().toLowerCase();
+
+function changedItemFields(from: SnapshotItem, to: SnapshotItem) {
+  const fields: Array<'title' | 'comment' | 'completed' | 'childItems'> = [];
+  if (from.title !== to.title) fields.push('title');
+  if ((from.comment || '') !== (to.comment || '')) fields.push('comment');
+  if (Boolean(from.completed) !== Boolean(to.completed)) fields.push('completed');
+
+  const fromChildren = JSON.stringify(serializeChildItems(from.childItems));
+  const toChildren = JSON.stringify(serializeChildItems(to.childItems));
+  if (fromChildren !== toChildren) fields.push('childItems');
+
+  return fields;
+}
+
+// Indices (into `sequence`) of a longest increasing subsequence, used to find
+// the smallest set of items that have to be reported as moved.
+function longestIncreasingSubsequence(sequence: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(sequence.length).fill(-1);
+
+  sequence.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sequence[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[i] = tails[low - 1];
+    tails[low] = i;
+  });
+
+  const result = new Set<number>();
+  let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (index !== -1) {
+    result.add(index);
+    index = previous[index];
+  }
+  return result;
+}
+
+/**
+ * Compares two list snapshots. Items are matched by title, so a renamed item
+ * shows up as a change only when it keeps its position in the list.
+ */
+export function diffListSnapshots(
+  from: ListRevisionSnapshot,
+  to: ListRevisionSnapshot,
+  revisions: { from: number; to: number } = { from: 0, to: 0 }
+): ListRevisionDiff {
+  const fields: ListFieldChange[] = [];
+  (['title', 'description', 'visibility'] as const).forEach(field => {
+    if ((from[field] || '') !== (to[field] || '')) {
+      fields.push({ field, from: from[field], to: to[field] });
+    }
+  });
+
+  // Match items with the same title, in order of appearance
+  const unmatchedFrom = new Map<string, number[]>();
+  from.items.forEach((item, index) => {
+    const key = itemKey(item);
+    unmatchedFrom.set(key, [...(unmatchedFrom.get(key) || []), index]);
+  });
+
+  const pairs: Array<{ fromIndex: number; toIndex: number }> = [];
+  const added: number[] = [];
+  to.items.forEach((item, toIndex) => {
+    const candidates = unmatchedFrom.get(itemKey(item));
+    if (candidates && candidates.length > 0) {
+      pairs.push({ fromIndex: candidates.shift() as number, toIndex });
+    } else {
+      added.push(toIndex);
+    }
+  });
+
+  const matchedFrom = new Set(pairs.map(p => p.fromIndex));
+  const removed = from.items
+    .map((_, index) => index)
+    .filter(index => !matchedFrom.has(index));
+
+  // An item removed and another added at the same position is a rename
+  const renamedFrom = new Set<number>();
+  const renamedTo = new Set<number>();
+  added.forEach(toIndex => {
+    if (removed.includes(toIndex) && !renamedFrom.has(toIndex)) {
+      renamedFrom.add(toIndex);
+      renamedTo.add(toIndex);
+      pairs.push({ fromIndex: toIndex, toIndex });
+    }
+  });
+
+  const items: ListItemChange[] = [];
+
+  removed
+    .filter(index => !renamedFrom.has(index))
+    .forEach(index => items.push({ type: 'removed', index, item: from.items[index] }));
+
+  added
+    .filter(index => !renamedTo.has(index))
+    .forEach(index => items.push({ type: 'added', index, item: to.items[index] }));
+
+  pairs.sort((a, b) => a.toIndex - b.toIndex);
+  const inOrder = longestIncreasingSubsequence(pairs.map(p => p.fromIndex));
+
+  pairs.forEach((pair, i) => {
+    const fromItem = from.items[pair.fromIndex];
+    const toItem = to.items[pair.toIndex];
+
+    if (!inOrder.has(i)) {
+      items.push({ type: 'moved', from: pair.fromIndex, to: pair.toIndex, item: toItem });
+    }
+
+    const changed = changedItemFields(fromItem, toItem);
+    if (changed.length > 0) {
+      items.push({ type: 'changed', index: pair.toIndex, from: fromItem, to: toItem, fields: changed });
+    }
+  });
+
+  items.sort((a, b) => {
+    const position = (change: ListItemChange) => change.type === 'moved' ? change.to : change.index;
+    return position(a) - position(b);
+  });
+
+  return {
+    from: revisions.from,
+    to: revisions.to,
+    fields,
+    items
+  };
+}
@@ -0,0 +1,124 @@
+import type { List, ListItem } from "@/types/list";
+import { categoryLabel } from "./category";
+import { toCsv } from "./csv";
+import { forEachChildItem, isSection, itemTypeField, serializeChildItems } from "./list-items";
+
+export type ListExportFormat = 'md' | 'csv' | 'json';
+
+export const LIST_EXPORT_FORMATS: ListExportFormat[] = ['md', 'csv', 'json'];
+
+export type ExportableList = Pick<List, 'title' | 'description' | 'category' | 'categoryInfo' | 'tags' | 'listType'> & {
+  items: ListItem[];
+  ownerUsername?: string;
+  url?: string;
+};
+
+const EXPORT_CONTENT_TYPES: Record<ListExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+export const exportContentType = (format: ListExportFormat) => EXPORT_CONTENT_TYPES[format];
+
+export function exportFileName(title: string, format: ListExportFormat) {
+  const base = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60);
+  return `${base || 'list'}.${format}`;
+}
+
+/**
+ * Markdown checklist. Comments are written as quotes under their item and
+ * sections as headings, which is also how the importer reads them back.
+ */
+export function exportListAsMarkdown(list: ExportableList) {
+  const lines = [`# ${list.title}`, ''];
+
+  if (list.description) {
+    lines.push(list.description, '');
+  }
+
+  const meta = [
+    categoryLabel(list.category, list.categoryInfo),
+    ...(list.tags || []).map(tag => `#${tag}`),
+    list.ownerUsername && `by @${list.ownerUsername}`
+  ].filter(Boolean);
+  lines.push(`_${meta.join(' · ')}_`, '');
+
+  list.items.forEach(item => {
+    if (isSection(item)) {
+      lines.push('', `## ${item.title}`, '');
+      return;
+    }
+    lines.push(`- [${item.completed ? 'x' : ' '}] ${item.title}${item.tag ? ` (${item.tag})` : ''}`);
+    item.comment?.split('\n').forEach(line => lines.push(`  > ${line}`));
+    forEachChildItem(item.childItems, (child, depth) => {
+      lines.push(`${'  '.repeat(depth)}- ${child.title}${child.tag ? ` (${child.tag})` : ''}`);
+    });
+  });
+
+  if (list.url) {
+    lines.push('', `Exported from ${list.url}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * One row per item, then one row per sub-item pointing at its item (or
+ * sub-item) through the parent column. Section headers are rows with type
+ * "section". The columns match what the importer accepts.
+ */
+export function exportListAsCsv(list: ExportableList) {
+  const rows: Array<Array<string | number | boolean | undefined>> = [
+    ['position', 'title', 'comment', 'completed', 'tag', 'parent', 'type']
+  ];
+
+  list.items.forEach((item, index) => {
+    if (isSection(item)) {
+      rows.push([index + 1, item.title, item.comment, '', '', '', 'section']);
+      return;
+    }
+    rows.push([index + 1, item.title, item.comment, Boolean(item.completed), item.tag, '', '']);
+    forEachChildItem(item.childItems, (child, _depth, parent) => {
+      rows.push(['', child.title, '', '', child.tag, parent ? parent.title : item.title, '']);
+    });
+  });
+
+  return toCsv(rows);
+}
+
+export function exportListAsJson(list: ExportableList) {
+  return JSON.stringify({
+    title: list.title,
+    description: list.description,
+    category: list.category,
+    categoryName: categoryLabel(list.category, list.categoryInfo),
+    tags: list.tags || [],
+    listType: list.listType,
+    owner: list.ownerUsername,
+    url: list.url,
+    exportedAt: new Date().toISOString(),
+    items: list.items.map(item => ({
+      ...itemTypeField(item),
+      title: item.title,
+      comment: item.comment,
+      completed: Boolean(item.completed),
+      childItems: serializeChildItems(item.childItems)
+    }))
+  }, null, 2);
+}
+
+export function exportList(list: ExportableList, format: ListExportFormat) {
+  switch (format) {
+    case 'csv':
+      return exportListAsCsv(list);
+    case 'json':
+      return exportListAsJson(list);
+    default:
+      return exportListAsMarkdown(list);
+  }
+}
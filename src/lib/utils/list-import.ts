@@ -0,0 +1,450 @@
+import type { ImportedListItem, ListImportFormat, ListImportPreview } from "@/types/list-import";
+import { parseCsvRows } from "./csv";
+import { starRating } from "./item-fields";
+import { childItemDepth, forEachChildItem, isSection, MAX_ITEM_DEPTH, serializeChildItems } from "./list-items";
+import type { ListChildItem } from "@/types/list";
+
+export const MAX_IMPORT_ITEMS = 500;
+const MAX_TITLE_LENGTH = 500;
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+
+const indentWidth = (whitespace: string) => whitespace.replace(/\t/g, '    ').length;
+
+// Strips the Markdown people commonly use inside list items
+const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g, '$1 ($2)')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim();
+
+// How deep a line indented by `indent` sits in the branch described by
+// `indents`, which is updated to end with this line
+function nestingDepth(indents: number[], indent: number) {
+  while (indents.length > 0 && indents[indents.length - 1] >= indent) indents.pop();
+  indents.push(indent);
+  return indents.length - 1;
+}
+
+/**
+ * Collects items and enforces the import limits. Sub-items always belong to
+ * the most recent item or sub-item one level up.
+ */
+class ItemCollector {
+  items: ImportedListItem[] = [];
+  warnings = new Set<string>();
+
+  add(title: string, extra: Omit<ImportedListItem, 'title'> = {}) {
+    if (!title) return;
+    if (this.items.length >= MAX_IMPORT_ITEMS) {
+      this.warnings.add(`Only the first ${MAX_IMPORT_ITEMS} items were imported`);
+      return;
+    }
+    const { fields, ...rest } = extra;
+    this.items.push({
+      title: this.limit(title),
+      ...rest,
+      childItems: rest.childItems || [],
+      ...(fields && Object.keys(fields).length > 0 && { fields })
+    });
+  }
+
+  addSection(title: string, comment?: string) {
+    this.add(title, { type: 'section', comment });
+  }
+
+  addChild(title: string, depth = 1, tag?: string) {
+    if (!title) return;
+    const item = this.items[this.items.length - 1];
+    // Sections can't have sub-items
+    if (!item || isSection(item)) {
+      this.add(title);
+      return;
+    }
+
+    if (depth > MAX_ITEM_DEPTH) {
+      this.warnings.add(`Sub-items nested more than ${MAX_ITEM_DEPTH} levels deep were moved up`);
+    }
+
+    // Walk down the most recent branch, stopping early if it isn't that deep
+    let parent: { childItems?: ListChildItem[] } = item;
+    for (let level = 1; level < Math.min(depth, MAX_ITEM_DEPTH); level++) {
+      const lastChild = parent.childItems?.[parent.childItems.length - 1];
+      if (!lastChild) break;
+      parent = lastChild;
+    }
+    parent.childItems = [...(parent.childItems || []), { title: this.limit(title), ...(tag && { tag }) }];
+  }
+
+  // The most recent item or sub-item with this title, for CSV parent columns
+  findLast(title: string): { childItems?: ListChildItem[] } | undefined {
+    const key = title.toLowerCase();
+    let found: { childItems?: ListChildItem[] } | undefined;
+    this.items.forEach(item => {
+      if (isSection(item)) return;
+      if (item.title.toLowerCase() === key) found = item;
+      forEachChildItem(item.childItems, child => {
+        if (child.title.toLowerCase() === key) found = child;
+      });
+    });
+    return found;
+  }
+
+  addComment(text: string) {
+    const item = this.items[this.items.length - 1];
+    if (!item || !text) return false;
+    item.comment = item.comment ? `${item.comment}\n${text}` : text;
+    return true;
+  }
+
+  private limit(title: string) {
+    if (title.length <= MAX_TITLE_LENGTH) return title;
+    this.warnings.add(`Item titles longer than ${MAX_TITLE_LENGTH} characters were shortened`);
+    return title.slice(0, MAX_TITLE_LENGTH);
+  }
+}
+
+function parseMarkdown(text: string): ListImportPreview {
+  const collector = new ItemCollector();
+  let title: string | undefined;
+  const description: string[] = [];
+  // Indents of the current branch, outermost first
+  const indents: number[] = [];
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    if (!rawLine.trim()) return;
+
+    const heading = rawLine.trim().match(HEADING);
+    if (heading) {
+      // The first heading names the list, later ones start sections
+      if (!title && collector.items.length === 0) {
+        title = stripInlineMarkdown(heading[2]);
+      } else {
+        collector.addSection(stripInlineMarkdown(heading[2]));
+        indents.length = 0;
+      }
+      return;
+    }
+
+    const listItem = rawLine.match(LIST_ITEM);
+    if (listItem) {
+      const [, whitespace, checkbox, content] = listItem;
+      const depth = nestingDepth(indents, indentWidth(whitespace));
+
+      if (depth > 0 && collector.items.length > 0) {
+        collector.addChild(stripInlineMarkdown(content), depth);
+      } else {
+        collector.add(stripInlineMarkdown(content), { completed: checkbox?.toLowerCase() === 'x' });
+      }
+      return;
+    }
+
+    // Other text describes the item above it, or the list if it comes first
+    const line = stripInlineMarkdown(rawLine.trim().replace(/^>\s?/, ''));
+    if (!collector.addComment(line)) {
+      description.push(line);
+    }
+  });
+
+  return {
+    format: 'markdown',
+    title,
+    description: description.join('\n') || undefined,
+    items: collector.items,
+    warnings: Array.from(collector.warnings)
+  };
+}
+
+function parsePlainText(text: string): ListImportPreview {
+  const collector = new ItemCollector();
+  const indents: number[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    if (!line.trim()) return;
+    // Indented lines become sub-items of the less indented line above
+    const depth = nestingDepth(indents, indentWidth(line.match(/^\s*/)?.[0] || ''));
+    if (depth > 0 && collector.items.length > 0) {
+      collector.addChild(line.trim(), depth);
+    } else {
+      collector.add(line.trim());
+    }
+  });
+
+  return { format: 'text', items: collector.items, warnings: Array.from(collector.warnings) };
+}
+
+const CSV_COLUMNS = {
+  title: ['title', 'name', 'item'],
+  comment: ['comment', 'comments', 'note', 'notes', 'description'],
+  tag: ['tag', 'tags', 'label'],
+  completed: ['completed', 'done', 'checked'],
+  parent: ['parent'],
+  type: ['type']
+} as const;
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+function findCsvColumns(header: string[]): Partial<Record<CsvColumn, number>> | null {
+  const normalized = header.map(cell => cell.toLowerCase());
+  const columns: Partial<Record<CsvColumn, number>> = {};
+  (Object.keys(CSV_COLUMNS) as CsvColumn[]).forEach(column => {
+    const index = normalized.findIndex(cell => (CSV_COLUMNS[column] as readonly string[]).includes(cell));
+    if (index !== -1) columns[column] = index;
+  });
+  return columns.title !== undefined ? columns : null;
+}
+
+const isTruthy = (value?: string) => /^(1|true|yes|y|x|done)$/i.test(value || '');
+
+function parseCsv(text: string): ListImportPreview {
+  const collector = new ItemCollector();
+  const rows = parseCsvRows(text);
+
+  // Without a header row the columns are title, comment, tag
+  const headerColumns = rows.length > 0 ? findCsvColumns(rows[0]) : null;
+  const columns = headerColumns || { title: 0, comment: 1, tag: 2 };
+  const dataRows = headerColumns ? rows.slice(1) : rows;
+  const cell = (row: string[], column: CsvColumn) =>
+    columns[column] !== undefined ? row[columns[column] as number] || '' : '';
+
+  dataRows.forEach(row => {
+    const title = cell(row, 'title');
+    const parent = cell(row, 'parent').toLowerCase();
+    if (!title) return;
+
+    if (cell(row, 'type').toLowerCase() === 'section') {
+      collector.addSection(title, cell(row, 'comment') || undefined);
+      return;
+    }
+
+    if (parent) {
+      // Rows with a parent become sub-items of the most recent matching item
+      const parentItem = collector.findLast(parent);
+      if (parentItem) {
+        parentItem.childItems = [...(parentItem.childItems || []), { title, ...(cell(row, 'tag') && { tag: cell(row, 'tag') }) }];
+        return;
+      }
+      collector.warnings.add('Rows whose parent could not be found were imported as top-level items');
+    }
+
+    collector.add(title, {
+      comment: cell(row, 'comment') || undefined,
+      completed: isTruthy(cell(row, 'completed')),
+      ...(cell(row, 'tag') && { tag: cell(row, 'tag') })
+    });
+  });
+
+  return { format: 'csv', items: collector.items, warnings: Array.from(collector.warnings) };
+}
+
+// Keyed by a header each export is known to contain
+const SERVICE_HEADERS: Array<[ListImportFormat, string]> = [
+  ['letterboxd', 'letterboxd uri'],
+  ['goodreads', 'exclusive shelf']
+];
+
+function detectServiceFormat(rows: string[][]): ListImportFormat | null {
+  const header = (rows[0] || []).map(cell => cell.trim().toLowerCase());
+  return SERVICE_HEADERS.find(([, column]) => header.includes(column))?.[0] || null;
+}
+
+// Looks cells up by header name, since the services add columns over time
+function headerLookup(header: string[]) {
+  const normalized = header.map(cell => cell.trim().toLowerCase());
+  return (row: string[], column: string) => (row[normalized.indexOf(column.toLowerCase())] || '').trim();
+}
+
+// Goodreads reviews are HTML fragments
+const stripHtml = (text: string) =>
+  text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .trim();
+
+const joinComment = (details: string[], review?: string) =>
+  [details.filter(Boolean).join(' · '), review].filter(Boolean).join('\n') || undefined;
+
+/**
+ * Letterboxd exports one CSV per kind of film log. Everything but the
+ * watchlist is something the user has seen. The watchlist and watched files
+ * share the same columns, so the file name is the only way to tell them apart.
+ */
+function parseLetterboxd(text: string, fileName?: string): ListImportPreview {
+  const collector = new ItemCollector();
+  const [header = [], ...rows] = parseCsvRows(text);
+  const cell = headerLookup(header);
+  const columns = header.map(column => column.trim().toLowerCase());
+
+  const name = fileName?.toLowerCase() || '';
+  const hasWatchDetails = ['rating', 'watched date', 'review'].some(column => columns.includes(column));
+  const isWatchlist = !hasWatchDetails && !name.includes('watched');
+  if (isWatchlist && !name.includes('watchlist')) {
+    collector.warnings.add('This looks like a watchlist, so every film was left unchecked');
+  }
+
+  rows.forEach(row => {
+    const film = cell(row, 'Name');
+    if (!film) return;
+    const year = cell(row, 'Year');
+    const rating = parseFloat(cell(row, 'Rating'));
+    const watchedDate = cell(row, 'Watched Date');
+
+    collector.add(year ? `${film} (${year})` : film, {
+      completed: !isWatchlist,
+      fields: {
+        ...(/^\d{4}$/.test(year) && { year: Number(year) }),
+        ...(rating > 0 && { rating })
+      },
+      comment: joinComment(
+        [
+          rating > 0 ? starRating(rating) : '',
+          watchedDate ? `Watched ${watchedDate}` : '',
+          cell(row, 'Rewatch').toLowerCase() === 'yes' ? 'Rewatch' : '',
+          cell(row, 'Tags') ? `Tags: ${cell(row, 'Tags')}` : ''
+        ],
+        cell(row, 'Review') || undefined
+      )
+    });
+  });
+
+  return {
+    format: 'letterboxd',
+    category: 'movies',
+    title: isWatchlist ? 'Letterboxd watchlist' : 'Films I\'ve watched',
+    items: collector.items,
+    warnings: Array.from(collector.warnings)
+  };
+}
+
+const GOODREADS_SHELVES: Record<string, string> = {
+  'currently-reading': 'Currently reading',
+  'to-read': 'Want to read'
+};
+
+// Goodreads library exports have one row per book, on exactly one of the
+// read, currently-reading or to-read shelves
+function parseGoodreads(text: string): ListImportPreview {
+  const collector = new ItemCollector();
+  const [header = [], ...rows] = parseCsvRows(text);
+  const cell = headerLookup(header);
+
+  rows.forEach(row => {
+    const book = cell(row, 'Title');
+    if (!book) return;
+    const author = cell(row, 'Author');
+    const shelf = cell(row, 'Exclusive Shelf').toLowerCase();
+    const rating = parseInt(cell(row, 'My Rating'), 10);
+    const dateRead = cell(row, 'Date Read');
+    const pages = parseInt(cell(row, 'Number of Pages'), 10);
+    const otherShelves = cell(row, 'Bookshelves')
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name && name !== shelf);
+
+    collector.add(author ? `${book} by ${author}` : book, {
+      completed: shelf === 'read',
+      fields: {
+        ...(author && { author }),
+        ...(pages > 0 && { pages }),
+        ...(rating > 0 && { rating })
+      },
+      comment: joinComment(
+        [
+          rating > 0 ? starRating(rating) : '',
+          dateRead ? `Read ${dateRead}` : GOODREADS_SHELVES[shelf] || '',
+          otherShelves.length > 0 ? `Shelves: ${otherShelves.join(', ')}` : ''
+        ],
+        stripHtml(cell(row, 'My Review')) || undefined
+      )
+    });
+  });
+
+  return {
+    format: 'goodreads',
+    category: 'books',
+    title: 'Goodreads library',
+    items: collector.items,
+    warnings: Array.from(collector.warnings)
+  };
+}
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+/**
+ * Drops items whose title is already in the list, or earlier in the import.
+ * This is what makes importing the same export again safe. Sections are always
+ * kept, since their titles often repeat.
+ */
+export function skipDuplicateItems(items: ImportedListItem[], existingTitles: string[] = []) {
+  const seen = new Set(existingTitles.map(titleKey));
+  const unique = items.filter(item => {
+    if (isSection(item)) return true;
+    const key = titleKey(item.title);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { items: unique, skipped: items.length - unique.length };
+}
+
+export function detectImportFormat(text: string, fileName?: string): ListImportFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'csv') return detectServiceFormat(parseCsvRows(text)) || 'csv';
+
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.some(line => LIST_ITEM.test(line) || HEADING.test(line.trim()))) return 'markdown';
+
+  // CSV when every row has the same number of columns, and more than one
+  const rows = parseCsvRows(text);
+  if (rows.length > 0 && rows[0].length > 1 && rows.every(row => row.length === rows[0].length)) {
+    return detectServiceFormat(rows) || 'csv';
+  }
+
+  return 'text';
+}
+
+/**
+ * Turns pasted or uploaded text into list items. Markdown checklists keep
+ * their checked state, nested bullets become sub-items and headings after the
+ * first become sections. Letterboxd and Goodreads exports are recognised by
+ * their columns, and their years, authors and ratings become item fields.
+ */
+export function parseListImport(
+  text: string,
+  format: ListImportFormat | 'auto' = 'auto',
+  fileName?: string
+): ListImportPreview {
+  const resolvedFormat = format === 'auto' ? detectImportFormat(text, fileName) : format;
+  const preview = parseAs(resolvedFormat, text, fileName);
+
+  // CSV parent columns can chain sub-items deeper than lists allow
+  if (preview.items.some(item => childItemDepth(item.childItems) > MAX_ITEM_DEPTH)) {
+    preview.warnings.push(`Sub-items nested more than ${MAX_ITEM_DEPTH} levels deep were left out`);
+    preview.items = preview.items.map(item => ({ ...item, childItems: serializeChildItems(item.childItems) }));
+  }
+
+  return preview;
+}
+
+function parseAs(format: ListImportFormat, text: string, fileName?: string): ListImportPreview {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(text);
+    case 'csv':
+      return parseCsv(text);
+    case 'letterboxd':
+      return parseLetterboxd(text, fileName);
+    case 'goodreads':
+      return parseGoodreads(text);
+    default:
+      return parsePlainText(text);
+  }
+}
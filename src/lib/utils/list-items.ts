@@ -0,0 +1,128 @@
+import type { ItemFieldValues, ItemRecipe, ListChildItem, ListItem, ListItemType } from "@/types/list";
+
+// How many levels of sub-items an item can have
+export const MAX_ITEM_DEPTH = 5;
+
+// Items are identified by a MongoDB ObjectId. The editor generates one as soon
+// as an item is typed, so any other ID is a placeholder that the server
+// replaces on save.
+export const isPersistedItemId = (id: unknown): id is string =>
+  typeof id === 'string' && /^[a-f\d]{24}$/i.test(id);
+
+// Random ObjectId-shaped ID for an item created on the client
+export function createItemId() {
+  const bytes = new Uint8Array(12);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Keeps the ID of an item that is already saved so it survives a full save
+export const persistedItemId = (id: unknown) =>
+  isPersistedItemId(id) ? { _id: id } : {};
+
+/**
+ * Copies a sub-item tree down to plain objects. Anything nested deeper than
+ * MAX_ITEM_DEPTH is dropped.
+ */
+export function serializeChildItems(
+  childItems: ListChildItem[] | undefined,
+  depth = 1
+): ListChildItem[] {
+  if (!Array.isArray(childItems) || depth > MAX_ITEM_DEPTH) return [];
+  return childItems.map(child => {
+    const grandchildren = serializeChildItems(child.childItems, depth + 1);
+    return {
+      title: child.title,
+      tag: child.tag || undefined,
+      ...(grandchildren.length > 0 && { childItems: grandchildren })
+    };
+  });
+}
+
+// Number of sub-item levels below an item, 0 when it has none
+export function childItemDepth(childItems: ListChildItem[] | undefined): number {
+  if (!childItems || childItems.length === 0) return 0;
+  return 1 + Math.max(...childItems.map(child => childItemDepth(child.childItems)));
+}
+
+// Visits every sub-item, parents before their children
+export function forEachChildItem(
+  childItems: ListChildItem[] | undefined,
+  visit: (child: ListChildItem, depth: number, parent?: ListChildItem) => void,
+  depth = 1,
+  parent?: ListChildItem
+) {
+  childItems?.forEach(child => {
+    visit(child, depth, parent);
+    forEachChildItem(child.childItems, visit, depth + 1, child);
+  });
+}
+
+export const isSection = (item: { type?: ListItemType }) => item.type === 'section';
+
+// Only sections carry their type, so regular items look the same as before
+// sections existed
+export const itemTypeField = (item: { type?: ListItemType }) =>
+  isSection(item) ? { type: 'section' as const } : {};
+
+// Keeps an item's tag, leaving it out when it has none
+export const itemTagField = (item: { tag?: string | null }) =>
+  item.tag ? { tag: item.tag } : {};
+
+// Copies field values to a plain object, leaving them out when there are none
+export function itemFieldsField(item: { fields?: ItemFieldValues | null }) {
+  if (!item.fields || Object.keys(item.fields).length === 0) return {};
+  return { fields: { ...item.fields } };
+}
+
+// Keeps who added an item, leaving it out when that isn't known
+export const itemCreatorField = (item: { createdBy?: string | null }) =>
+  item.createdBy ? { createdBy: item.createdBy } : {};
+
+// Who a full save credits an item to. Saved items keep their creator and
+// anything new belongs to whoever is saving.
+export const savedItemCreatorField = (saved: { createdBy?: string } | undefined, userId: string) =>
+  itemCreatorField(saved || { createdBy: userId });
+
+// Copies a recipe to plain objects, leaving it out when it is empty
+export function itemRecipeField(item: { recipe?: ItemRecipe | null }) {
+  const ingredients = item.recipe?.ingredients || [];
+  const steps = item.recipe?.steps || [];
+  if (ingredients.length === 0 && steps.length === 0) return {};
+  return {
+    recipe: {
+      ingredients: ingredients.map(ingredient => ({
+        ...(typeof ingredient.quantity === 'number' && { quantity: ingredient.quantity }),
+        ...(ingredient.unit && { unit: ingredient.unit }),
+        name: ingredient.name
+      })),
+      steps: [...steps]
+    }
+  };
+}
+
+export function serializeListItem(item: {
+  _id?: { toString(): string };
+  type?: ListItemType;
+  title: string;
+  comment?: string;
+  completed?: boolean;
+  tag?: string;
+  childItems?: ListChildItem[];
+  fields?: ItemFieldValues;
+  recipe?: ItemRecipe;
+  createdBy?: string;
+}): ListItem {
+  return {
+    id: item._id?.toString() || crypto.randomUUID(),
+    ...itemTypeField(item),
+    title: item.title,
+    comment: item.comment,
+    completed: item.completed || false,
+    ...itemTagField(item),
+    childItems: serializeChildItems(item.childItems),
+    ...itemFieldsField(item),
+    ...itemRecipeField(item),
+    ...itemCreatorField(item)
+  };
+}
@@ -0,0 +1,121 @@
+import { isPersistedItemId } from "./list-items";
+import type { ListChildItem, ListItemType } from "@/types/list";
+
+export interface MergeableItem {
+  id?: string;
+  type?: ListItemType;
+  title: string;
+  comment?: string;
+  completed?: boolean;
+  tag?: string;
+  childItems?: ListChildItem[];
+}
+
+const MERGE_FIELDS = ['type', 'title', 'comment', 'completed', 'tag', 'childItems'] as const;
+
+// Saved items are matched by ID, which also lets renames merge like any other
+// field. Items without a stable ID fall back to matching by title.
+export const itemMergeKey = (item: MergeableItem) =>
+  isPersistedItemId(item.id) ? item.id : item.title.trim().toLowerCase();
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function indexByKey<T extends MergeableItem>(items: T[]) {
+  const map = new Map<string, T>();
+  items.forEach(item => {
+    const key = itemMergeKey(item);
+    if (!map.has(key)) map.set(key, item);
+  });
+  return map;
+}
+
+// Whether `items` moved any of the items it shares with `base`. Adding or
+// removing items doesn't count.
+function reordersItems(base: MergeableItem[], items: MergeableItem[]) {
+  const itemKeys = new Set(items.map(itemMergeKey));
+  const baseOrder = base.map(itemMergeKey).filter(key => itemKeys.has(key));
+  const baseKeys = new Set(baseOrder);
+  return !sameValue(baseOrder, items.map(itemMergeKey).filter(key => baseKeys.has(key)));
+}
+
+/**
+ * Three-way merge of list items. `base` is the version both sides started
+ * from, `mine` holds local edits and `theirs` the copy currently saved on the
+ * server. Edits from both sides are kept; when the same field of the same item
+ * was changed on both sides, the local value wins. The order is merged the
+ * same way: a local reorder is kept unless only the other side moved items.
+ */
+export function mergeListItems<T extends MergeableItem>(base: T[], mine: T[], theirs: T[]): T[] {
+  const baseByKey = indexByKey(base);
+  const mineByKey = indexByKey(mine);
+  const theirsByKey = indexByKey(theirs);
+
+  // The merged copy of an item, or undefined if the merge leaves it out
+  const mergeItem = (myItem: T | undefined, theirItem: T | undefined): T | undefined => {
+    const key = itemMergeKey((myItem || theirItem) as T);
+    const baseItem = baseByKey.get(key);
+
+    if (myItem && theirItem) {
+      if (!baseItem) return { ...theirItem, ...myItem };
+      const merged = { ...theirItem };
+      MERGE_FIELDS.forEach(field => {
+        if (!sameValue(baseItem[field], myItem[field])) {
+          (merged as MergeableItem)[field] = myItem[field] as never;
+        }
+      });
+      return merged;
+    }
+
+    if (theirItem) {
+      // Removed locally; keep it only if the other side edited it meanwhile
+      const editedByThem = !baseItem || MERGE_FIELDS.some(field => !sameValue(baseItem[field], theirItem[field]));
+      return editedByThem ? theirItem : undefined;
+    }
+
+    // Local additions are kept and items the other side removed are not
+    return baseItem ? undefined : myItem;
+  };
+
+  // The result follows the order of one side and slots in what only the other
+  // side has
+  const mineLeads = reordersItems(base, mine);
+  const leading = mineLeads ? mine : theirs;
+  const following = mineLeads ? theirs : mine;
+  const leadingByKey = mineLeads ? mineByKey : theirsByKey;
+  const followingByKey = mineLeads ? theirsByKey : mineByKey;
+  const mergePair = (leadItem: T | undefined, followItem: T | undefined) =>
+    mineLeads ? mergeItem(leadItem, followItem) : mergeItem(followItem, leadItem);
+
+  const result: T[] = [];
+  leading.forEach(leadItem => {
+    const merged = mergePair(leadItem, followingByKey.get(itemMergeKey(leadItem)));
+    if (merged) result.push(merged);
+  });
+
+  // Insert the rest after the closest preceding item that survived
+  following.forEach((followItem, index) => {
+    if (leadingByKey.has(itemMergeKey(followItem))) return;
+    const merged = mergePair(undefined, followItem);
+    if (!merged) return;
+
+    let insertAt = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const previousKey = itemMergeKey(following[i]);
+      const position = result.findIndex(item => itemMergeKey(item) === previousKey);
+      if (position !== -1) {
+        insertAt = position + 1;
+        break;
+      }
+    }
+    result.splice(insertAt, 0, merged);
+  });
+
+  return result;
+}
+
+/**
+ * Picks the merged value of a scalar field such as the title or description.
+ */
+export function mergeField<T>(base: T, mine: T, theirs: T): T {
+  return sameValue(base, mine) ? theirs : mine;
+}
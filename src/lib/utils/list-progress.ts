@@ -0,0 +1,19 @@
+import type { ListItemType, ListProgress } from "@/types/list";
+import { isSection } from "./list-items";
+
+/**
+ * Counts a user's checkmarks against the items the list has now. Items that
+ * were removed since they were ticked off don't count, and neither do
+ * section headers.
+ */
+export function summarizeProgress(
+  items: Array<{ _id?: { toString(): string }; id?: string; type?: ListItemType }>,
+  completedItemIds: string[] = []
+): ListProgress {
+  const completed = new Set(completedItemIds);
+  const checkable = items.filter(item => !isSection(item));
+  return {
+    completed: checkable.filter(item => completed.has(String(item.id ?? item._id))).length,
+    total: checkable.length
+  };
+}
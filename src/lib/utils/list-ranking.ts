@@ -0,0 +1,146 @@
+import { isSection } from "./list-items";
+import type { ListItemType } from "@/types/list";
+
+// One answered question: `winner` should rank above `loser`
+export interface RankingComparison {
+  winner: string;
+  loser: string;
+}
+
+export type RankingStep =
+  | { done: false; pair: [string, string] }
+  | { done: true; itemIds: string[] };
+
+interface RankableItem {
+  id: string;
+  type?: ListItemType;
+}
+
+// Thrown by the comparator when the user hasn't answered a question yet
+class UnansweredComparison {
+  constructor(readonly pair: [string, string]) {}
+}
+
+const pairKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+
+// Jacobsthal numbers 1, 3, 5, 11, 21, ... decide the order the smaller items
+// are inserted in, which keeps every binary search as short as possible
+const jacobsthal = (k: number) => (2 ** (k + 1) + (k % 2 ? -1 : 1)) / 3;
+
+/**
+ * Ford-Johnson merge-insertion sort, which needs fewer comparisons than any
+ * other general method for the list sizes people rank by hand. Sorts from
+ * lowest to highest, where `below(a, b)` says whether a ranks below b.
+ */
+function mergeInsertionSort(ids: string[], below: (a: string, b: string) => boolean): string[] {
+  if (ids.length <= 1) return [...ids];
+
+  // Compare items in pairs and sort the higher of each pair among themselves
+  const partners = new Map<string, string>();
+  const higher: string[] = [];
+  for (let i = 0; i + 1 < ids.length; i += 2) {
+    const [low, high] = below(ids[i], ids[i + 1]) ? [ids[i], ids[i + 1]] : [ids[i + 1], ids[i]];
+    higher.push(high);
+    partners.set(high, low);
+  }
+  const order = mergeInsertionSort(higher, below);
+
+  // Each lower item belongs somewhere before its partner, so only that part of
+  // the order has to be searched. An odd item out may go anywhere.
+  const pending: Array<{ id: string; bound?: string }> = order.flatMap(high => {
+    const low = partners.get(high);
+    return low === undefined ? [] : [{ id: low, bound: high }];
+  });
+  if (ids.length % 2) {
+    pending.push({ id: ids[ids.length - 1], bound: undefined });
+  }
+
+  // The partner of the lowest item goes first without asking
+  order.unshift(pending[0].id);
+
+  for (let k = 2, previous = 1; previous < pending.length; k++) {
+    const group = Math.min(jacobsthal(k), pending.length);
+    for (let i = group - 1; i >= previous; i--) {
+      const { id, bound } = pending[i];
+      let low = 0;
+      let high = bound ? order.indexOf(bound) : order.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (below(id, order[middle])) {
+          high = middle;
+        } else {
+          low = middle + 1;
+        }
+      }
+      order.splice(low, 0, id);
+    }
+    previous = group;
+  }
+
+  return order;
+}
+
+/**
+ * Replays the ranking from the answers given so far and returns either the
+ * next pair to ask about or the finished order. The same answers always lead
+ * to the same questions, so a ranking can be resumed from its answers alone.
+ * Items are ranked within their section and sections stay where they are.
+ */
+export function nextRankingStep(items: RankableItem[], comparisons: RankingComparison[]): RankingStep {
+  const answers = new Map(comparisons.map(({ winner, loser }) => [pairKey(winner, loser), winner]));
+  const below = (a: string, b: string) => {
+    const winner = answers.get(pairKey(a, b));
+    if (winner === undefined) throw new UnansweredComparison([a, b]);
+    return winner === b;
+  };
+
+  const itemIds: string[] = [];
+  let group: string[] = [];
+  const flush = () => {
+    itemIds.push(...mergeInsertionSort(group, below).reverse());
+    group = [];
+  };
+
+  try {
+    for (const item of items) {
+      if (isSection(item)) {
+        flush();
+        itemIds.push(item.id);
+      } else {
+        group.push(item.id);
+      }
+    }
+    flush();
+  } catch (error) {
+    if (error instanceof UnansweredComparison) {
+      return { done: false, pair: error.pair };
+    }
+    throw error;
+  }
+
+  return { done: true, itemIds };
+}
+
+// Most questions merge-insertion can need for n items
+function maxComparisons(n: number) {
+  let total = 0;
+  for (let k = 1; k <= n; k++) {
+    total += Math.ceil(Math.log2((3 * k) / 4));
+  }
+  return total;
+}
+
+// Upper bound on the questions a whole ranking can take, for showing progress
+export function maxRankingComparisons(items: RankableItem[]) {
+  let total = 0;
+  let groupSize = 0;
+  for (const item of items) {
+    if (isSection(item)) {
+      total += maxComparisons(groupSize);
+      groupSize = 0;
+    } else {
+      groupSize++;
+    }
+  }
+  return total + maxComparisons(groupSize);
+}
@@ -0,0 +1,31 @@
+/**
+ * Tags are free-form labels on a list. They are stored normalized (lowercase,
+ * words joined by hyphens) so "Date Night" and "date-night" are the same tag.
+ */
+
+export const MAX_LIST_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+export function normalizeTag(tag: string) {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^\p{L}\p{N}-]/gu, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+// Normalizes, drops empty and duplicate tags, and caps the count
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+
+  const normalized = tags
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(normalizeTag)
+    .filter(Boolean);
+
+  return Array.from(new Set(normalized)).slice(0, MAX_LIST_TAGS);
+}
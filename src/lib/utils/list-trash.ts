@@ -0,0 +1,13 @@
+// How long a deleted list stays in the trash before it's purged for good
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function trashPurgeDate(deletedAt: Date | string) {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+// Lists deleted before this date are due to be purged
+export function trashPurgeCutoff(now = new Date()) {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+}
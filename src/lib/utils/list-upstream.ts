@@ -0,0 +1,168 @@
+import { itemMergeKey, type MergeableItem } from "./list-merge";
+import type { UpstreamItemField } from "@/types/list-upstream";
+
+// Completion is personal to each copy, so only content is pulled upstream
+const UPSTREAM_FIELDS: UpstreamItemField[] = ['title', 'comment', 'childItems'];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const changedFields = (from: MergeableItem, to: MergeableItem) =>
+  UPSTREAM_FIELDS.filter(field => !sameValue(from[field], to[field]));
+
+export type UpstreamChange<T extends MergeableItem> =
+  | { key: string; type: 'added'; upstream: T; conflict: false }
+  | { key: string; type: 'changed'; upstream: T; local?: T; fields: UpstreamItemField[]; conflict: boolean }
+  | { key: string; type: 'removed'; local: T; conflict: boolean };
+
+const byKey = <T extends MergeableItem>(items: T[]) =>
+  new Map(items.map(item => [itemMergeKey(item), item]));
+
+/**
+ * Three-way diff for a copied list. `base` is the original as it was when the
+ * copy was made (or last pulled from), `upstream` the original now and `local`
+ * the copy now. Only changes made upstream are reported.
+ */
+export function diffUpstream<T extends MergeableItem>(base: T[], upstream: T[], local: T[]): UpstreamChange<T>[] {
+  const baseByKey = byKey(base);
+  const upstreamByKey = byKey(upstream);
+  const localByKey = byKey(local);
+  const changes: UpstreamChange<T>[] = [];
+
+  upstream.forEach(upstreamItem => {
+    const key = itemMergeKey(upstreamItem);
+    const baseItem = baseByKey.get(key);
+    const localItem = localByKey.get(key);
+
+    if (!baseItem) {
+      if (!localItem) {
+        changes.push({ key, type: 'added', upstream: upstreamItem, conflict: false });
+      } else if (changedFields(localItem, upstreamItem).length > 0) {
+        // Both sides have the item but there is no record of where it started
+        changes.push({
+          key,
+          type: 'changed',
+          upstream: upstreamItem,
+          local: localItem,
+          fields: changedFields(localItem, upstreamItem),
+          conflict: true
+        });
+      }
+      return;
+    }
+
+    const fields = changedFields(baseItem, upstreamItem);
+    if (fields.length === 0) return;
+    if (localItem && changedFields(localItem, upstreamItem).length === 0) return;
+
+    changes.push({
+      key,
+      type: 'changed',
+      upstream: upstreamItem,
+      local: localItem,
+      fields,
+      // Removed from the copy, or the copy edited one of the same fields
+      conflict: !localItem || fields.some(field => !sameValue(baseItem[field], localItem[field]))
+    });
+  });
+
+  local.forEach(localItem => {
+    const key = itemMergeKey(localItem);
+    const baseItem = baseByKey.get(key);
+    if (!baseItem || upstreamByKey.has(key)) return;
+
+    changes.push({
+      key,
+      type: 'removed',
+      local: localItem,
+      conflict: changedFields(baseItem, localItem).length > 0
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Applies the chosen upstream changes to the copy's items. New items are
+ * placed after the nearest item that precedes them in the original.
+ */
+export function applyUpstreamChanges<T extends MergeableItem>(
+  local: T[],
+  upstream: T[],
+  changes: UpstreamChange<T>[]
+): T[] {
+  const result = [...local];
+  const indexOfKey = (key: string) => result.findIndex(item => itemMergeKey(item) === key);
+
+  const insertFromUpstream = (item: T) => {
+    const upstreamIndex = upstream.findIndex(u => itemMergeKey(u) === itemMergeKey(item));
+    let insertAt = 0;
+    for (let i = upstreamIndex - 1; i >= 0; i--) {
+      const position = indexOfKey(itemMergeKey(upstream[i]));
+      if (position !== -1) {
+        insertAt = position + 1;
+        break;
+      }
+    }
+    result.splice(insertAt, 0, item);
+  };
+
+  // Work through changes in upstream order so earlier additions can anchor later ones
+  const ordered = [...changes].sort((a, b) =>
+    upstream.findIndex(item => itemMergeKey(item) === a.key) -
+    upstream.findIndex(item => itemMergeKey(item) === b.key)
+  );
+
+  ordered.forEach(change => {
+    const position = indexOfKey(change.key);
+
+    if (change.type === 'removed') {
+      if (position !== -1) result.splice(position, 1);
+      return;
+    }
+
+    if (position === -1) {
+      insertFromUpstream(change.upstream);
+      return;
+    }
+
+    if (change.type === 'changed') {
+      const merged = { ...result[position] };
+      change.fields.forEach(field => {
+        (merged as MergeableItem)[field] = change.upstream[field] as never;
+      });
+      result[position] = merged;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * The new base after pulling: everything now matches upstream except the
+ * changes that were skipped, which stay pending for next time.
+ */
+export function advanceUpstreamBase<T extends MergeableItem>(
+  base: T[],
+  upstream: T[],
+  changes: UpstreamChange<T>[],
+  pulledKeys: Set<string>
+): T[] {
+  const baseByKey = byKey(base);
+  const skipped = new Set(changes.filter(change => !pulledKeys.has(change.key)).map(change => change.key));
+
+  const nextBase = upstream.flatMap(item => {
+    const key = itemMergeKey(item);
+    if (!skipped.has(key)) return [item];
+    const baseItem = baseByKey.get(key);
+    return baseItem ? [baseItem] : [];
+  });
+
+  // Items removed upstream whose removal was skipped
+  base.forEach(item => {
+    if (skipped.has(itemMergeKey(item)) && !upstream.some(u => itemMergeKey(u) === itemMergeKey(item))) {
+      nextBase.push(item);
+    }
+  });
+
+  return nextBase;
+}
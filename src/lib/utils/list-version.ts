@@ -0,0 +1,30 @@
+/**
+ * Helpers for optimistic concurrency on lists. Every write bumps
+ * `ListDocument.version`; clients send the version they started from either as
+ * an `If-Match` header (the list's ETag) or as a `version` field in the body.
+ */
+
+export function listETag(version: number | undefined) {
+  return `"${version || 0}"`;
+}
+
+export function getExpectedVersion(request: Request, body?: { version?: unknown }): number | null {
+  const ifMatch = request.headers.get('if-match');
+  if (ifMatch) {
+    const version = parseInt(ifMatch.replace(/^W\//, '').replace(/"/g, ''), 10);
+    return Number.isNaN(version) ? null : version;
+  }
+
+  if (typeof body?.version === 'number' && Number.isInteger(body.version)) {
+    return body.version;
+  }
+
+  return null;
+}
+
+// Lists created before versioning have no version field and count as version 0
+export function versionFilter(version: number) {
+  return version === 0
+    ? { $or: [{ version: 0 }, { version: { $exists: false } }] }
+    : { version };
+}
@@ -0,0 +1,157 @@
+import type { ItemFieldValues, RecipeIngredient } from "@/types/list";
+
+// Spellings people use for the same unit, mapped to one short form
+const UNIT_ALIASES: Record<string, string> = {
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  tbs: 'tbsp',
+  cups: 'cup',
+  gram: 'g',
+  grams: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  kilo: 'kg',
+  kilos: 'kg',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  litre: 'l',
+  litres: 'l',
+  liter: 'l',
+  liters: 'l',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+  cloves: 'clove',
+  pinches: 'pinch',
+  cans: 'can'
+};
+
+// Units that convert into each other, sized in grams or millilitres
+const UNIT_SIZES: Record<string, { measure: 'weight' | 'volume'; size: number }> = {
+  g: { measure: 'weight', size: 1 },
+  kg: { measure: 'weight', size: 1000 },
+  oz: { measure: 'weight', size: 28.3495 },
+  lb: { measure: 'weight', size: 453.592 },
+  ml: { measure: 'volume', size: 1 },
+  l: { measure: 'volume', size: 1000 },
+  tsp: { measure: 'volume', size: 4.92892 },
+  tbsp: { measure: 'volume', size: 14.7868 },
+  cup: { measure: 'volume', size: 236.588 }
+};
+
+export function normalizeUnit(unit?: string) {
+  const key = (unit || '').trim().toLowerCase().replace(/\.$/, '');
+  return UNIT_ALIASES[key] || key;
+}
+
+const FRACTIONS: Array<[number, string]> = [
+  [1 / 4, '¼'],
+  [1 / 3, '⅓'],
+  [1 / 2, '½'],
+  [2 / 3, '⅔'],
+  [3 / 4, '¾']
+];
+
+const closeTo = (a: number, b: number) => Math.abs(a - b) < 0.02;
+
+const roundQuantity = (quantity: number) => Math.round(quantity * 100) / 100;
+
+// Quantities read like a recipe would print them, e.g. 1½ rather than 1.5
+export function formatQuantity(quantity: number) {
+  const whole = Math.floor(quantity);
+  const fraction = FRACTIONS.find(([value]) => closeTo(quantity - whole, value));
+  if (fraction) return `${whole || ''}${fraction[1]}`;
+  return String(roundQuantity(quantity));
+}
+
+// Whole numbers and the fractions formatQuantity prints as symbols
+const isTidyQuantity = (quantity: number) =>
+  closeTo(quantity, Math.round(quantity)) ||
+  FRACTIONS.some(([value]) => closeTo(quantity - Math.floor(quantity), value));
+
+export function formatIngredient(ingredient: RecipeIngredient) {
+  return [
+    ingredient.quantity !== undefined && formatQuantity(ingredient.quantity),
+    ingredient.unit,
+    ingredient.name
+  ].filter(Boolean).join(' ');
+}
+
+// How many a recipe makes, from its servings field. Recipes without one can't
+// be scaled by servings.
+export function recipeServings(fields?: ItemFieldValues) {
+  const servings = fields?.servings;
+  return typeof servings === 'number' && servings > 0 ? servings : undefined;
+}
+
+export function scaleIngredients(ingredients: RecipeIngredient[], factor: number): RecipeIngredient[] {
+  if (factor === 1) return ingredients;
+  return ingredients.map(ingredient => ingredient.quantity === undefined
+    ? ingredient
+    : { ...ingredient, quantity: ingredient.quantity * factor });
+}
+
+export interface ShoppingListEntry extends RecipeIngredient {
+  // Titles of the recipes that need it
+  recipes: string[];
+}
+
+const ingredientKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Merges the ingredients of several recipes into one shopping list. The same
+ * ingredient is added up when the units match or convert into each other (so
+ * 1 tbsp and 1 tsp of oil become 1⅓ tbsp, and 1 cup and 1 tbsp of milk become
+ * 17 tbsp), and otherwise listed once per unit. Entries keep the order the
+ * ingredients first appear in.
+ */
+export function buildShoppingList(
+  recipes: Array<{ title: string; ingredients: RecipeIngredient[] }>
+): ShoppingListEntry[] {
+  const entries = new Map<string, ShoppingListEntry & { units: Set<string> }>();
+
+  recipes.forEach(recipe => {
+    recipe.ingredients.forEach(ingredient => {
+      const unit = normalizeUnit(ingredient.unit);
+      const size = UNIT_SIZES[unit];
+      // Convertible units share a key and are added up in grams or millilitres
+      const key = `${ingredientKey(ingredient.name)}|${ingredient.quantity === undefined ? 'none' : size?.measure || unit}`;
+      const amount = ingredient.quantity === undefined ? undefined : ingredient.quantity * (size?.size || 1);
+
+      const entry = entries.get(key);
+      if (!entry) {
+        entries.set(key, {
+          name: ingredient.name.trim(),
+          quantity: amount,
+          unit: unit || undefined,
+          units: new Set(unit ? [unit] : []),
+          recipes: [recipe.title]
+        });
+        return;
+      }
+
+      if (amount !== undefined) entry.quantity = (entry.quantity || 0) + amount;
+      if (unit) entry.units.add(unit);
+      if (!entry.recipes.includes(recipe.title)) entry.recipes.push(recipe.title);
+    });
+  });
+
+  return Array.from(entries.values()).map(({ units, ...entry }) => {
+    const total = entry.quantity;
+    if (total === undefined || !entry.unit || !UNIT_SIZES[entry.unit]) return entry;
+
+    // Show the total in the largest of the units used that it fills at least
+    // one of, preferring one it comes out tidy in and falling back to the
+    // smallest
+    const used = Array.from(units).sort((a, b) => UNIT_SIZES[b].size - UNIT_SIZES[a].size);
+    const filled = used.filter(u => total / UNIT_SIZES[u].size >= 1);
+    const unit = filled.find(u => isTidyQuantity(total / UNIT_SIZES[u].size)) || filled[0] || used[used.length - 1];
+    return { ...entry, unit, quantity: roundQuantity(total / UNIT_SIZES[unit].size) };
+  });
+}
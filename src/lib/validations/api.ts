@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { CATEGORY_ICONS } from '@/types/category';
+import type { ListChildItem } from '@/types/list';
+import { MAX_ITEM_DEPTH, childItemDepth } from '@/lib/utils/list-items';
 
 export const searchParamsSchema = z.object({
   q: z.string().optional(),
@@ -28,6 +31,145 @@ export type CreateListInput = z.infer<typeof listCreateSchema>;
 
 export const listUpdateSchema = listCreateSchema.partial();
 
+export const categoryCreateSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Colour must be a hex value like #3b82f6'),
+  icon: z.enum(CATEGORY_ICONS).default('tag')
+});
+
+export const categoryUpdateSchema = categoryCreateSchema.partial();
+
+export const collaboratorRoleSchema = z.enum(['admin', 'editor', 'contributor', 'commenter', 'viewer']);
+
+// Adds an existing user by Clerk ID, or invites an email address
+export const collaboratorAddSchema = z.object({
+  type: z.enum(['user', 'email']).default('user'),
+  targetUserId: z.string().min(1).optional(),
+  // Older clients send the Clerk ID as userId
+  userId: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  role: collaboratorRoleSchema.default('viewer')
+});
+
+export const collaboratorUpdateSchema = z.object({
+  role: collaboratorRoleSchema
+});
+
+export const ownershipTransferSchema = z.object({
+  clerkId: z.string().min(1),
+  keepAsAdmin: z.boolean().default(true)
+});
+
+export const ownershipTransferResponseSchema = z.object({
+  action: z.enum(['accept', 'decline'])
+});
+
+export const collectionCreateSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(300).optional(),
+  visibility: z.enum(['public', 'private']).default('private'),
+  sort: z.enum(['recent', 'title', 'manual']).default('recent')
+});
+
+export const collectionUpdateSchema = collectionCreateSchema.partial();
+
+export const collectionListAddSchema = z.object({
+  listId: z.string().min(1)
+});
+
+// The collection's lists in their new custom order
+export const collectionReorderSchema = z.object({
+  listIds: z.array(z.string()).min(1)
+});
+
+const childItemSchema: z.ZodType<ListChildItem> = z.lazy(() => z.object({
+  title: z.string().min(1),
+  tag: z.string().optional(),
+  childItems: z.array(childItemSchema).optional()
+}));
+
+const childItemsSchema = z.array(childItemSchema).refine(
+  childItems => childItemDepth(childItems) <= MAX_ITEM_DEPTH,
+  `Sub-items can be nested at most ${MAX_ITEM_DEPTH} levels deep`
+);
+
+export const recipeSchema = z.object({
+  ingredients: z.array(z.object({
+    quantity: z.number().positive().max(100_000).optional(),
+    unit: z.string().trim().max(20).optional(),
+    name: z.string().trim().min(1).max(100)
+  })).max(100),
+  steps: z.array(z.string().trim().min(1).max(2000)).max(100)
+});
+
+export const listItemCreateSchema = z.object({
+  type: z.enum(['item', 'section']).optional(),
+  title: z.string().trim().min(1).max(500),
+  comment: z.string().max(500).optional(),
+  completed: z.boolean().optional(),
+  childItems: childItemsSchema.optional(),
+  // Checked against the list's category with itemFieldsSchema
+  fields: z.record(z.union([z.string(), z.number(), z.null()])).optional(),
+  // Only items on recipes lists can have one
+  recipe: recipeSchema.optional(),
+  index: z.number().int().min(0).optional()
+});
+
+export const listItemUpdateSchema = listItemCreateSchema.omit({ index: true }).partial();
+
+// The items of a full list save. The route resolves the rest of each item
+// against the saved list, so only the sub-items are checked here.
+export const listItemsSaveSchema = z.array(z.object({
+  title: z.string(),
+  childItems: childItemsSchema.optional()
+}).passthrough());
+
+export const listItemReorderSchema = z.object({
+  itemIds: z.array(z.string()).min(1)
+});
+
+export const listImportSchema = z.object({
+  text: z.string().min(1).max(200_000),
+  format: z.enum(['auto', 'markdown', 'csv', 'text', 'letterboxd', 'goodreads']).default('auto'),
+  fileName: z.string().optional(),
+  // Add the items to this list instead of creating a new one
+  listId: z.string().optional(),
+  // Return the parsed list without creating it
+  preview: z.boolean().default(false),
+  title: z.string().trim().max(100).optional(),
+  description: z.string().max(500).optional(),
+  category: z.string().default('other'),
+  tags: z.array(z.string()).optional(),
+  visibility: z.enum(['public', 'private', 'unlisted']).default('private'),
+  listType: z.enum(['ordered', 'bullet']).default('ordered')
+});
+
+export const upstreamPullSchema = z.object({
+  keys: z.array(z.string()).min(1)
+});
+
+export const shoppingListCreateSchema = z.object({
+  recipes: z.array(z.object({
+    itemId: z.string().min(1),
+    // Scales the recipe from the servings it makes
+    servings: z.number().positive().max(1000).optional()
+  })).min(1).max(50),
+  title: z.string().trim().min(1).max(100).optional()
+});
+
+// One answer in a ranking by comparison
+export const listRankingAnswerSchema = z.object({
+  winner: z.string().min(1),
+  loser: z.string().min(1)
+}).refine(answer => answer.winner !== answer.loser, {
+  message: "An item can't be compared with itself"
+});
+
+export const listProgressUpdateSchema = z.object({
+  itemId: z.string().min(1),
+  completed: z.boolean()
+});
+
 export const profileUpdateSchema = z.object({
   bio: z.string().max(500).optional(),
   location: z.string().max(100).optional(),
@@ -41,4 +183,4 @@ export const profileUpdateSchema = z.object({
   }).optional()
 });
 
-export type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>; 
\ No newline at end of file
+export type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>; 
@@ -1,4 +1,5 @@
 import { cleanupDeletedUsers } from './deleted-users';
+import { cleanupTrashedLists } from './trashed-lists';
 
 // Run cleanup every day at 3 AM
 const CLEANUP_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
@@ -11,11 +12,13 @@ async function scheduleCleanup() {
     
     // Run cleanup immediately
     await cleanupDeletedUsers();
+    await cleanupTrashedLists();
     
     // Schedule periodic cleanup
     setInterval(async () => {
       try {
         await cleanupDeletedUsers();
+        await cleanupTrashedLists();
       } catch (error) {
         console.error('Error in scheduled cleanup:', error);
       }
@@ -0,0 +1,33 @@
+import { connectToMongoDB } from "@/lib/db/client";
+import { purgeExpiredTrash } from "@/lib/actions/list-trash";
+
+async function cleanupTrashedLists() {
+  try {
+    console.log('Starting cleanup of trashed lists...');
+
+    // Connect to MongoDB
+    await connectToMongoDB();
+
+    const stats = await purgeExpiredTrash();
+
+    console.log('Trash cleanup completed. Results:', {
+      purgedLists: stats.lists,
+      deletedPins: stats.pins,
+      deletedListViews: stats.views
+    });
+  } catch (error) {
+    console.error('Error during trash cleanup:', error);
+  }
+}
+
+// If running directly (not imported)
+if (require.main === module) {
+  cleanupTrashedLists()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Fatal error during trash cleanup:', error);
+      process.exit(1);
+    });
+}
+
+export { cleanupTrashedLists };
@@ -0,0 +1,45 @@
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import { Types } from 'mongoose';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+import { getListModel } from "@/lib/db/models-v2/list";
+import { connectToMongoDB } from "@/lib/db/client";
+
+async function migrateItemIds() {
+  try {
+    // Connect to MongoDB
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    // Items used to be saved without an _id
+    const lists = await ListModel.find({
+      items: { $elemMatch: { _id: { $exists: false } } }
+    }).lean();
+    console.log(`Found ${lists.length} lists with items missing IDs`);
+
+    for (const list of lists) {
+      await ListModel.collection.updateOne(
+        { _id: list._id },
+        {
+          $set: {
+            items: list.items.map(item => ({
+              ...item,
+              _id: item._id || new Types.ObjectId()
+            }))
+          }
+        }
+      );
+    }
+
+    console.log('Migration completed successfully');
+    process.exit(0);
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+migrateItemIds();
@@ -0,0 +1,40 @@
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+import { getListModel } from "@/lib/db/models-v2/list";
+import { connectToMongoDB } from "@/lib/db/client";
+
+async function migrateListTags() {
+  try {
+    // Connect to MongoDB
+    await connectToMongoDB();
+    const ListModel = await getListModel();
+
+    const result = await ListModel.collection.updateMany(
+      { tags: { $exists: false } },
+      { $set: { tags: [] } }
+    );
+    console.log(`Added empty tags to ${result.modifiedCount} lists`);
+
+    // A collection has a single text index, so the old one (without tags)
+    // has to be dropped before the new one can be built
+    const indexes = await ListModel.collection.indexes();
+    const textIndex = indexes.find(index => index.key._fts === 'text');
+    if (textIndex?.name && !textIndex.weights?.tags) {
+      await ListModel.collection.dropIndex(textIndex.name);
+      console.log(`Dropped text index ${textIndex.name}`);
+    }
+    await ListModel.syncIndexes();
+
+    console.log('Migration completed successfully');
+    process.exit(0);
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+migrateListTags();
@@ -0,0 +1,28 @@
+import type { ListCategoryInfo } from './list';
+
+export interface UserCategory extends ListCategoryInfo {
+  id: string;
+  slug: string;
+  createdAt: string;
+}
+
+export const CATEGORY_ICONS = [
+  'tag',
+  'mic',
+  'dice',
+  'wine',
+  'music',
+  'gamepad',
+  'plane',
+  'shopping-bag',
+  'gift',
+  'heart',
+  'star',
+  'coffee',
+  'camera',
+  'palette',
+  'dumbbell',
+  'leaf'
+] as const;
+
+export type CategoryIcon = typeof CATEGORY_ICONS[number];
@@ -1,7 +1,7 @@
 export interface Collaborator {
   listId: string;
   clerkId: string;
-  role: 'owner' | 'admin' | 'editor' | 'viewer';
+  role: 'owner' | 'admin' | 'editor' | 'contributor' | 'commenter' | 'viewer';
   status: 'accepted' | 'pending' | 'rejected';
   createdAt: Date;
   updatedAt: Date;
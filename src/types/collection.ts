@@ -0,0 +1,28 @@
+export type CollectionVisibility = 'public' | 'private';
+
+// How lists are ordered inside a collection. `manual` keeps the order the
+// owner arranged them in.
+export type CollectionSort = 'recent' | 'title' | 'manual';
+
+export const COLLECTION_SORTS: Array<{ value: CollectionSort; label: string }> = [
+  { value: 'recent', label: 'Recently edited' },
+  { value: 'title', label: 'Title' },
+  { value: 'manual', label: 'Custom order' }
+];
+
+// A named group of lists a user owns or has pinned
+export interface ListCollection {
+  id: string;
+  name: string;
+  description?: string;
+  visibility: CollectionVisibility;
+  sort: CollectionSort;
+  // In the owner's custom order
+  listIds: string[];
+  owner: {
+    clerkId: string;
+    username: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
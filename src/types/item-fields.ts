@@ -0,0 +1,42 @@
+import type { BuiltInCategory } from './list';
+
+// Ratings are out of five, in half stars
+export type ItemFieldKind = 'text' | 'number' | 'rating' | 'choice';
+
+export interface ItemFieldDefinition {
+  key: string;
+  label: string;
+  kind: ItemFieldKind;
+  // Whole-number bounds for number fields
+  min?: number;
+  max?: number;
+  // Shown after number values, e.g. "min"
+  unit?: string;
+  // The values a choice field accepts, in order
+  options?: readonly string[];
+  maxLength?: number;
+}
+
+export const MAX_RATING = 5;
+
+export const CATEGORY_ITEM_FIELDS: Partial<Record<BuiltInCategory, ItemFieldDefinition[]>> = {
+  movies: [
+    { key: 'year', label: 'Year', kind: 'number', min: 1870, max: 2100 },
+    { key: 'director', label: 'Director', kind: 'text', maxLength: 100 },
+    { key: 'rating', label: 'Rating', kind: 'rating' }
+  ],
+  books: [
+    { key: 'author', label: 'Author', kind: 'text', maxLength: 100 },
+    { key: 'pages', label: 'Pages', kind: 'number', min: 1, max: 20000 },
+    { key: 'rating', label: 'Rating', kind: 'rating' }
+  ],
+  restaurants: [
+    { key: 'cuisine', label: 'Cuisine', kind: 'text', maxLength: 50 },
+    { key: 'price', label: 'Price', kind: 'choice', options: ['$', '$$', '$$$', '$$$$'] },
+    { key: 'address', label: 'Address', kind: 'text', maxLength: 200 }
+  ],
+  recipes: [
+    { key: 'prepTime', label: 'Prep time', kind: 'number', min: 1, max: 10000, unit: 'min' },
+    { key: 'servings', label: 'Servings', kind: 'number', min: 1, max: 100 }
+  ]
+};
@@ -0,0 +1,71 @@
+export type ListActivityType =
+  | 'item.added'
+  | 'item.removed'
+  | 'item.renamed'
+  | 'item.checked'
+  | 'item.unchecked'
+  | 'item.edited'
+  | 'items.reordered'
+  | 'list.renamed'
+  | 'list.edited'
+  | 'list.visibility'
+  | 'collaborator.added'
+  | 'collaborator.invited'
+  | 'collaborator.claimed'
+  | 'collaborator.joined'
+  | 'collaborator.declined'
+  | 'collaborator.role'
+  | 'collaborator.removed'
+  | 'collaborator.left'
+  | 'ownership.offered'
+  | 'ownership.withdrawn'
+  | 'ownership.declined'
+  | 'ownership.transferred'
+  | 'list.copied'
+  | 'list.pinned'
+  | 'list.unpinned'
+  | 'list.deleted'
+  | 'list.restored';
+
+// The groups the activity timeline can be filtered by
+export type ListActivityCategory = 'items' | 'details' | 'visibility' | 'collaborators' | 'copies' | 'pins' | 'trash';
+
+export interface ListActivityActor {
+  clerkId: string;
+  username?: string;
+}
+
+// The collaborator a change was about, or the address an invite went to
+export interface ListActivitySubject {
+  clerkId?: string;
+  username?: string;
+  email?: string;
+}
+
+// What is recorded for one change. The list and who made the change are
+// given separately.
+export interface ListActivityInput {
+  type: ListActivityType;
+  itemId?: string;
+  itemTitle?: string;
+  // The old and new value for renames and visibility or role changes
+  from?: string;
+  to?: string;
+  // Which fields an edit changed
+  fields?: string[];
+  subject?: ListActivitySubject;
+}
+
+export interface ListActivityEntry extends ListActivityInput {
+  id: string;
+  actor: ListActivityActor;
+  createdAt: string;
+}
+
+export interface ListActivityPage {
+  entries: ListActivityEntry[];
+  nextCursor?: string;
+  hasMore: boolean;
+  // Everyone with activity on the list, sent with the first page
+  people?: ListActivityActor[];
+}
@@ -0,0 +1,18 @@
+import type { BuiltInCategory, ListItem } from './list';
+
+export type ListImportFormat = 'markdown' | 'csv' | 'text' | 'letterboxd' | 'goodreads';
+
+export type ImportedListItem = Omit<ListItem, 'id'>;
+
+export interface ListImportPreview {
+  format: ListImportFormat;
+  title?: string;
+  description?: string;
+  // Set for exports from services that only track one kind of thing
+  category?: BuiltInCategory;
+  items: ImportedListItem[];
+  // Parts of the input that could not be imported as-is
+  warnings: string[];
+  // Items left out because the list already has them, or the import repeats them
+  skipped?: number;
+}
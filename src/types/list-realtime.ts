@@ -0,0 +1,41 @@
+import type { ListItem } from './list';
+
+export interface ListPresenceUser {
+  connectionId: string;
+  clerkId: string;
+  username?: string;
+  imageUrl?: string;
+  editing: boolean;
+}
+
+export type ListChangeType =
+  | 'item.added'
+  | 'item.updated'
+  | 'item.removed'
+  | 'items.reordered'
+  | 'items.imported'
+  | 'list.saved'
+  | 'list.restored'
+  | 'list.pulled'
+  | 'list.transferred';
+
+export interface ListChangeEvent {
+  type: 'change';
+  change: ListChangeType;
+  itemId?: string;
+  version: number;
+  title: string;
+  description?: string;
+  items: ListItem[];
+  actor: {
+    clerkId: string;
+    username?: string;
+  };
+}
+
+export interface ListPresenceEvent {
+  type: 'presence';
+  users: ListPresenceUser[];
+}
+
+export type ListEvent = ListChangeEvent | ListPresenceEvent;
@@ -0,0 +1,49 @@
+import type { ListItem, ListVisibility } from './list';
+
+export interface ListRevisionSnapshot {
+  title: string;
+  description?: string;
+  visibility: ListVisibility;
+  items: Array<Omit<ListItem, 'id'>>;
+}
+
+export interface ListRevisionSummary {
+  id: string;
+  revision: number;
+  editedBy: {
+    clerkId: string;
+    username?: string;
+  };
+  itemCount: number;
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+export interface ListRevision extends ListRevisionSummary {
+  snapshot: ListRevisionSnapshot;
+}
+
+export type ListFieldChange = {
+  field: 'title' | 'description' | 'visibility';
+  from?: string;
+  to?: string;
+};
+
+export type ListItemChange =
+  | { type: 'added'; index: number; item: Omit<ListItem, 'id'> }
+  | { type: 'removed'; index: number; item: Omit<ListItem, 'id'> }
+  | {
+      type: 'changed';
+      index: number;
+      from: Omit<ListItem, 'id'>;
+      to: Omit<ListItem, 'id'>;
+      fields: Array<'title' | 'comment' | 'completed' | 'childItems'>;
+    }
+  | { type: 'moved'; from: number; to: number; item: Omit<ListItem, 'id'> };
+
+export interface ListRevisionDiff {
+  from: number;
+  to: number;
+  fields: ListFieldChange[];
+  items: ListItemChange[];
+}
@@ -0,0 +1,30 @@
+import type { ListItem } from './list';
+
+export type UpstreamItemField = 'title' | 'comment' | 'childItems';
+
+/**
+ * A change made to the original list since the copy last pulled from it.
+ * `conflict` means the copy changed the same item too, so pulling the change
+ * would overwrite local edits.
+ */
+export type UpstreamItemChange =
+  | { key: string; type: 'added'; upstream: ListItem; conflict: false }
+  | {
+      key: string;
+      type: 'changed';
+      upstream: ListItem;
+      local?: ListItem;
+      fields: UpstreamItemField[];
+      conflict: boolean;
+    }
+  | { key: string; type: 'removed'; local: ListItem; conflict: boolean };
+
+export interface UpstreamDiff {
+  source: {
+    listId: string;
+    title: string;
+    ownerUsername?: string;
+    version: number;
+  };
+  changes: UpstreamItemChange[];
+}
@@ -1,14 +1,16 @@
-export type ListCategory = 
+export type BuiltInCategory =
   | 'movies' 
   | 'tv-shows' 
   | 'books' 
   | 'restaurants' 
   | 'recipes' 
   | 'things-to-do' 
-  | 'other' 
-  | 'all';
+  | 'other';
 
-export const LIST_CATEGORIES: ListCategory[] = [
+// Built-in categories, plus the slugs of categories users create themselves
+export type ListCategory = BuiltInCategory | 'all' | string;
+
+export const LIST_CATEGORIES: BuiltInCategory[] = [
   'movies',
   'tv-shows',
   'books',
@@ -18,6 +20,16 @@ export const LIST_CATEGORIES: ListCategory[] = [
   'other'
 ];
 
+export const isBuiltInCategory = (category: string): category is BuiltInCategory =>
+  (LIST_CATEGORIES as string[]).includes(category);
+
+// How a user-defined category is displayed, copied onto each list that uses it
+export interface ListCategoryInfo {
+  name: string;
+  color: string;
+  icon: string;
+}
+
 export const PRIVACY_OPTIONS = [
   { value: 'public', label: 'Public' },
   { value: 'unlisted', label: 'Unlisted' },
@@ -33,15 +45,49 @@ export const OWNER_FILTER_OPTIONS = [
 export type ListVisibility = 'public' | 'unlisted' | 'private';
 export type ListType = 'ordered' | 'bullet';
 
+// Sub-items nest to any depth, up to MAX_ITEM_DEPTH levels below the item
+export interface ListChildItem {
+  title: string;
+  tag?: string;
+  childItems?: ListChildItem[];
+}
+
+// Sections are headers that group the items after them, up to the next
+// section. They have no checkbox or sub-items and aren't numbered.
+export type ListItemType = 'item' | 'section';
+
+// Structured details such as a film's director, keyed by the fields defined
+// for the list's category in CATEGORY_ITEM_FIELDS
+export type ItemFieldValues = Record<string, string | number>;
+
+export interface RecipeIngredient {
+  // Left out for ingredients like "salt, to taste"
+  quantity?: number;
+  unit?: string;
+  name: string;
+}
+
+// Ingredients and method of an item on a recipes list
+export interface ItemRecipe {
+  ingredients: RecipeIngredient[];
+  steps: string[];
+}
+
 export interface ListItem {
   id: string;
+  // Left out for regular items
+  type?: ListItemType;
   title: string;
   comment?: string;
   completed?: boolean;
-  childItems?: Array<{
-    title: string;
-    tag?: string;
-  }>;
+  // Short label shown beside the item, like the tags sub-items have
+  tag?: string;
+  childItems?: ListChildItem[];
+  // Left out when the item has none
+  fields?: ItemFieldValues;
+  recipe?: ItemRecipe;
+  // Clerk ID of whoever added the item, when known
+  createdBy?: string;
 }
 
 export interface ListOwner {
@@ -53,12 +99,16 @@ export interface ListOwner {
   joinedAt: string;
 }
 
+// Editors can change anything on a list. Contributors can add items and change
+// the ones they added, and commenters can only write item comments.
+export type CollaboratorRole = 'admin' | 'editor' | 'contributor' | 'commenter' | 'viewer';
+
 export interface ListCollaborator {
   id: string;
   clerkId: string;
   username: string;
   email?: string;
-  role: 'admin' | 'editor' | 'viewer';
+  role: CollaboratorRole;
   status: 'pending' | 'accepted' | 'rejected';
   invitedAt: string;
   acceptedAt?: string;
@@ -70,22 +120,80 @@ export interface ListStats {
   copyCount: number;
 }
 
+export interface ListForkSource {
+  listId: string;
+  title: string;
+  ownerUsername?: string;
+  forkedAt: string;
+  // False when the original was deleted or the viewer can no longer see it
+  available?: boolean;
+}
+
+// How many of a list's items the signed-in user has ticked off for themselves
+export interface ListProgress {
+  completed: number;
+  total: number;
+}
+
+// A pending offer to make a collaborator the list's owner
+export interface ListOwnershipTransfer {
+  clerkId: string;
+  keepAsAdmin: boolean;
+  requestedAt: string;
+}
+
 export interface List {
   id: string;
   title: string;
   description?: string;
   category: ListCategory;
+  categoryInfo?: ListCategoryInfo;
+  tags?: string[];
   visibility: ListVisibility;
   listType: ListType;
   owner: ListOwner;
   items?: ListItem[];
   stats: ListStats;
   collaborators?: ListCollaborator[];
+  forkedFrom?: ListForkSource;
+  // Only sent to the owner and the collaborator it's offered to
+  ownershipTransfer?: ListOwnershipTransfer;
+  version: number;
   lastEditedAt?: string;
   createdAt: string;
   updatedAt: string;
   editedAt?: string;
   isPinned?: boolean;
+  progress?: ListProgress;
+}
+
+// A list in its owner's trash
+export interface TrashedList {
+  id: string;
+  title: string;
+  category: ListCategory;
+  categoryInfo?: ListCategoryInfo;
+  itemCount: number;
+  deletedAt: string;
+  // When the list will be permanently deleted
+  purgeAt: string;
+}
+
+// An item whose title, comment or sub-items matched a library search
+export interface ItemSearchMatch {
+  itemId: string;
+  title: string;
+  comment?: string;
+  // Titles of the sub-items that matched, at any depth
+  childTitles: string[];
+}
+
+// One list from a library search and the items in it that matched
+export interface ItemSearchResult {
+  list: Pick<List, 'id' | 'title' | 'category' | 'categoryInfo' | 'visibility'> & {
+    ownerUsername: string;
+  };
+  matches: ItemSearchMatch[];
 }
 
 export interface ItemDetails {
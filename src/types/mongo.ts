@@ -1,11 +1,17 @@
 import type { Types } from 'mongoose';
-import type { ListCategory, ListType } from './list';
+import type { ItemFieldValues, ItemRecipe, ListCategory, ListChildItem, ListItemType, ListType } from './list';
 
 export interface MongoListDocument {
   _id: Types.ObjectId;
   title: string;
   description?: string;
   category: string;
+  categoryInfo?: {
+    name: string;
+    color: string;
+    icon: string;
+  } | null;
+  tags?: string[];
   visibility: 'public' | 'private' | 'unlisted';
   listType: 'ordered' | 'bullet';
   owner: {
@@ -19,26 +25,40 @@ export interface MongoListDocument {
     clerkId?: string;
     username?: string;
     email?: string;
-    role: 'admin' | 'editor' | 'viewer';
+    role: 'admin' | 'editor' | 'contributor' | 'commenter' | 'viewer';
     status: 'pending' | 'accepted' | 'rejected';
     invitedAt: Date;
     acceptedAt?: Date;
   }>;
   items?: Array<{
+    _id?: Types.ObjectId;
+    type?: ListItemType;
     title: string;
     comment?: string;
     completed?: boolean;
     rank?: number;
-    childItems?: Array<{
-      title: string;
-      tag?: string;
-    }>;
+    tag?: string;
+    childItems?: ListChildItem[];
+    fields?: ItemFieldValues;
+    recipe?: ItemRecipe;
   }>;
+  forkedFrom?: {
+    listId: Types.ObjectId;
+    owner: {
+      clerkId: string;
+      username?: string;
+    };
+    title: string;
+    version?: number;
+    forkedAt: Date;
+    pulledAt?: Date;
+  } | null;
   stats?: {
     viewCount: number;
     pinCount: number;
     copyCount: number;
   };
+  version?: number;
   createdAt: Date;
   updatedAt: Date;
   editedAt?: Date;